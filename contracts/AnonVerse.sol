@@ -1,145 +1,1406 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, eaddress, euint256} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {AnonVerseAnonymousPosts} from "./AnonVerseAnonymousPosts.sol";
 
+/// @title Token balance of an account
+/// @author AnonVerse
+/// @notice The one call a join gate makes: ERC-20 tokens and ERC-721 collections both expose it.
+interface ITokenBalance {
+    /// @notice Return how many tokens `account` holds.
+    /// @param account The holder to look up.
+    /// @return The balance in the token's smallest unit, or the number of NFTs held.
+    function balanceOf(address account) external view returns (uint256);
+}
+
+// Per-group state lives in one mapping per field rather than in nested structs, which takes more declarations.
+// solhint-disable max-states-count
 /// @title Encrypted group chat for AnonVerse
+/// @author AnonVerse
 /// @notice Handles group creation, membership, and encrypted message storage using a shared FHE key.
 contract AnonVerse is ZamaEthereumConfig {
+    /// @notice Number of reaction kinds; clients map each index to an emoji.
+    uint8 public constant REACTION_KINDS = 6;
+
+    // EIP-712 type strings are fixed by the standard and cannot be shortened.
+    // solhint-disable gas-small-strings
+    /// @notice EIP-712 type of a message post signed by its sender and submitted by anyone.
+    bytes32 public constant POST_TYPEHASH = keccak256(
+        "Post(address sender,uint256 groupId,string cipherText,bytes32 attachmentHash,uint256 attachmentSize,"
+        "uint256 nonce,uint256 deadline)"
+    );
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    // solhint-enable gas-small-strings
+    bytes32 private constant NAME_HASH = keccak256("AnonVerse");
+    bytes32 private constant VERSION_HASH = keccak256("1");
+    // Upper bound of the `s` value of a canonical secp256k1 signature (EIP-2).
+    uint256 private constant MAX_SIGNATURE_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    /// @notice How new members are admitted to a group.
+    enum Privacy {
+        Open,
+        Approval,
+        InviteOnly
+    }
+
+    /// @notice What a member may do in a group, in increasing order of power.
+    /// @dev Read-only members hold the keys but cannot post. Moderators can mute the roles below them, admins
+    /// manage membership, keys and the roles below admin, and the single owner can also appoint admins.
+    enum Role {
+        None,
+        ReadOnly,
+        Member,
+        Moderator,
+        Admin,
+        Owner
+    }
+
+    /// @notice What a gated group asks of accounts that join it.
+    enum GateKind {
+        None,
+        ERC20,
+        ERC721,
+        Group
+    }
+
+    /// @notice Admission rule of a group. Token gates ask for a balance of at least `threshold` at `token`; group
+    /// gates ask for membership in the AnonVerse group whose id is `threshold`, and leave `token` unset.
+    struct Gate {
+        GateKind kind;
+        address token;
+        uint256 threshold;
+    }
+
+    // Fields are ordered so the privacy shares a storage slot with the owner, and the direct flag with the creator.
     struct GroupMetadata {
         string name;
-        address creator;
-        euint32 secret;
+        euint256 secret;
+        uint256 keyEpoch;
         uint256 createdAt;
         uint256 memberCount;
         uint256 messageCount;
+        Privacy privacy;
+        address owner;
+        address creator;
+        bool direct;
     }
 
+    /// @notice A post signed off chain; `attachmentHash` and `attachmentSize` are zero for plain messages.
+    struct SignedPost {
+        address sender;
+        uint256 groupId;
+        string cipherText;
+        bytes32 attachmentHash;
+        uint256 attachmentSize;
+        uint256 nonce;
+        uint256 deadline;
+        bytes signature;
+    }
+
+    /// @notice A stored message; the sender shares its slot with the edited and deleted flags.
     struct Message {
         address sender;
+        // Set when the sender superseded the cipherText, or tombstoned the message and cleared its content.
+        bool edited;
+        bool deleted;
         string cipherText;
         uint256 timestamp;
+        uint256 epoch;
+        // SHA-256 and byte size of an encrypted attachment kept in an off-chain blob store; zero when absent.
+        bytes32 attachmentHash;
+        uint256 attachmentSize;
+    }
+
+    /// @notice Name, description and avatar of a group, sealed with the key of `epoch` by an admin's client.
+    struct Profile {
+        string cipherText;
+        uint256 epoch;
     }
 
     GroupMetadata[] private groups;
-    mapping(uint256 => mapping(address => bool)) private groupMembers;
-    mapping(uint256 => address[]) private memberLists;
-    mapping(uint256 => Message[]) private groupMessages;
+    mapping(uint256 groupId => mapping(address account => bool joined)) private groupMembers;
+    mapping(uint256 groupId => address[] members) private memberLists;
+    mapping(uint256 groupId => mapping(address account => uint256 index)) private memberIndexes;
+    mapping(uint256 groupId => mapping(address account => Role role)) private memberRoles;
+    // Timestamp until which a member cannot post; zero or in the past when not muted.
+    mapping(uint256 groupId => mapping(address account => uint256 until)) private mutedUntil;
+    mapping(uint256 groupId => euint256[] secrets) private groupSecrets;
+    mapping(uint256 groupId => mapping(address account => bool invited)) private invitations;
+    mapping(uint256 groupId => mapping(address account => bool pending)) private pendingRequests;
+    mapping(uint256 groupId => address[] requesters) private requestLists;
+    mapping(uint256 groupId => mapping(address account => uint256 index)) private requestIndexes;
+    mapping(uint256 groupId => Message[] messages) private groupMessages;
+    mapping(uint256 groupId => mapping(uint256 index => uint256[REACTION_KINDS] counts)) private reactionCounts;
+    mapping(uint256 groupId => mapping(uint256 index => mapping(address account => mapping(uint8 reaction => bool))))
+        private reacted;
+    // Direct conversations by participant pair, stored as groupId + 1 so zero means none.
+    mapping(bytes32 pair => uint256 groupIdPlusOne) private directGroupIds;
+    mapping(address account => uint256[] groupIds) private directLists;
+    // Groups each address is a member of, so clients need not scan every group to find their own.
+    mapping(address account => uint256[] groupIds) private accountGroups;
+    mapping(address account => mapping(uint256 groupId => uint256 index)) private accountGroupIndexes;
+    // Read positions of each account, sealed by its client; the contract only keeps them for other devices.
+    mapping(address account => bytes markers) private readMarkers;
+    mapping(uint256 groupId => bool enabled) private anonymousPosting;
+    // Groups whose members are kept as encrypted address slots instead of a readable list.
+    mapping(uint256 groupId => bool hidden) private hiddenMembership;
+    // Encrypted address of each member of a hidden-membership group, at the index kept in `memberIndexes`.
+    // Slots of members who left hold the zero address until the next member to join takes them over.
+    mapping(uint256 groupId => eaddress[] slots) private memberSlots;
+    // Indexes of the slots freed by members who left, reused before any new slot is added.
+    mapping(uint256 groupId => uint256[] indexes) private freeSlots;
+    mapping(uint256 groupId => Profile profile) private profiles;
+    mapping(uint256 groupId => Gate gate) private gates;
+    // Random value shared with the members allowed to post, which anonymous posts prove knowledge of. It is
+    // replaced whenever someone loses the right to post, so muted, read-only and former members cannot use it.
+    mapping(uint256 groupId => euint256 pass) private postingPasses;
+
+    /// @notice The contract anonymous posts are submitted to; it checks their posting pass and stores them here.
+    AnonVerseAnonymousPosts public immutable ANONYMOUS_POSTS;
+
+    /// @notice Next nonce a sender has to sign a post with; each signed post can be submitted once.
+    mapping(address sender => uint256 nonce) public nonces;
+
+    // Values such as timestamps, epochs and flags are read along with the event, never filtered on.
+    // solhint-disable gas-indexed-events
 
-    event GroupCreated(uint256 indexed groupId, address indexed creator, string name, euint32 encryptedKey);
+    /// @notice A group was created.
+    /// @param groupId The new group's id.
+    /// @param creator The account that created it.
+    /// @param name The public group name, possibly empty.
+    /// @param encryptedKey The handle of the group's first key.
+    /// @param privacy How the group admits new members.
+    /// @param createdAt Block timestamp of the creation.
+    event GroupCreated(
+        uint256 indexed groupId,
+        address indexed creator,
+        string name,
+        euint256 encryptedKey,
+        Privacy privacy,
+        uint256 createdAt
+    );
+    /// @notice An admin invited an account; the zero address in hidden-membership groups.
+    /// @param groupId The group.
+    /// @param account The invited account.
+    event MemberInvited(uint256 indexed groupId, address indexed account);
+    /// @notice An account asked to join an approval group.
+    /// @param groupId The group.
+    /// @param account The requester.
+    event JoinRequested(uint256 indexed groupId, address indexed account);
+    /// @notice An admin turned a join request away.
+    /// @param groupId The group.
+    /// @param account The requester.
+    event JoinRequestRejected(uint256 indexed groupId, address indexed account);
+    /// @notice A member joined; the zero address in hidden-membership groups.
+    /// @param groupId The group.
+    /// @param member The new member.
     event MemberJoined(uint256 indexed groupId, address indexed member);
-    event MessagePosted(uint256 indexed groupId, address indexed sender, string cipherText, uint256 timestamp);
+    /// @notice A member left; the zero address in hidden-membership groups.
+    /// @param groupId The group.
+    /// @param member The member who left.
+    event MemberLeft(uint256 indexed groupId, address indexed member);
+    /// @notice An admin removed a member; the zero address in hidden-membership groups.
+    /// @param groupId The group.
+    /// @param member The removed member.
+    event MemberRemoved(uint256 indexed groupId, address indexed member);
+    /// @notice A member's role changed; the zero address in hidden-membership groups.
+    /// @param groupId The group.
+    /// @param account The member.
+    /// @param role The new role.
+    event RoleChanged(uint256 indexed groupId, address indexed account, Role role);
+    /// @notice The group changed hands; both owners are the zero address in hidden-membership groups.
+    /// @param groupId The group.
+    /// @param previousOwner The owner before, who stays on as an admin.
+    /// @param newOwner The new owner.
+    event OwnershipTransferred(uint256 indexed groupId, address indexed previousOwner, address indexed newOwner);
+    /// @notice A moderator muted a member; the zero address in hidden-membership groups.
+    /// @param groupId The group.
+    /// @param member The muted member.
+    /// @param until Timestamp the mute runs out at.
+    event MemberMuted(uint256 indexed groupId, address indexed member, uint256 until);
+    /// @notice A moderator lifted a mute early; the zero address in hidden-membership groups.
+    /// @param groupId The group.
+    /// @param member The member who can post again.
+    event MemberUnmuted(uint256 indexed groupId, address indexed member);
+    /// @notice Anonymous posting was turned on or off.
+    /// @param groupId The group.
+    /// @param enabled Whether `postAnonymous` is accepted now.
+    event AnonymousPostingChanged(uint256 indexed groupId, bool enabled);
+    /// @notice The group keeps its member list encrypted.
+    /// @param groupId The group.
+    event MembershipHidden(uint256 indexed groupId);
+    /// @notice The group only admits accounts passing a gate.
+    /// @param groupId The group.
+    /// @param kind What the gate checks.
+    /// @param token The token checked, unset for group gates.
+    /// @param threshold The balance asked for, or the id of the gating group.
+    event GroupGated(uint256 indexed groupId, GateKind kind, address token, uint256 threshold);
+    /// @notice An admin replaced the sealed profile.
+    /// @param groupId The group.
+    /// @param cipherText The profile sealed with the key of `epoch`, empty when removed.
+    /// @param epoch The key epoch it was sealed with.
+    event ProfileChanged(uint256 indexed groupId, string cipherText, uint256 epoch);
+    /// @notice A sender replaced the content of a message.
+    /// @param groupId The group.
+    /// @param index The message index.
+    /// @param cipherText The new content.
+    /// @param epoch The key epoch of the new content.
+    event MessageEdited(uint256 indexed groupId, uint256 indexed index, string cipherText, uint256 epoch);
+    /// @notice A sender tombstoned a message.
+    /// @param groupId The group.
+    /// @param index The message index.
+    event MessageDeleted(uint256 indexed groupId, uint256 indexed index);
+    /// @notice A member added or took back a reaction.
+    /// @param groupId The group.
+    /// @param index The message index.
+    /// @param account The member reacting.
+    /// @param reaction The reaction kind.
+    /// @param added Whether the reaction was added rather than taken back.
+    event ReactionChanged(
+        uint256 indexed groupId,
+        uint256 indexed index,
+        address indexed account,
+        uint8 reaction,
+        bool added
+    );
+    /// @notice Two accounts opened a direct conversation.
+    /// @param groupId The conversation's group id.
+    /// @param initiator The account that opened it.
+    /// @param peer The other participant.
+    event DirectMessageStarted(uint256 indexed groupId, address indexed initiator, address indexed peer);
+    /// @notice The group key was replaced.
+    /// @param groupId The group.
+    /// @param epoch The new key epoch.
+    /// @param encryptedKey The handle of the new key.
+    event KeyRotated(uint256 indexed groupId, uint256 indexed epoch, euint256 encryptedKey);
+    /// @notice A message was posted; anonymous messages carry the zero address.
+    /// @param groupId The group.
+    /// @param sender The poster.
+    /// @param cipherText The message encrypted with the key of `epoch`.
+    /// @param timestamp Block timestamp of the post.
+    /// @param epoch The key epoch the message was encrypted with.
+    /// @param attachmentHash SHA-256 of the encrypted attachment, zero without one.
+    /// @param attachmentSize Byte size of the encrypted attachment, zero without one.
+    event MessagePosted(
+        uint256 indexed groupId,
+        address indexed sender,
+        string cipherText,
+        uint256 timestamp,
+        uint256 epoch,
+        bytes32 attachmentHash,
+        uint256 attachmentSize
+    );
 
+    // solhint-enable gas-indexed-events
+
+    error InvalidGroup();
+    error InsufficientRole();
+    error DirectConversation();
+    error HiddenMembership();
+    error InvalidGate();
+    error InvalidPeer();
+    error CannotMessageYourself();
+    error AlreadyJoined();
+    error GateNotMet();
+    error InvitationRequired();
+    error RequestPending();
+    error NoPendingRequest();
+    error NotAMember();
+    error OwnerCannotLeave();
+    error OwnerCannotBeRemoved();
+    error InvalidRole();
+    error AlreadyOwner();
+    error DurationRequired();
+    error NotMuted();
+    error Unchanged();
+    error JoinFirst();
+    error ReadOnlyMember();
+    error Muted();
+    error MessageRequired();
+    error AttachmentHashRequired();
+    error AttachmentSizeRequired();
+    error InvalidAttachment();
+    error LengthMismatch();
+    error NothingToPost();
+    error SignatureExpired();
+    error InvalidNonce();
+    error InvalidSignature();
+    error InvalidMessageIndex();
+    error MessageWasDeleted();
+    error OnlySender();
+    error InvalidReaction();
+    error InvalidEpoch();
+    error OnlyAnonymousPosts();
+
+    // Modifier checks live in private functions so their revert paths are not copied into every function using them,
+    // which keeps the contract under the 24KB size limit.
     modifier validGroup(uint256 groupId) {
-        require(groupId < groups.length, "Invalid group");
+        _requireValidGroup(groupId);
+        _;
+    }
+
+    modifier atLeast(uint256 groupId, Role role) {
+        _requireRole(groupId, role);
         _;
     }
 
-    /// @notice Create a new group with a random six-digit FHE-shielded key.
-    /// @param name The readable group name.
+    /// @notice Deploy the contract together with the one anonymous posts go through.
+    /// @dev The anonymous posts contract is kept apart because its pass check would take this one over the contract
+    /// size limit.
+    constructor() {
+        ANONYMOUS_POSTS = new AnonVerseAnonymousPosts(this);
+    }
+
+    /// @notice Create a new group with a random 256-bit FHE-shielded key.
+    /// @param name The public group name. It can be empty when the real name is only kept in the sealed profile.
+    /// @param privacy Whether anyone can join, joins need approval, or only invited addresses can join.
     /// @return groupId The newly created group id.
-    /// @return encryptedKey The encrypted six-digit key shared with members.
-    function createGroup(string calldata name) external returns (uint256 groupId, euint32 encryptedKey) {
-        require(bytes(name).length > 0, "Group name required");
+    /// @return encryptedKey The encrypted 256-bit key shared with members.
+    function createGroup(
+        string calldata name,
+        Privacy privacy
+    ) external returns (uint256 groupId, euint256 encryptedKey) {
+        (groupId, encryptedKey) = _createGroup(name, privacy, false, false);
+    }
 
-        euint32 secret = FHE.rem(FHE.randEuint32(), 1_000_000);
+    /// @notice Create a group whose member list only its members can read.
+    /// @dev Members are stored as encrypted address slots instead of a public list, events carry the zero address
+    /// instead of a member, and the group is left out of `listGroupsOf`. The member count stays public. Members post
+    /// anonymously only and cannot react, since both would name them. Joins cannot wait for approval, which would
+    /// list the requesters. This is best-effort: transactions still come from, and name, the accounts involved, and
+    /// anyone can look up a guessed address with `isMember`.
+    /// @param name The public group name, which can be empty as in `createGroup`.
+    /// @param privacy Whether anyone can join or only invited addresses can join.
+    /// @return groupId The newly created group id.
+    function createHiddenGroup(string calldata name, Privacy privacy) external returns (uint256 groupId) {
+        (groupId, ) = _createGroup(name, privacy, false, true);
+    }
 
-        groupId = groups.length;
-        groups.push(
-            GroupMetadata({
-                name: name,
-                creator: msg.sender,
-                secret: secret,
-                createdAt: block.timestamp,
-                memberCount: 1,
-                messageCount: 0
-            })
-        );
+    /// @notice Create a group that only admits accounts passing `gate`.
+    /// @dev The gate is checked when an account joins or asks to join, not afterwards: members who later sell their
+    /// tokens or leave the gating group stay in.
+    /// @param name The public group name, which can be empty as in `createGroup`.
+    /// @param privacy Whether anyone can join, joins need approval, or only invited addresses can join.
+    /// @param gate The token or group an account needs to join. A gating group cannot hide its members, since
+    /// `meetsGate` would tell who belongs to it.
+    /// @param hidden Whether the member list is encrypted, as in `createHiddenGroup`.
+    /// @return groupId The newly created group id.
+    function createGatedGroup(
+        string calldata name,
+        Privacy privacy,
+        Gate calldata gate,
+        bool hidden
+    ) external returns (uint256 groupId) {
+        require(
+            gate.kind == GateKind.Group
+                ? gate.threshold < groups.length && gate.token == address(0) && !hiddenMembership[gate.threshold]
+                : gate.kind != GateKind.None && gate.threshold > 0 && gate.token.code.length > 0, InvalidGate());
 
-        groupMembers[groupId][msg.sender] = true;
-        memberLists[groupId].push(msg.sender);
+        (groupId, ) = _createGroup(name, privacy, false, hidden);
+        gates[groupId] = gate;
 
-        FHE.allow(secret, msg.sender);
-        FHE.allowThis(secret);
+        emit GroupGated(groupId, gate.kind, gate.token, gate.threshold);
+    }
 
-        emit GroupCreated(groupId, msg.sender, name, secret);
-        return (groupId, secret);
+    /// @notice Open the direct conversation between the caller and `peer`, creating it on first use.
+    /// @dev A direct conversation is an invite-only group with exactly two members whose keys are shared with
+    /// nobody else. Calling again from either side returns the existing conversation.
+    /// @param peer The other participant.
+    /// @return groupId The conversation's group id.
+    function startDirectMessage(address peer) external returns (uint256 groupId) {
+        require(peer != address(0), InvalidPeer());
+        require(peer != msg.sender, CannotMessageYourself());
+
+        bytes32 pair = _pairKey(msg.sender, peer);
+        if (directGroupIds[pair] != 0) {
+            return directGroupIds[pair] - 1;
+        }
+
+        (groupId, ) = _createGroup("", Privacy.InviteOnly, true, false);
+        _addMember(groupId, peer);
+        directGroupIds[pair] = groupId + 1;
+        directLists[msg.sender].push(groupId);
+        directLists[peer].push(groupId);
+
+        emit DirectMessageStarted(groupId, msg.sender, peer);
     }
 
-    /// @notice Join an existing group and receive decrypt permissions for its key.
+    /// @notice Join an existing group and receive decrypt permissions for its keys.
+    /// @dev Open groups admit anyone. Approval groups queue a join request unless the caller was invited,
+    /// and invite-only groups require an invitation from an admin.
     /// @param groupId The group to join.
     function joinGroup(uint256 groupId) external validGroup(groupId) {
-        require(!groupMembers[groupId][msg.sender], "Already joined");
+        require(!groupMembers[groupId][msg.sender], AlreadyJoined());
+        require(meetsGate(groupId, msg.sender), GateNotMet());
 
-        groupMembers[groupId][msg.sender] = true;
-        memberLists[groupId].push(msg.sender);
-        groups[groupId].memberCount += 1;
+        Privacy privacy = groups[groupId].privacy;
+        if (privacy == Privacy.Open || invitations[groupId][msg.sender]) {
+            delete invitations[groupId][msg.sender];
+            // An invitation can arrive while a request is still pending; joining settles both.
+            if (pendingRequests[groupId][msg.sender]) _removeRequest(groupId, msg.sender);
+            _addMember(groupId, msg.sender);
+            return;
+        }
+
+        require(privacy == Privacy.Approval, InvitationRequired());
+        require(!pendingRequests[groupId][msg.sender], RequestPending());
+
+        pendingRequests[groupId][msg.sender] = true;
+        requestIndexes[groupId][msg.sender] = requestLists[groupId].length;
+        requestLists[groupId].push(msg.sender);
+
+        emit JoinRequested(groupId, msg.sender);
+    }
+
+    /// @notice Pre-authorize an address to join a group.
+    /// @param groupId The target group id.
+    /// @param account The address to invite.
+    function invite(uint256 groupId, address account) external validGroup(groupId) atLeast(groupId, Role.Admin) {
+        require(!groups[groupId].direct, DirectConversation());
+        require(!groupMembers[groupId][account], AlreadyJoined());
+
+        invitations[groupId][account] = true;
+
+        emit MemberInvited(groupId, _shown(groupId, account));
+    }
+
+    /// @notice Approve a pending join request and share the group keys with the requester.
+    /// @param groupId The target group id.
+    /// @param account The requester to admit.
+    function approveRequest(
+        uint256 groupId,
+        address account
+    ) external validGroup(groupId) atLeast(groupId, Role.Admin) {
+        require(pendingRequests[groupId][account], NoPendingRequest());
+        require(!groupMembers[groupId][account], AlreadyJoined());
+
+        _removeRequest(groupId, account);
+        delete invitations[groupId][account];
+        _addMember(groupId, account);
+    }
+
+    /// @notice Reject a pending join request.
+    /// @param groupId The target group id.
+    /// @param account The requester to turn away.
+    function rejectRequest(uint256 groupId, address account) external validGroup(groupId) atLeast(groupId, Role.Admin) {
+        require(pendingRequests[groupId][account], NoPendingRequest());
+
+        _removeRequest(groupId, account);
+
+        emit JoinRequestRejected(groupId, account);
+    }
+
+    /// @notice Leave a group. Keys already shared stay readable until an admin rotates the key.
+    /// @dev The owner has to transfer ownership before leaving.
+    /// @param groupId The group to leave.
+    function leaveGroup(uint256 groupId) external validGroup(groupId) {
+        require(groupMembers[groupId][msg.sender], NotAMember());
+        require(!groups[groupId].direct, DirectConversation());
+        require(groups[groupId].owner != msg.sender, OwnerCannotLeave());
+
+        _removeMember(groupId, msg.sender);
+
+        emit MemberLeft(groupId, _shown(groupId, msg.sender));
+    }
+
+    /// @notice Remove a member from a group and rotate the key so they cannot read new messages.
+    /// @param groupId The target group id.
+    /// @param member The member to remove.
+    function removeMember(uint256 groupId, address member) external validGroup(groupId) atLeast(groupId, Role.Admin) {
+        require(!groups[groupId].direct, DirectConversation());
+        require(groupMembers[groupId][member], NotAMember());
+        require(groups[groupId].owner != member, OwnerCannotBeRemoved());
+        _requireOutranks(groupId, memberRoles[groupId][member]);
 
-        FHE.allow(groups[groupId].secret, msg.sender);
+        _removeMember(groupId, member);
 
-        emit MemberJoined(groupId, msg.sender);
+        emit MemberRemoved(groupId, _shown(groupId, member));
+        _rotateKey(groupId);
+    }
+
+    /// @notice Replace the group key with a fresh random value shared only with the current members.
+    /// @param groupId The target group id.
+    /// @return epoch The new key epoch.
+    function rotateKey(
+        uint256 groupId
+    ) external validGroup(groupId) atLeast(groupId, Role.Admin) returns (uint256 epoch) {
+        return _rotateKey(groupId);
+    }
+
+    /// @notice Give a member another role below owner.
+    /// @dev The caller must outrank both the member's current role and the new one, so only the owner appoints
+    /// or demotes admins.
+    /// @param groupId The target group id.
+    /// @param account The member whose role changes.
+    /// @param role The new role, from read-only up to admin.
+    function setRole(
+        uint256 groupId,
+        address account,
+        Role role
+    ) external validGroup(groupId) atLeast(groupId, Role.Admin) {
+        require(!groups[groupId].direct, DirectConversation());
+        require(groupMembers[groupId][account], NotAMember());
+        require(role != Role.None && role != Role.Owner, InvalidRole());
+        _requireOutranks(groupId, memberRoles[groupId][account]);
+        _requireOutranks(groupId, role);
+
+        memberRoles[groupId][account] = role;
+        if (role < Role.Member) {
+            _rotatePass(groupId);
+        } else {
+            _allowPass(groupId, account);
+        }
+
+        emit RoleChanged(groupId, _shown(groupId, account), role);
+    }
+
+    /// @notice Hand the group over to another member. The previous owner stays on as an admin.
+    /// @param groupId The target group id.
+    /// @param newOwner The member who becomes owner.
+    function transferOwnership(
+        uint256 groupId,
+        address newOwner
+    ) external validGroup(groupId) atLeast(groupId, Role.Owner) {
+        require(!groups[groupId].direct, DirectConversation());
+        require(groupMembers[groupId][newOwner], NotAMember());
+        require(newOwner != msg.sender, AlreadyOwner());
+
+        groups[groupId].owner = newOwner;
+        memberRoles[groupId][newOwner] = Role.Owner;
+        memberRoles[groupId][msg.sender] = Role.Admin;
+        _allowPass(groupId, newOwner);
+
+        emit OwnershipTransferred(groupId, _shown(groupId, msg.sender), _shown(groupId, newOwner));
+        emit RoleChanged(groupId, _shown(groupId, newOwner), Role.Owner);
+        emit RoleChanged(groupId, _shown(groupId, msg.sender), Role.Admin);
+    }
+
+    /// @notice Stop a member from posting or editing messages for a while.
+    /// @param groupId The target group id.
+    /// @param member The member to mute; the caller must outrank them.
+    /// @param duration How long the mute lasts, in seconds.
+    function muteMember(
+        uint256 groupId,
+        address member,
+        uint256 duration
+    ) external validGroup(groupId) atLeast(groupId, Role.Moderator) {
+        require(!groups[groupId].direct, DirectConversation());
+        require(groupMembers[groupId][member], NotAMember());
+        require(duration > 0, DurationRequired());
+        _requireOutranks(groupId, memberRoles[groupId][member]);
+
+        uint256 until = block.timestamp + duration;
+        mutedUntil[groupId][member] = until;
+        _rotatePass(groupId);
+
+        emit MemberMuted(groupId, _shown(groupId, member), until);
+    }
+
+    /// @notice Lift a member's mute before it runs out.
+    /// @param groupId The target group id.
+    /// @param member The muted member.
+    function unmuteMember(
+        uint256 groupId,
+        address member
+    ) external validGroup(groupId) atLeast(groupId, Role.Moderator) {
+        require(!groups[groupId].direct, DirectConversation());
+        require(mutedUntil[groupId][member] > block.timestamp, NotMuted());
+        _requireOutranks(groupId, memberRoles[groupId][member]);
+
+        delete mutedUntil[groupId][member];
+        _allowPass(groupId, member);
+
+        emit MemberUnmuted(groupId, _shown(groupId, member));
+    }
+
+    /// @notice Grant yourself every key epoch of a group you are a member of, and its posting pass if you can post.
+    /// @dev Keys drawn on rotation in hidden-membership groups, and posting passes drawn when someone loses the right
+    /// to post, are not handed to every member up front: that would loop over the members on each change. Members
+    /// claim them with this call instead.
+    /// @param groupId The target group id.
+    function claimAccess(uint256 groupId) external validGroup(groupId) {
+        require(groupMembers[groupId][msg.sender], NotAMember());
+
+        _grantAccess(groupId, msg.sender);
+    }
+
+    /// @notice Grant yourself a page of the roster slots of a hidden-membership group you are a member of.
+    /// @dev Slots are claimed a page at a time so that claiming stays within the block gas limit however large the
+    /// roster grows.
+    /// @param groupId The target group id.
+    /// @param from Index of the first slot to claim.
+    /// @param count Number of slots to claim; the page stops at the last slot.
+    function claimMemberSlots(uint256 groupId, uint256 from, uint256 count) external validGroup(groupId) {
+        require(groupMembers[groupId][msg.sender], NotAMember());
+
+        eaddress[] storage slots = memberSlots[groupId];
+        uint256 end = from + count < slots.length ? from + count : slots.length;
+        for (uint256 i = from; i < end; ++i) {
+            FHE.allow(slots[i], msg.sender);
+        }
+    }
+
+    /// @notice Allow or forbid anonymous posts in a group.
+    /// @param groupId The target group id.
+    /// @param enabled Whether `postAnonymous` is accepted for the group.
+    function setAnonymousPosting(
+        uint256 groupId,
+        bool enabled
+    ) external validGroup(groupId) atLeast(groupId, Role.Admin) {
+        require(!groups[groupId].direct, DirectConversation());
+        require(!hiddenMembership[groupId], HiddenMembership());
+        require(anonymousPosting[groupId] != enabled, Unchanged());
+
+        anonymousPosting[groupId] = enabled;
+        _rotatePass(groupId);
+
+        emit AnonymousPostingChanged(groupId, enabled);
+    }
+
+    /// @notice Set the name, description and avatar of a group, sealed with its current key so only members read them.
+    /// @dev The key only exists once the group is created, so clients create it under a public hint, or none, and
+    /// seal the profile right after. An empty `cipherText` removes the profile.
+    /// @param groupId The target group id.
+    /// @param cipherText The profile encrypted client side with the key of the current epoch.
+    function setProfile(
+        uint256 groupId,
+        string calldata cipherText
+    ) external validGroup(groupId) atLeast(groupId, Role.Admin) {
+        require(!groups[groupId].direct, DirectConversation());
+
+        uint256 epoch = groups[groupId].keyEpoch;
+        profiles[groupId] = Profile({cipherText: cipherText, epoch: epoch});
+
+        emit ProfileChanged(groupId, cipherText, epoch);
+    }
+
+    /// @notice Store an anonymous message whose posting pass `ANONYMOUS_POSTS` has checked.
+    /// @dev Only callable by `ANONYMOUS_POSTS`. Members submit anonymous posts there, through a forwarder so the
+    /// transaction does not reveal them either.
+    /// @param groupId The target group id.
+    /// @param cipherText The message encrypted off-chain with the group key of `epoch`.
+    /// @param epoch The key epoch when the post was submitted.
+    function storeAnonymous(uint256 groupId, string calldata cipherText, uint256 epoch) external {
+        require(msg.sender == address(ANONYMOUS_POSTS), OnlyAnonymousPosts());
+
+        _storeMessage(address(0), groupId, cipherText, epoch, bytes32(0), 0);
     }
 
     /// @notice Post an encrypted message to a group.
     /// @param groupId The target group id.
     /// @param cipherText The message encrypted off-chain with the group's shared key.
     function postMessage(uint256 groupId, string calldata cipherText) external validGroup(groupId) {
-        require(groupMembers[groupId][msg.sender], "Join first");
-        require(bytes(cipherText).length > 0, "Message required");
+        _postMessage(msg.sender, groupId, cipherText, bytes32(0), 0);
+    }
 
-        groupMessages[groupId].push(
-            Message({sender: msg.sender, cipherText: cipherText, timestamp: block.timestamp})
-        );
-        groups[groupId].messageCount += 1;
+    /// @notice Post an encrypted message that references an encrypted attachment stored off chain.
+    /// @param groupId The target group id.
+    /// @param cipherText The caption encrypted off-chain with the group's shared key.
+    /// @param attachmentHash SHA-256 of the encrypted attachment blob.
+    /// @param attachmentSize Byte size of the encrypted attachment blob.
+    function postMessageWithAttachment(
+        uint256 groupId,
+        string calldata cipherText,
+        bytes32 attachmentHash,
+        uint256 attachmentSize
+    ) external validGroup(groupId) {
+        require(attachmentHash != bytes32(0), AttachmentHashRequired());
+        require(attachmentSize > 0, AttachmentSizeRequired());
+
+        _postMessage(msg.sender, groupId, cipherText, attachmentHash, attachmentSize);
+    }
+
+    /// @notice Post several messages in one transaction, to one group or fanned out across several.
+    /// @dev Each item is checked like a single post, so the whole call reverts if the sender cannot post to any
+    /// of the groups.
+    /// @param groupIds The target group of each message.
+    /// @param cipherTexts Each message encrypted with the key of its target group.
+    function postMessages(uint256[] calldata groupIds, string[] calldata cipherTexts) external {
+        require(groupIds.length == cipherTexts.length, LengthMismatch());
+        require(groupIds.length > 0, NothingToPost());
+
+        for (uint256 i = 0; i < groupIds.length; ++i) {
+            require(groupIds[i] < groups.length, InvalidGroup());
+            _postMessage(msg.sender, groupIds[i], cipherTexts[i], bytes32(0), 0);
+        }
+    }
+
+    /// @notice Post a message on behalf of the member who signed it, so they do not pay for gas.
+    /// @dev Any forwarder can submit the post. It is rejected once its deadline has passed or its nonce is used.
+    /// @param post The signed post.
+    function postMessageBySig(SignedPost calldata post) external {
+        _postSigned(post);
+    }
+
+    /// @notice Submit several signed posts in one transaction. The batch reverts as a whole if any post is invalid.
+    /// @param posts The signed posts, in the order they are posted.
+    function postMessagesBySig(SignedPost[] calldata posts) external {
+        for (uint256 i = 0; i < posts.length; ++i) {
+            _postSigned(posts[i]);
+        }
+    }
+
+    /// @notice Replace the content of one of your messages, re-encrypted under the current group key.
+    /// @param groupId The target group id.
+    /// @param index Index of the message to edit.
+    /// @param cipherText The new content encrypted with the group's current key.
+    function editMessage(uint256 groupId, uint256 index, string calldata cipherText) external validGroup(groupId) {
+        Message storage message = _ownMessage(groupId, index);
+        _requireCanPost(groupId, msg.sender);
+        require(bytes(cipherText).length > 0, MessageRequired());
+
+        uint256 epoch = groups[groupId].keyEpoch;
+        message.cipherText = cipherText;
+        message.epoch = epoch;
+        message.edited = true;
+
+        emit MessageEdited(groupId, index, cipherText, epoch);
+    }
+
+    /// @notice Tombstone one of your messages, clearing its content and attachment reference.
+    /// @param groupId The target group id.
+    /// @param index Index of the message to delete.
+    function deleteMessage(uint256 groupId, uint256 index) external validGroup(groupId) {
+        Message storage message = _ownMessage(groupId, index);
+
+        message.cipherText = "";
+        message.attachmentHash = bytes32(0);
+        message.attachmentSize = 0;
+        message.deleted = true;
+
+        emit MessageDeleted(groupId, index);
+    }
+
+    /// @notice Add a reaction to a message, or take it back if you already reacted with the same kind.
+    /// @param groupId The target group id.
+    /// @param index Index of the message to react to.
+    /// @param reaction Reaction kind, below `REACTION_KINDS`.
+    function react(uint256 groupId, uint256 index, uint8 reaction) external validGroup(groupId) {
+        require(!hiddenMembership[groupId], HiddenMembership());
+        require(groupMembers[groupId][msg.sender], JoinFirst());
+        require(index < groupMessages[groupId].length, InvalidMessageIndex());
+        require(!groupMessages[groupId][index].deleted, MessageWasDeleted());
+        require(reaction < REACTION_KINDS, InvalidReaction());
+
+        bool added = !reacted[groupId][index][msg.sender][reaction];
+        reacted[groupId][index][msg.sender][reaction] = added;
+        if (added) {
+            ++reactionCounts[groupId][index][reaction];
+        } else {
+            --reactionCounts[groupId][index][reaction];
+        }
+
+        emit ReactionChanged(groupId, index, msg.sender, reaction, added);
+    }
+
+    /// @notice Store the caller's read positions, encrypted client side so only the caller can read them back.
+    /// @param markers The encrypted read positions, replacing any stored before.
+    function setReadMarkers(bytes calldata markers) external {
+        readMarkers[msg.sender] = markers;
+    }
 
-        emit MessagePosted(groupId, msg.sender, cipherText, block.timestamp);
+    // The EIP-712 domain getter is named as the standard names it.
+    // solhint-disable func-name-mixedcase
+    /// @notice EIP-712 domain separator that signed posts are bound to.
+    /// @return The separator for this chain and contract.
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, NAME_HASH, VERSION_HASH, block.chainid, address(this)));
+    }
+    // solhint-enable func-name-mixedcase
+
+    /// @notice The encrypted read positions an account last stored, empty if it never stored any.
+    /// @param account The address to look up.
+    /// @return The sealed read positions.
+    function getReadMarkers(address account) external view returns (bytes memory) {
+        return readMarkers[account];
+    }
+
+    /// @notice Return the sealed profile of a group and the key epoch it was sealed with; empty when it has none.
+    /// @param groupId The target group id.
+    /// @return cipherText The sealed profile.
+    /// @return epoch The key epoch it was sealed with.
+    function getProfile(
+        uint256 groupId
+    ) external view validGroup(groupId) returns (string memory cipherText, uint256 epoch) {
+        Profile storage profile = profiles[groupId];
+        return (profile.cipherText, profile.epoch);
+    }
+
+    /// @notice Return whether a group accepts anonymous posts.
+    /// @param groupId The target group id.
+    /// @return Whether `postAnonymous` is accepted.
+    function allowsAnonymousPosts(uint256 groupId) external view validGroup(groupId) returns (bool) {
+        return anonymousPosting[groupId];
+    }
+
+    /// @notice Retrieve the encrypted posting pass of a group, decryptable by the members currently allowed to post.
+    /// @param groupId The target group id.
+    /// @return The pass, unset until anonymous posting is first enabled. `ANONYMOUS_POSTS` may use it as well.
+    function getPostingPass(uint256 groupId) external view validGroup(groupId) returns (euint256) {
+        return postingPasses[groupId];
+    }
+
+    /// @notice Return whether a group keeps its member list encrypted.
+    /// @param groupId The target group id.
+    /// @return Whether the group has hidden membership.
+    function hasHiddenMembers(uint256 groupId) external view validGroup(groupId) returns (bool) {
+        return hiddenMembership[groupId];
+    }
+
+    /// @notice Encrypted member addresses of a hidden-membership group, decryptable by members who claimed access.
+    /// @param groupId The target group id.
+    /// @return The roster slots, the zero address where a member left.
+    function getMemberSlots(uint256 groupId) external view validGroup(groupId) returns (eaddress[] memory) {
+        return memberSlots[groupId];
     }
 
     /// @notice Get metadata for a group.
+    /// @param groupId The target group id.
+    /// @return Name, creator, creation time, member and message counts, current key, key epoch, privacy, whether
+    /// it is a direct conversation, and owner.
     function getGroup(uint256 groupId)
         external
         view
         validGroup(groupId)
-        returns (string memory, address, uint256, uint256, uint256, euint32)
+        returns (string memory, address, uint256, uint256, uint256, euint256, uint256, Privacy, bool, address)
     {
         GroupMetadata storage group = groups[groupId];
-        return (group.name, group.creator, group.createdAt, group.memberCount, group.messageCount, group.secret);
+        return (
+            group.name,
+            group.creator,
+            group.createdAt,
+            group.memberCount,
+            group.messageCount,
+            group.secret,
+            group.keyEpoch,
+            group.privacy,
+            group.direct,
+            group.owner
+        );
+    }
+
+    /// @notice Return the admission rule of a group; its kind is `None` when anyone allowed by its privacy can join.
+    /// @param groupId The target group id.
+    /// @return The gate.
+    function getGate(uint256 groupId) external view validGroup(groupId) returns (Gate memory) {
+        return gates[groupId];
+    }
+
+    /// @notice Return whether an account passes the gate of a group, which every ungated group lets through.
+    /// @param groupId The target group id.
+    /// @param account The address to look up.
+    /// @return Whether `account` may join as far as the gate is concerned.
+    function meetsGate(uint256 groupId, address account) public view returns (bool) {
+        Gate storage gate = gates[groupId];
+        if (gate.kind == GateKind.None) return true;
+        if (gate.kind == GateKind.Group) return groupMembers[gate.threshold][account];
+        return !(ITokenBalance(gate.token).balanceOf(account) < gate.threshold);
     }
 
     /// @notice Return the total number of groups.
+    /// @return The number of groups, direct conversations included.
     function getGroupCount() external view returns (uint256) {
         return groups.length;
     }
 
     /// @notice Retrieve the encrypted key for a group.
-    function getGroupSecret(uint256 groupId) external view validGroup(groupId) returns (euint32) {
+    /// @param groupId The target group id.
+    /// @return The key of the current epoch.
+    function getGroupSecret(uint256 groupId) external view validGroup(groupId) returns (euint256) {
         return groups[groupId].secret;
     }
 
+    /// @notice Retrieve the encrypted key used during a given epoch.
+    /// @param groupId The target group id.
+    /// @param epoch The key epoch.
+    /// @return The key of that epoch.
+    function getGroupSecretAt(uint256 groupId, uint256 epoch) external view validGroup(groupId) returns (euint256) {
+        require(epoch < groupSecrets[groupId].length, InvalidEpoch());
+        return groupSecrets[groupId][epoch];
+    }
+
+    /// @notice Retrieve the encrypted keys of every epoch, indexed by epoch.
+    /// @param groupId The target group id.
+    /// @return The keys.
+    function getGroupSecrets(uint256 groupId) external view validGroup(groupId) returns (euint256[] memory) {
+        return groupSecrets[groupId];
+    }
+
+    /// @notice Look up the direct conversation between two addresses.
+    /// @param a One participant.
+    /// @param b The other participant.
+    /// @return exists Whether the pair has a conversation.
+    /// @return groupId The conversation's group id, zero when it does not exist.
+    function getDirectMessageId(address a, address b) external view returns (bool exists, uint256 groupId) {
+        uint256 stored = directGroupIds[_pairKey(a, b)];
+        return (stored != 0, stored == 0 ? 0 : stored - 1);
+    }
+
+    /// @notice List the direct conversations an address takes part in.
+    /// @param account The address to look up.
+    /// @return The conversations' group ids.
+    function listDirectMessages(address account) external view returns (uint256[] memory) {
+        return directLists[account];
+    }
+
+    /// @notice List the groups an address is a member of, direct conversations included, in no particular order.
+    /// @dev Hidden-membership groups are left out.
+    /// @param account The address to look up.
+    /// @return The group ids.
+    function listGroupsOf(address account) external view returns (uint256[] memory) {
+        return accountGroups[account];
+    }
+
     /// @notice List members for a group.
+    /// @param groupId The target group id.
+    /// @return The members, in no particular order.
     function listMembers(uint256 groupId) external view validGroup(groupId) returns (address[] memory) {
+        require(!hiddenMembership[groupId], HiddenMembership());
         return memberLists[groupId];
     }
 
     /// @notice Return whether an address has joined a group.
+    /// @dev Hidden-membership groups answer too: their state is public, so anyone could read the answer from storage.
+    /// @param groupId The target group id.
+    /// @param account The address to look up.
+    /// @return Whether `account` is a member.
     function isMember(uint256 groupId, address account) external view validGroup(groupId) returns (bool) {
         return groupMembers[groupId][account];
     }
 
+    /// @notice Return the role of an address in a group; `None` for non-members.
+    /// @param groupId The target group id.
+    /// @param account The address to look up.
+    /// @return The role.
+    function getRole(uint256 groupId, address account) external view validGroup(groupId) returns (Role) {
+        return memberRoles[groupId][account];
+    }
+
+    /// @notice Return the timestamp until which a member is muted; zero or in the past when they can post.
+    /// @param groupId The target group id.
+    /// @param account The address to look up.
+    /// @return The end of the mute.
+    function getMutedUntil(uint256 groupId, address account) external view validGroup(groupId) returns (uint256) {
+        return mutedUntil[groupId][account];
+    }
+
+    /// @notice List addresses waiting for an admin to approve their join request.
+    /// @param groupId The target group id.
+    /// @return The requesters, in no particular order.
+    function listJoinRequests(uint256 groupId) external view validGroup(groupId) returns (address[] memory) {
+        return requestLists[groupId];
+    }
+
+    /// @notice Return whether an address has a pending join request.
+    /// @param groupId The target group id.
+    /// @param account The address to look up.
+    /// @return Whether a request is pending.
+    function hasPendingRequest(uint256 groupId, address account) external view validGroup(groupId) returns (bool) {
+        return pendingRequests[groupId][account];
+    }
+
+    /// @notice Return whether an address holds an unused invitation.
+    /// @param groupId The target group id.
+    /// @param account The address to look up.
+    /// @return Whether an invitation is waiting.
+    function isInvited(uint256 groupId, address account) external view validGroup(groupId) returns (bool) {
+        return invitations[groupId][account];
+    }
+
     /// @notice Return the number of messages in a group.
+    /// @param groupId The target group id.
+    /// @return The message count, deleted messages included.
     function getMessageCount(uint256 groupId) external view validGroup(groupId) returns (uint256) {
         return groupMessages[groupId].length;
     }
 
+    /// @notice Get up to `limit` messages starting at index `offset`, oldest first.
+    /// @param groupId The target group id.
+    /// @param offset Index of the first message to return.
+    /// @param limit Maximum number of messages to return.
+    /// @return page The messages, oldest first.
+    function getMessages(
+        uint256 groupId,
+        uint256 offset,
+        uint256 limit
+    ) external view validGroup(groupId) returns (Message[] memory page) {
+        Message[] storage all = groupMessages[groupId];
+        uint256 count = offset < all.length ? all.length - offset : 0;
+        if (limit < count) count = limit;
+
+        page = new Message[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            page[i] = all[offset + i];
+        }
+    }
+
+    /// @notice Get up to `limit` messages newest first, skipping the `offset` most recent ones.
+    /// @param groupId The target group id.
+    /// @param offset Number of most recent messages to skip.
+    /// @param limit Maximum number of messages to return.
+    /// @return page The messages, newest first.
+    function getLatestMessages(
+        uint256 groupId,
+        uint256 offset,
+        uint256 limit
+    ) external view validGroup(groupId) returns (Message[] memory page) {
+        Message[] storage all = groupMessages[groupId];
+        uint256 count = offset < all.length ? all.length - offset : 0;
+        if (limit < count) count = limit;
+
+        page = new Message[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            page[i] = all[all.length - 1 - offset - i];
+        }
+    }
+
+    /// @notice Get the reaction counts of a message, indexed by reaction kind.
+    /// @param groupId The target group id.
+    /// @param index The message index.
+    /// @return The count of each reaction kind.
+    function getReactions(
+        uint256 groupId,
+        uint256 index
+    ) external view validGroup(groupId) returns (uint256[REACTION_KINDS] memory) {
+        require(index < groupMessages[groupId].length, InvalidMessageIndex());
+        return reactionCounts[groupId][index];
+    }
+
+    /// @notice Return whether an account currently has a given reaction on a message.
+    /// @param groupId The target group id.
+    /// @param index The message index.
+    /// @param account The address to look up.
+    /// @param reaction The reaction kind.
+    /// @return Whether the reaction is set.
+    function hasReacted(
+        uint256 groupId,
+        uint256 index,
+        address account,
+        uint8 reaction
+    ) external view validGroup(groupId) returns (bool) {
+        return reacted[groupId][index][account][reaction];
+    }
+
     /// @notice Get a single encrypted message by index.
+    /// @param groupId The target group id.
+    /// @param index The message index.
+    /// @return The message.
     function getMessage(uint256 groupId, uint256 index)
         external
         view
         validGroup(groupId)
         returns (Message memory)
     {
-        require(index < groupMessages[groupId].length, "Invalid message index");
+        require(index < groupMessages[groupId].length, InvalidMessageIndex());
         return groupMessages[groupId][index];
     }
+
+    function _requireValidGroup(uint256 groupId) private view {
+        require(groupId < groups.length, InvalidGroup());
+    }
+
+    function _requireRole(uint256 groupId, Role role) private view {
+        if (memberRoles[groupId][msg.sender] < role) revert InsufficientRole();
+    }
+
+    function _createGroup(
+        string memory name,
+        Privacy privacy,
+        bool direct,
+        bool hidden
+    ) private returns (uint256 groupId, euint256 secret) {
+        // Join requests are listed for the admins to review, so hidden-membership groups cannot take them.
+        require(!hidden || privacy != Privacy.Approval, HiddenMembership());
+        secret = FHE.randEuint256();
+
+        groupId = groups.length;
+        groups.push(
+            GroupMetadata({
+                name: name,
+                creator: msg.sender,
+                owner: msg.sender,
+                privacy: privacy,
+                secret: secret,
+                keyEpoch: 0,
+                createdAt: block.timestamp,
+                memberCount: 1,
+                messageCount: 0,
+                direct: direct
+            })
+        );
+
+        groupMembers[groupId][msg.sender] = true;
+        memberRoles[groupId][msg.sender] = Role.Owner;
+        groupSecrets[groupId].push(secret);
+        FHE.allowThis(secret);
+        if (hidden) {
+            hiddenMembership[groupId] = true;
+            // Regular posts name their sender, so anonymous posting starts enabled.
+            anonymousPosting[groupId] = true;
+            _pushSlot(groupId, msg.sender);
+            _rotatePass(groupId);
+        } else {
+            memberLists[groupId].push(msg.sender);
+            _indexGroup(msg.sender, groupId);
+        }
+        _grantAccess(groupId, msg.sender);
+
+        emit GroupCreated(groupId, msg.sender, name, secret, privacy, block.timestamp);
+        if (hidden) {
+            emit MembershipHidden(groupId);
+            emit AnonymousPostingChanged(groupId, true);
+        }
+    }
+
+    function _addMember(uint256 groupId, address member) private {
+        groupMembers[groupId][member] = true;
+        memberRoles[groupId][member] = Role.Member;
+        if (hiddenMembership[groupId]) {
+            uint256[] storage free = freeSlots[groupId];
+            if (free.length > 0) {
+                uint256 index = free[free.length - 1];
+                free.pop();
+                memberIndexes[groupId][member] = index;
+                memberSlots[groupId][index] = _encryptAddress(member);
+            } else {
+                memberIndexes[groupId][member] = memberSlots[groupId].length;
+                _pushSlot(groupId, member);
+            }
+        } else {
+            memberIndexes[groupId][member] = memberLists[groupId].length;
+            memberLists[groupId].push(member);
+            _indexGroup(member, groupId);
+        }
+        ++groups[groupId].memberCount;
+        _grantAccess(groupId, member);
+
+        emit MemberJoined(groupId, _shown(groupId, member));
+    }
+
+    // Keys of earlier epochs are shared too so members can read the room history. The posting pass is shared with
+    // members allowed to post. Roster slots are left to `claimMemberSlots`, which pages through them.
+    function _grantAccess(uint256 groupId, address member) private {
+        euint256[] storage secrets = groupSecrets[groupId];
+        for (uint256 i = 0; i < secrets.length; ++i) {
+            FHE.allow(secrets[i], member);
+        }
+        _allowPass(groupId, member);
+    }
+
+    function _allowPass(uint256 groupId, address account) private {
+        euint256 pass = postingPasses[groupId];
+        if (FHE.isInitialized(pass) && _canPost(groupId, account)) FHE.allow(pass, account);
+    }
+
+    // Draws a new posting pass. The caller gets it now if they can post; other members claim it with `claimAccess`,
+    // so the work done here does not grow with the group.
+    function _rotatePass(uint256 groupId) private {
+        if (!anonymousPosting[groupId]) return;
+
+        euint256 pass = FHE.randEuint256();
+        FHE.allowThis(pass);
+        FHE.allow(pass, address(ANONYMOUS_POSTS));
+        postingPasses[groupId] = pass;
+        _allowPass(groupId, msg.sender);
+    }
+
+    function _pushSlot(uint256 groupId, address member) private {
+        memberSlots[groupId].push(_encryptAddress(member));
+    }
+
+    // A trivially encrypted value has a handle anyone can recompute from the clear value, which would let outsiders
+    // match slots against guessed addresses. Selecting between two copies on a random condition keeps the value
+    // under a handle nobody can predict.
+    function _encryptAddress(address account) private returns (eaddress slot) {
+        eaddress clear = FHE.asEaddress(account);
+        slot = FHE.select(FHE.randEbool(), clear, clear);
+        FHE.allowThis(slot);
+    }
+
+    // The address membership events carry: the zero address in hidden-membership groups.
+    function _shown(uint256 groupId, address account) private view returns (address) {
+        return hiddenMembership[groupId] ? address(0) : account;
+    }
+
+    function _removeRequest(uint256 groupId, address account) private {
+        address[] storage requests = requestLists[groupId];
+        uint256 index = requestIndexes[groupId][account];
+        address last = requests[requests.length - 1];
+
+        requests[index] = last;
+        requestIndexes[groupId][last] = index;
+        requests.pop();
+        delete requestIndexes[groupId][account];
+        pendingRequests[groupId][account] = false;
+    }
+
+    function _indexGroup(address account, uint256 groupId) private {
+        accountGroupIndexes[account][groupId] = accountGroups[account].length;
+        accountGroups[account].push(groupId);
+    }
+
+    function _unindexGroup(address account, uint256 groupId) private {
+        uint256[] storage ids = accountGroups[account];
+        uint256 index = accountGroupIndexes[account][groupId];
+        uint256 last = ids[ids.length - 1];
+
+        ids[index] = last;
+        accountGroupIndexes[account][last] = index;
+        ids.pop();
+        delete accountGroupIndexes[account][groupId];
+    }
+
+    function _removeMember(uint256 groupId, address member) private {
+        uint256 index = memberIndexes[groupId][member];
+        if (hiddenMembership[groupId]) {
+            // Slots are never moved: that would need the address of the member in the last slot. The freed slot
+            // goes to the next member to join, so leaving and rejoining does not grow the roster.
+            memberSlots[groupId][index] = _encryptAddress(address(0));
+            freeSlots[groupId].push(index);
+        } else {
+            address[] storage members = memberLists[groupId];
+            address last = members[members.length - 1];
+            members[index] = last;
+            memberIndexes[groupId][last] = index;
+            members.pop();
+            _unindexGroup(member, groupId);
+        }
+        delete memberIndexes[groupId][member];
+        groupMembers[groupId][member] = false;
+        // The role is cleared but a mute is kept, so leaving and rejoining an open group does not lift it.
+        delete memberRoles[groupId][member];
+        --groups[groupId].memberCount;
+        _rotatePass(groupId);
+    }
+
+    function _postMessage(
+        address sender,
+        uint256 groupId,
+        string calldata cipherText,
+        bytes32 attachmentHash,
+        uint256 attachmentSize
+    ) private {
+        _requireCanPost(groupId, sender);
+        _storeMessage(sender, groupId, cipherText, groups[groupId].keyEpoch, attachmentHash, attachmentSize);
+    }
+
+    // Anonymous messages are stored with a zero sender, so nobody can edit or delete them, and with the epoch they
+    // were submitted at.
+    function _storeMessage(
+        address sender,
+        uint256 groupId,
+        string calldata cipherText,
+        uint256 epoch,
+        bytes32 attachmentHash,
+        uint256 attachmentSize
+    ) private {
+        require(bytes(cipherText).length > 0, MessageRequired());
+
+        groupMessages[groupId].push(
+            Message({
+                sender: sender,
+                cipherText: cipherText,
+                timestamp: block.timestamp,
+                epoch: epoch,
+                attachmentHash: attachmentHash,
+                attachmentSize: attachmentSize,
+                edited: false,
+                deleted: false
+            })
+        );
+        ++groups[groupId].messageCount;
+
+        emit MessagePosted(groupId, sender, cipherText, block.timestamp, epoch, attachmentHash, attachmentSize);
+    }
+
+    function _postSigned(SignedPost calldata post) private {
+        require(post.groupId < groups.length, InvalidGroup());
+        if (block.timestamp > post.deadline) revert SignatureExpired();
+        require(post.nonce == nonces[post.sender], InvalidNonce());
+        require((post.attachmentHash == bytes32(0)) == (post.attachmentSize == 0), InvalidAttachment());
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                POST_TYPEHASH,
+                post.sender,
+                post.groupId,
+                keccak256(bytes(post.cipherText)),
+                post.attachmentHash,
+                post.attachmentSize,
+                post.nonce,
+                post.deadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        require(_recover(digest, post.signature) == post.sender, InvalidSignature());
+
+        ++nonces[post.sender];
+        _postMessage(post.sender, post.groupId, post.cipherText, post.attachmentHash, post.attachmentSize);
+    }
+
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address signer) {
+        require(signature.length == 65, InvalidSignature());
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > MAX_SIGNATURE_S || (v != 27 && v != 28)) revert InvalidSignature();
+
+        signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), InvalidSignature());
+    }
+
+    function _ownMessage(uint256 groupId, uint256 index) private view returns (Message storage message) {
+        require(index < groupMessages[groupId].length, InvalidMessageIndex());
+        message = groupMessages[groupId][index];
+        require(message.sender == msg.sender, OnlySender());
+        require(!message.deleted, MessageWasDeleted());
+    }
+
+    // Posts that name their sender would list the members of a hidden-membership group.
+    function _requireCanPost(uint256 groupId, address sender) private view {
+        require(!hiddenMembership[groupId], HiddenMembership());
+        require(groupMembers[groupId][sender], JoinFirst());
+        if (memberRoles[groupId][sender] < Role.Member) revert ReadOnlyMember();
+        if (mutedUntil[groupId][sender] > block.timestamp) revert Muted();
+    }
+
+    function _canPost(uint256 groupId, address account) private view returns (bool) {
+        return
+            groupMembers[groupId][account] &&
+            !(memberRoles[groupId][account] < Role.Member) &&
+            !(mutedUntil[groupId][account] > block.timestamp);
+    }
+
+    function _requireOutranks(uint256 groupId, Role role) private view {
+        require(memberRoles[groupId][msg.sender] > role, InsufficientRole());
+    }
+
+    function _pairKey(address a, address b) private pure returns (bytes32) {
+        return a < b ? keccak256(abi.encodePacked(a, b)) : keccak256(abi.encodePacked(b, a));
+    }
+
+    function _rotateKey(uint256 groupId) private returns (uint256 epoch) {
+        euint256 secret = FHE.randEuint256();
+        FHE.allowThis(secret);
+
+        address[] storage members = memberLists[groupId];
+        for (uint256 i = 0; i < members.length; ++i) {
+            FHE.allow(secret, members[i]);
+        }
+        // Hidden-membership groups have no list: the admin rotating gets the key now, other members claim it.
+        if (hiddenMembership[groupId]) {
+            FHE.allow(secret, msg.sender);
+        }
+
+        groupSecrets[groupId].push(secret);
+        epoch = groupSecrets[groupId].length - 1;
+        groups[groupId].secret = secret;
+        groups[groupId].keyEpoch = epoch;
+
+        emit KeyRotated(groupId, epoch, secret);
+    }
 }
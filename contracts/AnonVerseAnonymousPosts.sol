@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {AnonVerse} from "./AnonVerse.sol";
+
+/// @title Anonymous posts for AnonVerse groups
+/// @author AnonVerse
+/// @notice Accepts messages that name no sender, from anyone who proves they hold the group's posting pass: a random
+/// value AnonVerse shares only with the members allowed to post, and replaces when someone loses that right.
+/// @dev The pass is compared under encryption, so the result is only known once the KMS has decrypted it. Posts wait
+/// here until then and `publishAnonymous` stores those that matched in AnonVerse. Kept apart from AnonVerse, which is
+/// close to the contract size limit; AnonVerse deploys it.
+contract AnonVerseAnonymousPosts is ZamaEthereumConfig {
+    /// @notice The AnonVerse deployment that stores the posts.
+    AnonVerse public immutable ANON_VERSE;
+
+    /// @notice A submitted post waiting for its pass check to be decrypted. Only the message hash is kept; the
+    /// message itself is passed again when the post is published.
+    struct PendingPost {
+        uint256 groupId;
+        uint256 epoch;
+        bytes32 contentHash;
+        ebool valid;
+    }
+
+    PendingPost[] private pendingPosts;
+    // Encrypted passes already submitted, so whoever forwards one cannot attach it to a second message.
+    mapping(bytes32 handle => bool used) private usedPasses;
+
+    /// @notice An anonymous post is waiting for the KMS to decrypt whether its pass matched.
+    /// @param postId The pending post, to pass to `publishAnonymous`.
+    /// @param groupId The group it was posted to.
+    /// @param cipherText The message, to pass to `publishAnonymous` along with the post.
+    /// @param valid The publicly decryptable result of the pass check.
+    event AnonymousPostSubmitted(uint256 indexed postId, uint256 indexed groupId, string cipherText, ebool valid);
+    /// @notice A pending post was dropped because its pass did not match or its group stopped taking anonymous posts.
+    /// @param postId The dropped post.
+    event AnonymousPostRejected(uint256 indexed postId);
+
+    error AnonymousPostsDisabled();
+    error MessageRequired();
+    error PassAlreadyUsed();
+    error InvalidPost();
+
+    /// @notice Bind the posts to an AnonVerse deployment.
+    /// @param anonVerse The AnonVerse contract that shares posting passes with this one and stores the posts.
+    constructor(AnonVerse anonVerse) {
+        ANON_VERSE = anonVerse;
+    }
+
+    /// @notice Submit an encrypted message without recording who sent it. It is stored once its pass is checked.
+    /// @dev Submit through a forwarder, with the pass encrypted for the forwarder's address, so the transaction does
+    /// not reveal the poster.
+    /// @param groupId The target group id, which must allow anonymous posts.
+    /// @param cipherText The message encrypted off-chain with the group's current key.
+    /// @param pass The group's posting pass, encrypted for this contract and the caller.
+    /// @param inputProof Proof that goes with `pass`.
+    /// @return postId The pending post.
+    function postAnonymous(
+        uint256 groupId,
+        string calldata cipherText,
+        externalEuint256 pass,
+        bytes calldata inputProof
+    ) external returns (uint256 postId) {
+        require(ANON_VERSE.allowsAnonymousPosts(groupId), AnonymousPostsDisabled());
+        require(bytes(cipherText).length > 0, MessageRequired());
+        bytes32 handle = externalEuint256.unwrap(pass);
+        require(!usedPasses[handle], PassAlreadyUsed());
+        usedPasses[handle] = true;
+
+        ebool valid = FHE.eq(FHE.fromExternal(pass, inputProof), ANON_VERSE.getPostingPass(groupId));
+        FHE.allowThis(valid);
+        FHE.makePubliclyDecryptable(valid);
+
+        (, , , , , , uint256 epoch, , , ) = ANON_VERSE.getGroup(groupId);
+        postId = pendingPosts.length;
+        pendingPosts.push(
+            PendingPost({groupId: groupId, epoch: epoch, contentHash: keccak256(bytes(cipherText)), valid: valid})
+        );
+
+        emit AnonymousPostSubmitted(postId, groupId, cipherText, valid);
+    }
+
+    /// @notice Store a pending post in AnonVerse if its pass matched, or drop it, as the KMS decrypted the check.
+    /// Anyone may submit the decryption. Posts to a group that has turned anonymous posting off since they were
+    /// submitted are dropped too.
+    /// @param postId The pending post.
+    /// @param cipherText The message submitted with the post.
+    /// @param clearValid The result of the pass check, ABI-encoded as one 32-byte word.
+    /// @param decryptionProof The KMS signatures over the check's handle and `clearValid`.
+    function publishAnonymous(
+        uint256 postId,
+        string calldata cipherText,
+        bytes calldata clearValid,
+        bytes calldata decryptionProof
+    ) external {
+        require(postId < pendingPosts.length, InvalidPost());
+        PendingPost memory post = pendingPosts[postId];
+        require(post.contentHash == keccak256(bytes(cipherText)), InvalidPost());
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(post.valid);
+        FHE.checkSignatures(handles, clearValid, decryptionProof);
+        delete pendingPosts[postId];
+
+        if (abi.decode(clearValid, (bool)) && ANON_VERSE.allowsAnonymousPosts(post.groupId)) {
+            ANON_VERSE.storeAnonymous(post.groupId, cipherText, post.epoch);
+        } else {
+            emit AnonymousPostRejected(postId);
+        }
+    }
+
+    /// @notice Get a post waiting to be published; its content hash is zero once published or dropped.
+    /// @param postId The pending post.
+    /// @return The post.
+    function getPendingPost(uint256 postId) external view returns (PendingPost memory) {
+        require(postId < pendingPosts.length, InvalidPost());
+        return pendingPosts[postId];
+    }
+}
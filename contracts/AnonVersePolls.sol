@@ -0,0 +1,261 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {AnonVerse} from "./AnonVerse.sol";
+
+/// @title Encrypted polls for AnonVerse groups
+/// @author AnonVerse
+/// @notice Members vote with an encrypted option index that is added to encrypted per-option tallies, so no one
+/// learns a single vote. The tallies become publicly decryptable once the poll's deadline has passed.
+/// @dev Kept apart from AnonVerse, which is close to the contract size limit; group roles are read from it.
+contract AnonVersePolls is ZamaEthereumConfig {
+    /// @notice Largest number of options a poll may offer.
+    uint8 public constant MAX_OPTIONS = 8;
+
+    /// @notice The AnonVerse deployment whose groups the polls belong to.
+    AnonVerse public immutable ANON_VERSE;
+
+    /// @notice A poll of a group. Its question and options are sealed with the group key of `epoch` by the
+    /// creator's client; the contract only knows how many options there are.
+    struct Poll {
+        uint256 groupId;
+        string cipherText;
+        uint256 epoch;
+        uint256 createdAt;
+        uint256 deadline;
+        uint256 voterCount;
+        address creator;
+        uint8 optionCount;
+        // Set once the tallies are publicly decryptable, and once their clear values are published.
+        bool closed;
+        bool revealed;
+    }
+
+    Poll[] private polls;
+    // Encrypted vote count of each option, only readable by this contract until the poll is closed.
+    mapping(uint256 pollId => euint32[] counts) private tallies;
+    mapping(uint256 pollId => uint32[] counts) private results;
+    mapping(uint256 pollId => mapping(address account => bool hasVoted)) private voted;
+    mapping(uint256 groupId => uint256[] pollIds) private groupPolls;
+
+    // The option count and deadline are read along with the event, never filtered on.
+    // solhint-disable gas-indexed-events
+    /// @notice A member opened a poll.
+    /// @param pollId The new poll's id.
+    /// @param groupId The group whose members vote.
+    /// @param creator The member who asked.
+    /// @param optionCount Number of options.
+    /// @param deadline Timestamp after which votes are refused.
+    event PollCreated(
+        uint256 indexed pollId,
+        uint256 indexed groupId,
+        address indexed creator,
+        uint8 optionCount,
+        uint256 deadline
+    );
+    // solhint-enable gas-indexed-events
+    /// @notice Someone voted. The voter is left out, so logs do not list who took part in which poll.
+    /// @param pollId The poll voted in.
+    event Voted(uint256 indexed pollId);
+    /// @notice A poll ended and its tallies became publicly decryptable.
+    /// @param pollId The closed poll.
+    /// @param tallies The encrypted tallies in option order.
+    event PollClosed(uint256 indexed pollId, euint32[] tallies);
+    /// @notice The clear tallies of a poll were published.
+    /// @param pollId The revealed poll.
+    /// @param results The vote count of each option.
+    event PollRevealed(uint256 indexed pollId, uint32[] results);
+
+    error InvalidPoll();
+    error InsufficientRole();
+    error NotAMember();
+    error QuestionRequired();
+    error InvalidOptionCount();
+    error DeadlinePassed();
+    error DirectConversation();
+    error HiddenMembership();
+    error PollEnded();
+    error AlreadyVoted();
+    error PollStillOpen();
+    error AlreadyClosed();
+    error PollNotClosed();
+    error AlreadyRevealed();
+    error InvalidTallies();
+
+    modifier validPoll(uint256 pollId) {
+        require(pollId < polls.length, InvalidPoll());
+        _;
+    }
+
+    /// @notice Bind the polls to an AnonVerse deployment.
+    /// @param anonVerse The AnonVerse contract whose groups and roles the polls use.
+    constructor(AnonVerse anonVerse) {
+        ANON_VERSE = anonVerse;
+    }
+
+    /// @notice Open a poll in a group. Read-only members may vote but not ask.
+    /// @dev Polls name their creator and votes come from the voters' accounts, so groups that hide their members
+    /// have none.
+    /// @param groupId The group whose members vote.
+    /// @param cipherText The question and options, encrypted client side with the group's current key.
+    /// @param optionCount Number of options, between 2 and `MAX_OPTIONS`.
+    /// @param deadline Timestamp after which votes are refused and the result can be revealed.
+    /// @return pollId The new poll's id.
+    function createPoll(
+        uint256 groupId,
+        string calldata cipherText,
+        uint8 optionCount,
+        uint256 deadline
+    ) external returns (uint256 pollId) {
+        if (ANON_VERSE.getRole(groupId, msg.sender) < AnonVerse.Role.Member) revert InsufficientRole();
+        require(bytes(cipherText).length > 0, QuestionRequired());
+        if (optionCount < 2 || optionCount > MAX_OPTIONS) revert InvalidOptionCount();
+        require(deadline > block.timestamp, DeadlinePassed());
+
+        (, , , , , , uint256 epoch, , bool direct, ) = ANON_VERSE.getGroup(groupId);
+        require(!direct, DirectConversation());
+        require(!ANON_VERSE.hasHiddenMembers(groupId), HiddenMembership());
+
+        pollId = polls.length;
+        polls.push(
+            Poll({
+                groupId: groupId,
+                creator: msg.sender,
+                cipherText: cipherText,
+                epoch: epoch,
+                optionCount: optionCount,
+                createdAt: block.timestamp,
+                deadline: deadline,
+                voterCount: 0,
+                closed: false,
+                revealed: false
+            })
+        );
+        for (uint8 option = 0; option < optionCount; ++option) {
+            euint32 tally = FHE.asEuint32(0);
+            FHE.allowThis(tally);
+            tallies[pollId].push(tally);
+        }
+        groupPolls[groupId].push(pollId);
+
+        emit PollCreated(pollId, groupId, msg.sender, optionCount, deadline);
+    }
+
+    /// @notice Cast the caller's single vote for the option whose index is encrypted in `encryptedOption`.
+    /// @dev Every tally gets an encrypted 1 or 0 added, so the transaction does not tell which option was picked.
+    /// An index outside the options adds nothing anywhere and counts as a blank vote. Who voted is public.
+    /// @param pollId The poll to vote in.
+    /// @param encryptedOption The option index, encrypted for this contract and the caller.
+    /// @param inputProof Proof that goes with `encryptedOption`.
+    function vote(
+        uint256 pollId,
+        externalEuint32 encryptedOption,
+        bytes calldata inputProof
+    ) external validPoll(pollId) {
+        Poll storage poll = polls[pollId];
+        require(block.timestamp < poll.deadline, PollEnded());
+        require(ANON_VERSE.getRole(poll.groupId, msg.sender) != AnonVerse.Role.None, NotAMember());
+        require(!voted[pollId][msg.sender], AlreadyVoted());
+
+        euint32 option = FHE.fromExternal(encryptedOption, inputProof);
+        euint32[] storage counts = tallies[pollId];
+        for (uint8 index = 0; index < counts.length; ++index) {
+            euint32 updated = FHE.add(counts[index], FHE.asEuint32(FHE.eq(option, index)));
+            FHE.allowThis(updated);
+            counts[index] = updated;
+        }
+        voted[pollId][msg.sender] = true;
+        ++poll.voterCount;
+
+        emit Voted(pollId);
+    }
+
+    /// @notice Make the tallies of an ended poll publicly decryptable. Anyone may call this after the deadline.
+    /// @param pollId The poll to close.
+    function closePoll(uint256 pollId) external validPoll(pollId) {
+        Poll storage poll = polls[pollId];
+        if (block.timestamp < poll.deadline) revert PollStillOpen();
+        require(!poll.closed, AlreadyClosed());
+
+        euint32[] storage counts = tallies[pollId];
+        for (uint8 index = 0; index < counts.length; ++index) {
+            FHE.makePubliclyDecryptable(counts[index]);
+        }
+        poll.closed = true;
+
+        emit PollClosed(pollId, counts);
+    }
+
+    /// @notice Record the clear tallies of a closed poll, as decrypted by the KMS. Anyone may submit them.
+    /// @param pollId The closed poll.
+    /// @param clearTallies The tallies in option order, each ABI-encoded as one 32-byte word.
+    /// @param decryptionProof The KMS signatures over the tallies' handles and `clearTallies`.
+    function publishResult(
+        uint256 pollId,
+        bytes calldata clearTallies,
+        bytes calldata decryptionProof
+    ) external validPoll(pollId) {
+        Poll storage poll = polls[pollId];
+        require(poll.closed, PollNotClosed());
+        require(!poll.revealed, AlreadyRevealed());
+
+        euint32[] storage counts = tallies[pollId];
+        require(clearTallies.length == counts.length * 32, InvalidTallies());
+        bytes32[] memory handles = new bytes32[](counts.length);
+        for (uint8 index = 0; index < counts.length; ++index) {
+            handles[index] = FHE.toBytes32(counts[index]);
+        }
+        FHE.checkSignatures(handles, clearTallies, decryptionProof);
+
+        for (uint8 index = 0; index < counts.length; ++index) {
+            results[pollId].push(uint32(uint256(bytes32(clearTallies[index * 32:(index + 1) * 32]))));
+        }
+        poll.revealed = true;
+
+        emit PollRevealed(pollId, results[pollId]);
+    }
+
+    /// @notice Get a poll's metadata.
+    /// @param pollId The poll.
+    /// @return The poll.
+    function getPoll(uint256 pollId) external view validPoll(pollId) returns (Poll memory) {
+        return polls[pollId];
+    }
+
+    /// @notice Return the total number of polls across all groups.
+    /// @return The number of polls.
+    function getPollCount() external view returns (uint256) {
+        return polls.length;
+    }
+
+    /// @notice List the ids of a group's polls, oldest first.
+    /// @param groupId The group.
+    /// @return The poll ids.
+    function listPolls(uint256 groupId) external view returns (uint256[] memory) {
+        return groupPolls[groupId];
+    }
+
+    /// @notice Encrypted tallies of a poll in option order; publicly decryptable once the poll is closed.
+    /// @param pollId The poll.
+    /// @return The encrypted tallies.
+    function getTallies(uint256 pollId) external view validPoll(pollId) returns (euint32[] memory) {
+        return tallies[pollId];
+    }
+
+    /// @notice Clear tallies of a poll in option order; empty until they are published.
+    /// @param pollId The poll.
+    /// @return The vote count of each option.
+    function getResults(uint256 pollId) external view validPoll(pollId) returns (uint32[] memory) {
+        return results[pollId];
+    }
+
+    /// @notice Return whether an address has voted in a poll.
+    /// @param pollId The poll.
+    /// @param account The address to look up.
+    /// @return Whether `account` voted.
+    function hasVoted(uint256 pollId, address account) external view validPoll(pollId) returns (bool) {
+        return voted[pollId][account];
+    }
+}
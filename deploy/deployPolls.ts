@@ -0,0 +1,20 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const anonVerse = await get("AnonVerse");
+  const deployedPolls = await deploy("AnonVersePolls", {
+    from: deployer,
+    args: [anonVerse.address],
+    log: true,
+  });
+
+  console.log(`AnonVersePolls contract: `, deployedPolls.address);
+};
+export default func;
+func.id = "deploy_anonverse_polls"; // id required to prevent reexecution
+func.tags = ["AnonVersePolls"];
+func.dependencies = ["AnonVerse"];
@@ -11,6 +11,9 @@ import "solidity-coverage";
 
 import "./tasks/accounts";
 import "./tasks/anonverse";
+import "./tasks/blobs";
+import "./tasks/frontend";
+import "./tasks/relayer";
 
 dotenv.config();
 
@@ -67,7 +70,10 @@ const config: HardhatUserConfig = {
       // https://hardhat.org/hardhat-network/#solidity-optimizer-support
       optimizer: {
         enabled: true,
-        runs: 800,
+        // Down from the template's 800 runs, which favour cheaper calls over smaller bytecode. At 800, AnonVerse
+        // compiles to within a few hundred bytes of the 24,576-byte contract size limit (EIP-170), too close to
+        // take another change; 200 leaves it about 700 bytes of room, for slightly more gas per call.
+        runs: 200,
       },
       evmVersion: "cancun",
     },
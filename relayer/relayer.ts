@@ -0,0 +1,181 @@
+import { verifyTypedData, type Signer } from "ethers";
+import type { AnonymousPostsClient } from "../sdk";
+import type { AnonVerse } from "../types";
+import { POST_TYPES, type AnonymousPost, type PostDomain, type SignedPost } from "../shared/metaTx";
+
+export type RelayerOptions = {
+  /** Posts sent in one transaction at most; a full queue is flushed straight away. */
+  maxBatchSize?: number;
+  /** How long a post waits for others to share its transaction, in milliseconds. */
+  flushInterval?: number;
+  /**
+   * Client of the deployment's anonymous posts contract, connected to the same signer and able to publicly decrypt.
+   * Anonymous posts are refused without it.
+   */
+  anonymousPosts?: AnonymousPostsClient;
+};
+
+export type Relayer = {
+  /** The account paying for the relayer's transactions, which anonymous posts encrypt their posting pass for. */
+  account: () => Promise<string>;
+  nextNonce: (sender: string) => Promise<number>;
+  /** Queue a signed post and resolve with the hash of the transaction that included it. */
+  submit: (post: SignedPost) => Promise<string>;
+  /**
+   * Submit an anonymous post, then publish it once its pass check is decrypted. Resolves with the hash of the
+   * publishing transaction, and rejects when the pass did not match.
+   */
+  submitAnonymous: (post: AnonymousPost) => Promise<string>;
+  /** Send everything queued now instead of waiting for the flush interval. */
+  flush: () => Promise<void>;
+  stop: () => void;
+};
+
+type Pending = { post: SignedPost; resolve: (txHash: string) => void; reject: (error: Error) => void };
+
+// The contract reverts with custom errors, which ethers decodes into `revert` from the contract's ABI.
+const reasonOf = (error: unknown) => {
+  const { revert, reason, shortMessage, message } = error as {
+    revert?: { name: string };
+    reason?: string;
+    shortMessage?: string;
+    message?: string;
+  };
+  return new Error(revert?.name ?? reason ?? shortMessage ?? message ?? "Post rejected");
+};
+
+/**
+ * Batch signed posts into `postMessagesBySig` transactions paid for by the contract's runner.
+ * When a batch would revert, its posts are retried one by one so a single bad post only fails itself and the later
+ * posts of its sender, whose nonces no longer follow on from the chain. Anonymous posts are sent one at a time.
+ */
+export function createRelayer(contract: AnonVerse, domain: PostDomain, options: RelayerOptions = {}): Relayer {
+  const maxBatchSize = options.maxBatchSize ?? 20;
+  const flushInterval = options.flushInterval ?? 2_000;
+  let queue: Pending[] = [];
+  // Posts taken off the queue whose transaction is not mined yet; they still count towards the next nonce.
+  let inFlight: Pending[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let sending = Promise.resolve();
+
+  const sameSender = (sender: string) => (pending: Pending) =>
+    pending.post.sender.toLowerCase() === sender.toLowerCase();
+
+  const done = (pending: Pending, outcome: { txHash: string } | { error: Error }) => {
+    inFlight = inFlight.filter((other) => other !== pending);
+    if ("txHash" in outcome) pending.resolve(outcome.txHash);
+    else pending.reject(outcome.error);
+  };
+
+  // Once a post fails, its sender's later posts carry nonces the chain no longer expects. They are turned away too,
+  // queued or already taken into a batch, so the sender's next nonce is read from the chain again.
+  const dropSender = (sender: string) => {
+    const dropped = [...inFlight, ...queue].filter(sameSender(sender));
+    queue = queue.filter((pending) => !dropped.includes(pending));
+    dropped.forEach((pending) => done(pending, { error: new Error("An earlier post of this sender failed") }));
+  };
+
+  const settle = async (batch: Pending[]) => {
+    const live = batch.filter((pending) => inFlight.includes(pending));
+    if (!live.length) return;
+    const posts = live.map(({ post }) => post);
+    try {
+      await contract.postMessagesBySig.staticCall(posts);
+    } catch {
+      for (const pending of live) {
+        if (!inFlight.includes(pending)) continue;
+        if (!(await settleOne(pending))) dropSender(pending.post.sender);
+      }
+      return;
+    }
+    try {
+      const tx = await contract.postMessagesBySig(posts);
+      await tx.wait();
+      live.forEach((pending) => done(pending, { txHash: tx.hash }));
+    } catch (error) {
+      live.forEach((pending) => done(pending, { error: reasonOf(error) }));
+      posts.forEach(({ sender }) => dropSender(sender));
+    }
+  };
+
+  const settleOne = async (pending: Pending) => {
+    try {
+      await contract.postMessageBySig.staticCall(pending.post);
+      const tx = await contract.postMessageBySig(pending.post);
+      await tx.wait();
+      done(pending, { txHash: tx.hash });
+      return true;
+    } catch (error) {
+      done(pending, { error: reasonOf(error) });
+      return false;
+    }
+  };
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const batch = queue.splice(0, maxBatchSize);
+    if (!batch.length) return sending;
+    if (queue.length) timer = setTimeout(flush, 0);
+    inFlight = [...inFlight, ...batch];
+    // Batches go out one at a time so the relayer's own account nonce never races.
+    sending = sending.then(() => settle(batch));
+    return sending;
+  };
+
+  const postAnonymously = async ({ groupId, cipherText, pass, inputProof }: AnonymousPost) => {
+    const { anonymousPosts } = options;
+    if (!anonymousPosts) throw new Error("This relayer does not forward anonymous posts");
+    try {
+      const submitted = await (
+        await anonymousPosts.postAnonymous(groupId, cipherText, { handle: pass, inputProof })
+      ).wait();
+      const tx = await anonymousPosts.publishAnonymous(anonymousPosts.submittedPostId(submitted!), cipherText);
+      if (anonymousPosts.wasRejected((await tx.wait())!)) throw new Error("PassMismatch");
+      return tx.hash;
+    } catch (error) {
+      throw reasonOf(error);
+    }
+  };
+
+  return {
+    account: () => (contract.runner as Signer).getAddress(),
+    async nextNonce(sender) {
+      const confirmed = Number(await contract.nonces(sender));
+      return confirmed + [...inFlight, ...queue].filter(sameSender(sender)).length;
+    },
+    submit(post) {
+      // Reject what can be checked off chain before it takes a slot in a batch.
+      if (post.deadline * 1000 < Date.now()) return Promise.reject(new Error("Signature expired"));
+      const { signature, ...value } = post;
+      let signer: string;
+      try {
+        signer = verifyTypedData(domain, POST_TYPES, value, signature);
+      } catch {
+        return Promise.reject(new Error("Invalid signature"));
+      }
+      if (signer.toLowerCase() !== post.sender.toLowerCase()) return Promise.reject(new Error("Invalid signature"));
+
+      return new Promise<string>((resolve, reject) => {
+        queue.push({ post, resolve, reject });
+        if (queue.length >= maxBatchSize) void flush();
+        else timer ??= setTimeout(flush, flushInterval);
+      });
+    },
+    submitAnonymous(post) {
+      // Sent after the batches already going out, so the relayer's own account nonce never races.
+      const result = sending.then(() => postAnonymously(post));
+      sending = result.then(
+        () => undefined,
+        () => undefined,
+      );
+      return result;
+    },
+    flush,
+    stop() {
+      clearTimeout(timer);
+      queue.forEach(({ reject }) => reject(new Error("Relayer stopped")));
+      queue = [];
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { createServer, type IncomingMessage } from "http";
+import { isAddress, isHexString } from "ethers";
+import type { AnonymousPost, SignedPost } from "../shared/metaTx";
+import type { Relayer } from "./relayer";
+
+// A signed post is a ciphertext plus a few words; anything bigger is not a post.
+const MAX_BODY_BYTES = 64 * 1024;
+
+async function readJson(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of request) {
+    total += chunk.length;
+    if (total > MAX_BODY_BYTES) throw new Error("Request too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+export type RelayerServerOptions = {
+  /**
+   * Anonymous posts one client address may send per window. They are unsigned and the relayer pays their gas, so
+   * nothing else stops a single client from spending its balance.
+   */
+  anonymousLimit?: number;
+  /** Length of that window, in milliseconds. */
+  anonymousWindow?: number;
+};
+
+/** Count requests per key in fixed windows; returns whether one more is allowed right now. */
+function createRateLimiter(limit: number, windowMs: number) {
+  let windowStart = Date.now();
+  let counts = new Map<string, number>();
+  return (key: string) => {
+    if (Date.now() - windowStart >= windowMs) {
+      windowStart = Date.now();
+      counts = new Map();
+    }
+    const count = counts.get(key) ?? 0;
+    if (count >= limit) return false;
+    counts.set(key, count + 1);
+    return true;
+  };
+}
+
+function parsePost(body: unknown): SignedPost {
+  const post = body as Record<string, unknown>;
+  const numeric = ["groupId", "attachmentSize", "nonce", "deadline"];
+  const textual = ["sender", "cipherText", "attachmentHash", "signature"];
+  if (
+    !post ||
+    numeric.some((field) => !Number.isSafeInteger(post[field])) ||
+    textual.some((field) => typeof post[field] !== "string") ||
+    !isAddress(post.sender)
+  ) {
+    throw new Error("Malformed post");
+  }
+  return post as SignedPost;
+}
+
+function parseAnonymousPost(body: unknown): AnonymousPost {
+  const post = body as Record<string, unknown>;
+  if (
+    !post ||
+    !Number.isSafeInteger(post.groupId) ||
+    typeof post.cipherText !== "string" ||
+    !isHexString(post.pass, 32) ||
+    !isHexString(post.inputProof)
+  ) {
+    throw new Error("Malformed post");
+  }
+  return {
+    groupId: post.groupId as number,
+    cipherText: post.cipherText,
+    pass: post.pass as string,
+    inputProof: post.inputProof as string,
+  };
+}
+
+/**
+ * Serve a relayer over HTTP:
+ * `GET /account` returns `{ account }`, `GET /nonce/<address>` returns `{ nonce }`, and `POST /posts` takes a signed
+ * post and `POST /anonymous` an anonymous one, both returning `{ txHash }` once mined. Anonymous posts beyond the
+ * rate limit get a 429.
+ */
+export function createRelayerServer(relayer: Relayer, options: RelayerServerOptions = {}) {
+  const allowAnonymous = createRateLimiter(options.anonymousLimit ?? 10, options.anonymousWindow ?? 60_000);
+  return createServer(async (request, response) => {
+    response.setHeader("Access-Control-Allow-Origin", "*");
+    response.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    response.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    const reply = (status: number, body: object) =>
+      response.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+    const url = request.url ?? "";
+
+    try {
+      if (request.method === "OPTIONS") {
+        response.writeHead(204).end();
+      } else if (request.method === "GET" && url === "/account") {
+        reply(200, { account: await relayer.account() });
+      } else if (request.method === "GET" && url.startsWith("/nonce/")) {
+        const sender = url.slice("/nonce/".length);
+        if (!isAddress(sender)) return reply(400, { error: "Invalid address" });
+        reply(200, { nonce: await relayer.nextNonce(sender) });
+      } else if (request.method === "POST" && url === "/posts") {
+        const post = parsePost(await readJson(request));
+        reply(200, { txHash: await relayer.submit(post) });
+      } else if (request.method === "POST" && url === "/anonymous") {
+        if (!allowAnonymous(request.socket.remoteAddress ?? "")) {
+          return reply(429, { error: "Too many anonymous posts, try again later" });
+        }
+        const post = parseAnonymousPost(await readJson(request));
+        reply(200, { txHash: await relayer.submitAnonymous(post) });
+      } else {
+        reply(404, { error: "Not found" });
+      }
+    } catch (error) {
+      reply(400, { error: error instanceof Error ? error.message : "Request failed" });
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import {
+  Contract,
+  type BytesLike,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type InterfaceAbi,
+  type TransactionReceipt,
+} from "ethers";
+import type { PublicDecryptor } from "./polls";
+
+/** A posting pass encrypted as a euint256 input of the anonymous posts contract for the account submitting it. */
+export type EncryptedPass = { handle: BytesLike; inputProof: BytesLike };
+
+/**
+ * Encrypts a posting pass as a euint256 input of the anonymous posts contract for `account`, which has to submit
+ * the post. The browser implements it with the Zama relayer SDK, the Hardhat tasks and tests with the FHEVM plugin.
+ */
+export type PassEncryptor = (contractAddress: string, account: string, pass: bigint) => Promise<EncryptedPass>;
+
+export type AnonymousPostsClientOptions = {
+  // The `ANONYMOUS_POSTS` address of the AnonVerse deployment; see `AnonVerseClient.anonymousPostsAddress`.
+  address: string;
+  abi: InterfaceAbi;
+  // A provider for reads only, or a signer to send transactions as well.
+  runner: ContractRunner;
+  encryptPass?: PassEncryptor;
+  publicDecrypt?: PublicDecryptor;
+};
+
+/**
+ * Typed access to the contract anonymous posts go through. A post is submitted with the group's posting pass,
+ * from `AnonVerseClient.unlockPostingPass`, and reaches the timeline once published.
+ */
+export type AnonymousPostsClient = {
+  address: string;
+  /** The same client acting through another provider or signer. */
+  connect: (runner: ContractRunner) => AnonymousPostsClient;
+
+  /** Encrypt a posting pass for `account`, which has to submit the post: a relayer's account or the signer's own. */
+  encryptPass: (pass: bigint, account: string) => Promise<EncryptedPass>;
+  /** Id of the post submitted by a `postAnonymous` transaction, read from its receipt. */
+  submittedPostId: (receipt: TransactionReceipt) => number;
+  /**
+   * Whether a `publishAnonymous` transaction dropped its post, because the pass did not match or the group turned
+   * anonymous posting off while the post was pending.
+   */
+  wasRejected: (receipt: TransactionReceipt) => boolean;
+
+  /**
+   * Submit a message without recording a sender. The transaction still comes from this client's signer, so hand
+   * the post to a relayer to stay anonymous.
+   */
+  postAnonymous: (groupId: number, cipherText: string, pass: EncryptedPass) => Promise<ContractTransactionResponse>;
+  /** Decrypt the pass check of a submitted post and publish it with the KMS proof. */
+  publishAnonymous: (postId: number, cipherText: string) => Promise<ContractTransactionResponse>;
+};
+
+export function createAnonymousPostsClient(options: AnonymousPostsClientOptions): AnonymousPostsClient {
+  const { address, abi, runner, encryptPass, publicDecrypt } = options;
+  const contract = new Contract(address, abi, runner);
+
+  const eventsOf = (receipt: TransactionReceipt) =>
+    receipt.logs
+      .filter((log) => log.address.toLowerCase() === address.toLowerCase())
+      .map((log) => contract.interface.parseLog(log));
+
+  return {
+    address,
+    connect: (next) => createAnonymousPostsClient({ ...options, runner: next }),
+
+    encryptPass(pass, account) {
+      if (!encryptPass) throw new Error("No pass encryptor configured");
+      return encryptPass(address, account, pass);
+    },
+    submittedPostId(receipt) {
+      const submitted = eventsOf(receipt).find((parsed) => parsed?.name === "AnonymousPostSubmitted");
+      if (!submitted) throw new Error("The transaction did not submit a post");
+      return Number(submitted.args.postId);
+    },
+    wasRejected: (receipt) => eventsOf(receipt).some((parsed) => parsed?.name === "AnonymousPostRejected"),
+
+    postAnonymous: (groupId, cipherText, pass) =>
+      contract.postAnonymous(groupId, cipherText, pass.handle, pass.inputProof),
+    async publishAnonymous(postId, cipherText) {
+      if (!publicDecrypt) throw new Error("No public decryptor configured");
+      const { valid } = await contract.getPendingPost(postId);
+      const { abiEncodedClearValues, decryptionProof } = await publicDecrypt([valid]);
+      return contract.publishAnonymous(postId, cipherText, abiEncodedClearValues, decryptionProof);
+    },
+  };
+}
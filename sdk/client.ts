@@ -0,0 +1,473 @@
+import {
+  Contract,
+  ZeroAddress,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type InterfaceAbi,
+  type Signer,
+  type TransactionReceipt,
+} from "ethers";
+import type { AttachmentRef } from "../shared/attachments";
+
+const ZERO_HASH = `0x${"0".repeat(64)}`;
+// Messages are read in pages of this size when catching up on a timeline.
+const WATCH_PAGE_SIZE = 50;
+// Roster slots are claimed in pages of this size, one transaction each, so every claim fits in a block.
+const SLOT_CLAIM_PAGE_SIZE = 100;
+
+// Thrown by the relayer SDK and the FHEVM mock when the ACL has not shared a handle with the decrypting account.
+const DECRYPTION_DENIED = /User 0x[0-9a-fA-F]{40} is not authorized to user decrypt handle (0x[0-9a-fA-F]+)/;
+
+// Handle a decryption was denied for, or null when it failed for any other reason.
+const deniedHandle = (error: unknown): string | null => {
+  for (let cause = error; cause instanceof Error; cause = cause.cause) {
+    const match = DECRYPTION_DENIED.exec(cause.message);
+    if (match) return match[1].toLowerCase();
+  }
+  return null;
+};
+
+/** Indexed like the contract's Privacy enum. */
+export const Privacy = { Open: 0, Approval: 1, InviteOnly: 2 } as const;
+export type Privacy = (typeof Privacy)[keyof typeof Privacy];
+
+/** Indexed like the contract's Role enum, ordered by power. */
+export const Role = { None: 0, ReadOnly: 1, Member: 2, Moderator: 3, Admin: 4, Owner: 5 } as const;
+export type Role = (typeof Role)[keyof typeof Role];
+
+/** Indexed like the contract's GateKind enum. */
+export const GateKind = { None: 0, ERC20: 1, ERC721: 2, Group: 3 } as const;
+export type GateKind = (typeof GateKind)[keyof typeof GateKind];
+
+/**
+ * What an account needs to join a gated group: a balance of at least `threshold` of the ERC-20 token or ERC-721
+ * collection at `token`, or membership in the group whose id is `threshold`.
+ */
+export type Gate = { kind: GateKind; token: string; threshold: bigint };
+
+export type Group = {
+  id: number;
+  name: string;
+  creator: string;
+  owner: string;
+  privacy: Privacy;
+  createdAt: number;
+  memberCount: number;
+  messageCount: number;
+  keyEpoch: number;
+  // Handle of the encrypted key of the current epoch.
+  secretHandle: string;
+  // Direct conversations are unnamed groups of exactly two participants.
+  direct: boolean;
+  // Whether members may post without revealing their address.
+  anonymousPosts: boolean;
+  // Whether the member list is encrypted, so only members can read it.
+  hiddenMembers: boolean;
+  // What joining asks for; null when the privacy mode is the only rule.
+  gate: Gate | null;
+};
+
+/** Options of `createGroup`. */
+export type GroupOptions = {
+  // Keep the member list encrypted; see `revealMembers`.
+  hiddenMembers?: boolean;
+  // Only admit accounts passing this gate, checked when they join or ask to join.
+  gate?: Gate;
+};
+
+/** A group profile as stored on chain, sealed with the key of `epoch`; see `decryptProfile`. */
+export type SealedProfile = { cipherText: string; epoch: number };
+
+/** Where an account stands in a group. */
+export type Membership = {
+  member: boolean;
+  pending: boolean;
+  invited: boolean;
+  role: Role;
+  // Seconds since the epoch; zero or in the past when the account is not muted.
+  mutedUntil: number;
+};
+
+export type Message = {
+  index: number;
+  // The zero address for anonymous messages.
+  sender: string;
+  anonymous: boolean;
+  cipherText: string;
+  timestamp: number;
+  epoch: number;
+  attachment?: AttachmentRef;
+  edited: boolean;
+  deleted: boolean;
+};
+
+/**
+ * Decrypts euint256 handles of the contract for the connected account, returning the clear values keyed by handle.
+ * The browser implements it with the Zama relayer SDK, the Hardhat tasks and tests with the FHEVM plugin.
+ */
+export type KeyDecryptor = (handles: string[]) => Promise<Record<string, bigint>>;
+
+/** Decrypts eaddress handles of the contract for the connected account, returning the addresses keyed by handle. */
+export type AddressDecryptor = (handles: string[]) => Promise<Record<string, string>>;
+
+export type AnonVerseClientOptions = {
+  address: string;
+  abi: InterfaceAbi;
+  // A provider for reads only, or a signer to send transactions as well.
+  runner: ContractRunner;
+  decryptKeys?: KeyDecryptor;
+  decryptAddresses?: AddressDecryptor;
+};
+
+/** Typed access to an AnonVerse deployment, independent of any UI or task framework. */
+export type AnonVerseClient = {
+  address: string;
+  /** The same client acting through another provider or signer. */
+  connect: (runner: ContractRunner) => AnonVerseClient;
+
+  groupCount: () => Promise<number>;
+  getGroup: (groupId: number) => Promise<Group>;
+  listGroups: () => Promise<Group[]>;
+  /** Groups an account is a member of, direct conversations included, in id order. Read from an on-chain index. */
+  listGroupsOf: (account: string) => Promise<Group[]>;
+  isMember: (groupId: number, account: string) => Promise<boolean>;
+  /** Whether an account passes the gate of a group; always true for ungated groups. */
+  meetsGate: (groupId: number, account: string) => Promise<boolean>;
+  membership: (groupId: number, account: string) => Promise<Membership>;
+  /** Rejects for hidden-membership groups, whose members use `revealMembers` instead. */
+  listMembers: (groupId: number) => Promise<string[]>;
+  /**
+   * Decrypt the member list of a hidden-membership group. The connected account has to be a member; slots it was
+   * not granted yet are claimed with `claimMemberSlots` first, so connect a signer.
+   */
+  revealMembers: (groupId: number) => Promise<string[]>;
+  listJoinRequests: (groupId: number) => Promise<string[]>;
+  /** Group id of the direct conversation between two accounts, or null if they have none. */
+  directConversation: (a: string, b: string) => Promise<number | null>;
+
+  /** Sealed name, description and avatar of a group, or null when it has none. */
+  getProfile: (groupId: number) => Promise<SealedProfile | null>;
+  /** Id of the group created by a `createGroup` transaction, read from its receipt. */
+  createdGroupId: (receipt: TransactionReceipt) => number;
+
+  /** Read positions an account stored on chain, sealed by its own client; "0x" when it never stored any. */
+  getReadMarkers: (account: string) => Promise<string>;
+
+  /**
+   * Decrypt every epoch key of the given groups in one decryptor call, returning the keys indexed by epoch. Keys a
+   * hidden-membership group drew since the account joined are claimed with `claimAccess` first, so connect a signer.
+   */
+  unlockKeys: (groupIds: number[]) => Promise<Record<number, bigint[]>>;
+  /**
+   * Decrypt the posting pass anonymous posts to a group are checked against. The connected account has to be a
+   * member allowed to post; a pass drawn by someone else is claimed with `claimAccess` first, so connect a signer.
+   */
+  unlockPostingPass: (groupId: number) => Promise<bigint>;
+  /** Address of the contract anonymous posts are submitted to; see `createAnonymousPostsClient`. */
+  anonymousPostsAddress: () => Promise<string>;
+
+  messageCount: (groupId: number) => Promise<number>;
+  getMessages: (groupId: number, from: number, limit: number) => Promise<Message[]>;
+  /**
+   * Call `onMessage` for every message of a group from index `from` on, in order: first the existing ones, then
+   * new ones as they are posted. Returns a function that stops watching.
+   */
+  watchMessages: (
+    groupId: number,
+    from: number,
+    onMessage: (message: Message) => void | Promise<void>,
+    onError?: (error: unknown) => void,
+  ) => () => void;
+
+  createGroup: (name: string, privacy: Privacy, options?: GroupOptions) => Promise<ContractTransactionResponse>;
+  startDirectMessage: (peer: string) => Promise<ContractTransactionResponse>;
+  joinGroup: (groupId: number) => Promise<ContractTransactionResponse>;
+  leaveGroup: (groupId: number) => Promise<ContractTransactionResponse>;
+  /** Share every key epoch of the group, and its posting pass if the caller can post, with the caller, a member. */
+  claimAccess: (groupId: number) => Promise<ContractTransactionResponse>;
+  invite: (groupId: number, account: string) => Promise<ContractTransactionResponse>;
+  approveRequest: (groupId: number, account: string) => Promise<ContractTransactionResponse>;
+  rejectRequest: (groupId: number, account: string) => Promise<ContractTransactionResponse>;
+  removeMember: (groupId: number, member: string) => Promise<ContractTransactionResponse>;
+  rotateKey: (groupId: number) => Promise<ContractTransactionResponse>;
+  setRole: (groupId: number, member: string, role: Role) => Promise<ContractTransactionResponse>;
+  transferOwnership: (groupId: number, newOwner: string) => Promise<ContractTransactionResponse>;
+  muteMember: (groupId: number, member: string, duration: number) => Promise<ContractTransactionResponse>;
+  unmuteMember: (groupId: number, member: string) => Promise<ContractTransactionResponse>;
+  setAnonymousPosting: (groupId: number, enabled: boolean) => Promise<ContractTransactionResponse>;
+  /** Replace the group profile with one sealed by `encryptProfile` under the current key; "" removes it. */
+  setProfile: (groupId: number, cipherText: string) => Promise<ContractTransactionResponse>;
+
+  postMessage: (
+    groupId: number,
+    cipherText: string,
+    attachment?: AttachmentRef,
+  ) => Promise<ContractTransactionResponse>;
+  postMessages: (groupIds: number[], cipherTexts: string[]) => Promise<ContractTransactionResponse>;
+  editMessage: (groupId: number, index: number, cipherText: string) => Promise<ContractTransactionResponse>;
+  deleteMessage: (groupId: number, index: number) => Promise<ContractTransactionResponse>;
+  react: (groupId: number, index: number, reaction: number) => Promise<ContractTransactionResponse>;
+  /** Replace the caller's read positions on chain. Seal them first: the contract stores them as given. */
+  setReadMarkers: (sealed: string) => Promise<ContractTransactionResponse>;
+};
+
+type RawMessage = {
+  sender: string;
+  cipherText: string;
+  timestamp: bigint;
+  epoch: bigint;
+  attachmentHash: string;
+  attachmentSize: bigint;
+  edited: boolean;
+  deleted: boolean;
+};
+
+const toMessage = (message: RawMessage, index: number): Message => ({
+  index,
+  sender: message.sender,
+  anonymous: message.sender === ZeroAddress,
+  cipherText: message.cipherText,
+  timestamp: Number(message.timestamp),
+  epoch: Number(message.epoch),
+  attachment:
+    message.attachmentHash !== ZERO_HASH
+      ? { hash: message.attachmentHash, size: Number(message.attachmentSize) }
+      : undefined,
+  edited: message.edited,
+  deleted: message.deleted,
+});
+
+export function createAnonVerseClient(options: AnonVerseClientOptions): AnonVerseClient {
+  const { address, abi, runner, decryptKeys, decryptAddresses } = options;
+  const contract = new Contract(address, abi, runner);
+
+  const getGroup = async (groupId: number): Promise<Group> => {
+    const [
+      [name, creator, createdAt, memberCount, messageCount, secret, keyEpoch, privacy, direct, owner],
+      anonymous,
+      hidden,
+      [gateKind, gateToken, gateThreshold],
+    ] = await Promise.all([
+      contract.getGroup(groupId),
+      contract.allowsAnonymousPosts(groupId),
+      contract.hasHiddenMembers(groupId),
+      contract.getGate(groupId),
+    ]);
+    return {
+      id: groupId,
+      name,
+      creator,
+      owner,
+      privacy: Number(privacy) as Privacy,
+      createdAt: Number(createdAt),
+      memberCount: Number(memberCount),
+      messageCount: Number(messageCount),
+      keyEpoch: Number(keyEpoch),
+      secretHandle: secret,
+      direct,
+      anonymousPosts: anonymous,
+      hiddenMembers: hidden,
+      gate:
+        Number(gateKind) === GateKind.None
+          ? null
+          : { kind: Number(gateKind) as GateKind, token: gateToken, threshold: gateThreshold },
+    };
+  };
+
+  const groupCount = async () => Number(await contract.getGroupCount());
+  const messageCount = async (groupId: number) => Number(await contract.getMessageCount(groupId));
+  const getMessages = async (groupId: number, from: number, limit: number) => {
+    const page: RawMessage[] = await contract.getMessages(groupId, from, limit);
+    return page.map((message, i) => toMessage(message, from + i));
+  };
+
+  // Claiming only helps members, so for anyone else a denial stands.
+  const isConnectedMember = async (groupId: number) => {
+    if (!runner || !("getAddress" in runner)) return false;
+    return contract.isMember(groupId, await (runner as Signer).getAddress()) as Promise<boolean>;
+  };
+
+  const claimAccessAsMember = async (groupId: number) => {
+    if (!(await isConnectedMember(groupId))) return false;
+    await (await contract.claimAccess(groupId)).wait();
+    return true;
+  };
+
+  // Some keys, passes and roster slots are only shared with members who claim them, so a read the ACL refuses is
+  // retried once `claim` has shared the denied handle. Any other failure, and a denial `claim` cannot lift, is
+  // rethrown as is.
+  const withClaimedAccess = async <T>(read: () => Promise<T>, claim: (handle: string) => Promise<boolean>) => {
+    const claimed = new Set<string>();
+    for (;;) {
+      try {
+        return await read();
+      } catch (error) {
+        const handle = deniedHandle(error);
+        if (handle === null || claimed.has(handle) || !(await claim(handle))) throw error;
+        claimed.add(handle);
+      }
+    }
+  };
+
+  return {
+    address,
+    connect: (next) => createAnonVerseClient({ ...options, runner: next }),
+
+    groupCount,
+    getGroup,
+    async listGroups() {
+      const count = await groupCount();
+      return Promise.all(Array.from({ length: count }, (_, groupId) => getGroup(groupId)));
+    },
+    async listGroupsOf(account) {
+      const ids: bigint[] = await contract.listGroupsOf(account);
+      const sorted = ids.map(Number).sort((a, b) => a - b);
+      return Promise.all(sorted.map((groupId) => getGroup(groupId)));
+    },
+    isMember: (groupId, account) => contract.isMember(groupId, account),
+    meetsGate: (groupId, account) => contract.meetsGate(groupId, account),
+    async membership(groupId, account) {
+      const [member, pending, invited, role, mutedUntil] = await Promise.all([
+        contract.isMember(groupId, account),
+        contract.hasPendingRequest(groupId, account),
+        contract.isInvited(groupId, account),
+        contract.getRole(groupId, account),
+        contract.getMutedUntil(groupId, account),
+      ]);
+      return { member, pending, invited, role: Number(role) as Role, mutedUntil: Number(mutedUntil) };
+    },
+    listMembers: async (groupId) => [...(await contract.listMembers(groupId))],
+    async revealMembers(groupId) {
+      if (!decryptAddresses) throw new Error("No address decryptor configured");
+      const slots: string[] = [...(await contract.getMemberSlots(groupId))];
+      const read = async () => {
+        const clear = await decryptAddresses(slots);
+        if (slots.some((slot) => clear[slot] === undefined)) throw new Error("A member slot could not be decrypted");
+        // Slots of members who left hold the zero address.
+        return slots.map((slot) => clear[slot]).filter((member) => member.toLowerCase() !== ZeroAddress);
+      };
+      // Claims run from the denied slot to the end of the roster; a slot before it still denied is claimed next.
+      return withClaimedAccess(read, async (handle) => {
+        const from = slots.findIndex((slot) => slot.toLowerCase() === handle);
+        if (from < 0 || !(await isConnectedMember(groupId))) return false;
+        for (let start = from; start < slots.length; start += SLOT_CLAIM_PAGE_SIZE) {
+          await (await contract.claimMemberSlots(groupId, start, SLOT_CLAIM_PAGE_SIZE)).wait();
+        }
+        return true;
+      });
+    },
+    listJoinRequests: async (groupId) => [...(await contract.listJoinRequests(groupId))],
+    async directConversation(a, b) {
+      const [exists, groupId] = await contract.getDirectMessageId(a, b);
+      return exists ? Number(groupId) : null;
+    },
+    async getProfile(groupId) {
+      const [cipherText, epoch] = await contract.getProfile(groupId);
+      return cipherText ? { cipherText, epoch: Number(epoch) } : null;
+    },
+    createdGroupId(receipt) {
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== address.toLowerCase()) continue;
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === "GroupCreated") return Number(parsed.args.groupId);
+      }
+      throw new Error("The transaction did not create a group");
+    },
+    getReadMarkers: (account) => contract.getReadMarkers(account),
+
+    async unlockKeys(groupIds) {
+      if (!decryptKeys) throw new Error("No key decryptor configured");
+      const handleLists: string[][] = await Promise.all(
+        groupIds.map(async (groupId) => [...(await contract.getGroupSecrets(groupId))]),
+      );
+      const read = async () => {
+        const clear = await decryptKeys(handleLists.flat());
+        if (handleLists.flat().some((handle) => clear[handle] === undefined)) {
+          throw new Error("A group key could not be decrypted");
+        }
+        return Object.fromEntries(
+          groupIds.map((groupId, i) => [groupId, handleLists[i].map((handle) => clear[handle])]),
+        );
+      };
+      return withClaimedAccess(read, async (denied) => {
+        const index = handleLists.findIndex((handles) => handles.some((handle) => handle.toLowerCase() === denied));
+        return index >= 0 && claimAccessAsMember(groupIds[index]);
+      });
+    },
+    async unlockPostingPass(groupId) {
+      if (!decryptKeys) throw new Error("No key decryptor configured");
+      const handle: string = await contract.getPostingPass(groupId);
+      if (handle === ZERO_HASH) throw new Error("Anonymous posting was never enabled in this group");
+      const read = async () => {
+        const clear = await decryptKeys([handle]);
+        if (clear[handle] === undefined) throw new Error("The posting pass could not be decrypted");
+        return clear[handle];
+      };
+      return withClaimedAccess(read, async (denied) => denied === handle.toLowerCase() && claimAccessAsMember(groupId));
+    },
+    anonymousPostsAddress: () => contract.ANONYMOUS_POSTS(),
+
+    messageCount,
+    getMessages,
+    watchMessages(groupId, from, onMessage, onError) {
+      let next = from;
+      let stopped = false;
+      let queue = Promise.resolve();
+      // Reads by index rather than from event payloads, so every message is delivered once and in order.
+      const catchUp = async () => {
+        const count = await messageCount(groupId);
+        while (!stopped && next < count) {
+          const page = await getMessages(groupId, next, WATCH_PAGE_SIZE);
+          if (!page.length) break;
+          for (const message of page) {
+            if (stopped) return;
+            await onMessage(message);
+            next++;
+          }
+        }
+      };
+      const schedule = () => {
+        queue = queue.then(catchUp).catch((error) => onError?.(error));
+      };
+
+      const filter = contract.filters.MessagePosted(groupId);
+      contract.on(filter, schedule).catch((error) => onError?.(error));
+      schedule();
+      return () => {
+        stopped = true;
+        contract.off(filter, schedule).catch((error) => onError?.(error));
+      };
+    },
+
+    createGroup(name, privacy, groupOptions) {
+      const hidden = !!groupOptions?.hiddenMembers;
+      if (groupOptions?.gate) return contract.createGatedGroup(name, privacy, groupOptions.gate, hidden);
+      return hidden ? contract.createHiddenGroup(name, privacy) : contract.createGroup(name, privacy);
+    },
+    startDirectMessage: (peer) => contract.startDirectMessage(peer),
+    joinGroup: (groupId) => contract.joinGroup(groupId),
+    leaveGroup: (groupId) => contract.leaveGroup(groupId),
+    claimAccess: (groupId) => contract.claimAccess(groupId),
+    invite: (groupId, account) => contract.invite(groupId, account),
+    approveRequest: (groupId, account) => contract.approveRequest(groupId, account),
+    rejectRequest: (groupId, account) => contract.rejectRequest(groupId, account),
+    removeMember: (groupId, member) => contract.removeMember(groupId, member),
+    rotateKey: (groupId) => contract.rotateKey(groupId),
+    setRole: (groupId, member, role) => contract.setRole(groupId, member, role),
+    transferOwnership: (groupId, newOwner) => contract.transferOwnership(groupId, newOwner),
+    muteMember: (groupId, member, duration) => contract.muteMember(groupId, member, duration),
+    unmuteMember: (groupId, member) => contract.unmuteMember(groupId, member),
+    setAnonymousPosting: (groupId, enabled) => contract.setAnonymousPosting(groupId, enabled),
+
+    postMessage: (groupId, cipherText, attachment) =>
+      attachment
+        ? contract.postMessageWithAttachment(groupId, cipherText, attachment.hash, attachment.size)
+        : contract.postMessage(groupId, cipherText),
+    postMessages: (groupIds, cipherTexts) => contract.postMessages(groupIds, cipherTexts),
+    editMessage: (groupId, index, cipherText) => contract.editMessage(groupId, index, cipherText),
+    deleteMessage: (groupId, index) => contract.deleteMessage(groupId, index),
+    react: (groupId, index, reaction) => contract.react(groupId, index, reaction),
+    setProfile: (groupId, cipherText) => contract.setProfile(groupId, cipherText),
+    setReadMarkers: (sealed) => contract.setReadMarkers(sealed),
+  };
+}
@@ -0,0 +1,35 @@
+import { Contract, formatUnits, parseUnits, type ContractRunner } from "ethers";
+import { GateKind, type Gate } from "./client";
+
+// Only the metadata a description needs; both are optional in the token standards.
+const TOKEN_METADATA_ABI = ["function symbol() view returns (string)", "function decimals() view returns (uint8)"];
+
+/**
+ * A gate asking for `amount` whole ERC-20 tokens or ERC-721 NFTs of `token`. ERC-20 amounts are converted to base
+ * units with the decimals read through `runner`, so "1.5" of an 18-decimals token asks for 1.5e18.
+ */
+export async function tokenGate(
+  kind: typeof GateKind.ERC20 | typeof GateKind.ERC721,
+  token: string,
+  amount: string,
+  runner: ContractRunner,
+): Promise<Gate> {
+  if (kind === GateKind.ERC721) return { kind, token, threshold: BigInt(amount) };
+  const decimals: bigint = await new Contract(token, TOKEN_METADATA_ABI, runner).decimals();
+  return { kind, token, threshold: parseUnits(amount, decimals) };
+}
+
+/**
+ * What a gate asks of an account, in words: "at least 100 PASS", "1 KEY NFT" or "membership in group #3".
+ * Token metadata is read through `runner`; tokens without a symbol are named by address, and ERC-20 tokens without
+ * decimals are counted in base units.
+ */
+export async function describeGate(gate: Gate, runner: ContractRunner): Promise<string> {
+  if (gate.kind === GateKind.Group) return `membership in group #${gate.threshold}`;
+
+  const token = new Contract(gate.token, TOKEN_METADATA_ABI, runner);
+  const symbol: string = await token.symbol().catch(() => `${gate.token.slice(0, 6)}…${gate.token.slice(-4)}`);
+  if (gate.kind === GateKind.ERC721) return `${gate.threshold} ${symbol} NFT${gate.threshold === 1n ? "" : "s"}`;
+  const decimals: bigint = await token.decimals().catch(() => 0n);
+  return `at least ${formatUnits(gate.threshold, decimals)} ${symbol}`;
+}
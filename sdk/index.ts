@@ -0,0 +1,42 @@
+export {
+  createAnonymousPostsClient,
+  type AnonymousPostsClient,
+  type AnonymousPostsClientOptions,
+  type EncryptedPass,
+  type PassEncryptor,
+} from "./anonymous";
+export {
+  createAnonVerseClient,
+  GateKind,
+  Privacy,
+  Role,
+  type AddressDecryptor,
+  type AnonVerseClient,
+  type AnonVerseClientOptions,
+  type Gate,
+  type Group,
+  type GroupOptions,
+  type KeyDecryptor,
+  type Membership,
+  type Message,
+  type SealedProfile,
+} from "./client";
+export { describeGate, tokenGate } from "./gates";
+export { decryptPayload, decryptPoll, decryptProfile, encryptPayload, encryptPoll, encryptProfile } from "./messages";
+export {
+  createPollsClient,
+  type OptionEncryptor,
+  type Poll,
+  type PollsClient,
+  type PollsClientOptions,
+  type PublicDecryptor,
+} from "./polls";
+export type { GroupProfile, MessagePayload, PollContent, PseudonymProof } from "../shared/payload";
+export {
+  derivePseudonym,
+  handleOf,
+  pseudonymSeed,
+  pseudonymSeedMessage,
+  signAsPseudonym,
+  verifyPseudonym,
+} from "./pseudonym";
@@ -0,0 +1,42 @@
+import { decodeMessage, decodePoll, decodeProfile, encodeMessage, encodePoll, encodeProfile } from "../shared/crypto";
+import {
+  decodeGroupProfile,
+  decodePayload,
+  decodePollContent,
+  encodeGroupProfile,
+  encodePayload,
+  encodePollContent,
+  type GroupProfile,
+  type MessagePayload,
+  type PollContent,
+} from "../shared/payload";
+
+/** Seal a payload with the key of the group's current epoch, ready to post. */
+export async function encryptPayload(payload: MessagePayload, key: bigint): Promise<string> {
+  return encodeMessage(encodePayload(payload), key);
+}
+
+/** Open a message with the key of the epoch it was posted in. Rejects on a wrong key or a tampered ciphertext. */
+export async function decryptPayload(cipherText: string, key: bigint): Promise<MessagePayload> {
+  return decodePayload(await decodeMessage(cipherText, key));
+}
+
+/** Seal a group profile with the key of the group's current epoch, ready for `setProfile`. */
+export async function encryptProfile(profile: GroupProfile, key: bigint): Promise<string> {
+  return encodeProfile(encodeGroupProfile(profile), key);
+}
+
+/** Open a group profile with the key of the epoch it was sealed with. Rejects on a wrong key or a malformed profile. */
+export async function decryptProfile(cipherText: string, key: bigint): Promise<GroupProfile> {
+  return decodeGroupProfile(await decodeProfile(cipherText, key));
+}
+
+/** Seal a poll's question and options with the key of the group's current epoch, ready for `createPoll`. */
+export async function encryptPoll(poll: PollContent, key: bigint): Promise<string> {
+  return encodePoll(encodePollContent(poll), key);
+}
+
+/** Open a poll with the key of the epoch it was sealed with. Rejects on a wrong key or a malformed poll. */
+export async function decryptPoll(cipherText: string, key: bigint): Promise<PollContent> {
+  return decodePollContent(await decodePoll(cipherText, key));
+}
@@ -0,0 +1,156 @@
+import {
+  Contract,
+  type BytesLike,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type InterfaceAbi,
+  type Signer,
+  type TransactionReceipt,
+} from "ethers";
+
+export type Poll = {
+  id: number;
+  groupId: number;
+  creator: string;
+  // Question and options sealed with the group key of `epoch`; see `decryptPoll`.
+  cipherText: string;
+  epoch: number;
+  optionCount: number;
+  createdAt: number;
+  // Seconds since the epoch; votes are refused from then on and the result can be revealed.
+  deadline: number;
+  voterCount: number;
+  // Whether the tallies are publicly decryptable, and whether their clear values are published.
+  closed: boolean;
+  revealed: boolean;
+  // Votes per option, in option order, once revealed.
+  results: number[] | null;
+};
+
+/**
+ * Encrypts an option index as a euint32 input of the polls contract for `account`, which has to send the vote.
+ * The browser implements it with the Zama relayer SDK, the Hardhat tasks and tests with the FHEVM plugin.
+ */
+export type OptionEncryptor = (
+  contractAddress: string,
+  account: string,
+  option: number,
+) => Promise<{ handle: BytesLike; inputProof: BytesLike }>;
+
+/** Publicly decrypts handles through the KMS, returning their ABI-encoded clear values and the proof of them. */
+export type PublicDecryptor = (
+  handles: string[],
+) => Promise<{ abiEncodedClearValues: string; decryptionProof: string }>;
+
+export type PollsClientOptions = {
+  address: string;
+  abi: InterfaceAbi;
+  // A provider for reads only, or a signer to send transactions as well.
+  runner: ContractRunner;
+  encryptOption?: OptionEncryptor;
+  publicDecrypt?: PublicDecryptor;
+};
+
+/** Typed access to an AnonVersePolls deployment. */
+export type PollsClient = {
+  address: string;
+  /** The same client acting through another provider or signer. */
+  connect: (runner: ContractRunner) => PollsClient;
+
+  pollCount: () => Promise<number>;
+  getPoll: (pollId: number) => Promise<Poll>;
+  /** Polls of a group, oldest first. */
+  listPolls: (groupId: number) => Promise<Poll[]>;
+  hasVoted: (pollId: number, account: string) => Promise<boolean>;
+  /** Id of the poll created by a `createPoll` transaction, read from its receipt. */
+  createdPollId: (receipt: TransactionReceipt) => number;
+
+  /** Open a poll sealed by `encryptPoll` under the group's current key, ending at `deadline` (seconds). */
+  createPoll: (
+    groupId: number,
+    cipherText: string,
+    optionCount: number,
+    deadline: number,
+  ) => Promise<ContractTransactionResponse>;
+  /** Vote for the option at index `option`, encrypted for the connected signer. */
+  vote: (pollId: number, option: number) => Promise<ContractTransactionResponse>;
+  /** Make the tallies of an ended poll publicly decryptable. */
+  closePoll: (pollId: number) => Promise<ContractTransactionResponse>;
+  /** Decrypt the tallies of a closed poll and publish them with the KMS proof. */
+  publishResult: (pollId: number) => Promise<ContractTransactionResponse>;
+};
+
+type RawPoll = {
+  groupId: bigint;
+  creator: string;
+  cipherText: string;
+  epoch: bigint;
+  optionCount: bigint;
+  createdAt: bigint;
+  deadline: bigint;
+  voterCount: bigint;
+  closed: boolean;
+  revealed: boolean;
+};
+
+export function createPollsClient(options: PollsClientOptions): PollsClient {
+  const { address, abi, runner, encryptOption, publicDecrypt } = options;
+  const contract = new Contract(address, abi, runner);
+
+  const getPoll = async (pollId: number): Promise<Poll> => {
+    const poll: RawPoll = await contract.getPoll(pollId);
+    const results: bigint[] = poll.revealed ? await contract.getResults(pollId) : [];
+    return {
+      id: pollId,
+      groupId: Number(poll.groupId),
+      creator: poll.creator,
+      cipherText: poll.cipherText,
+      epoch: Number(poll.epoch),
+      optionCount: Number(poll.optionCount),
+      createdAt: Number(poll.createdAt),
+      deadline: Number(poll.deadline),
+      voterCount: Number(poll.voterCount),
+      closed: poll.closed,
+      revealed: poll.revealed,
+      results: poll.revealed ? results.map(Number) : null,
+    };
+  };
+
+  return {
+    address,
+    connect: (next) => createPollsClient({ ...options, runner: next }),
+
+    pollCount: async () => Number(await contract.getPollCount()),
+    getPoll,
+    async listPolls(groupId) {
+      const ids: bigint[] = await contract.listPolls(groupId);
+      return Promise.all(ids.map((pollId) => getPoll(Number(pollId))));
+    },
+    hasVoted: (pollId, account) => contract.hasVoted(pollId, account),
+    createdPollId(receipt) {
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== address.toLowerCase()) continue;
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === "PollCreated") return Number(parsed.args.pollId);
+      }
+      throw new Error("The transaction did not create a poll");
+    },
+
+    createPoll: (groupId, cipherText, optionCount, deadline) =>
+      contract.createPoll(groupId, cipherText, optionCount, deadline),
+    async vote(pollId, option) {
+      if (!encryptOption) throw new Error("No option encryptor configured");
+      // The encrypted input is bound to the account that sends it.
+      const account = await (runner as Signer).getAddress();
+      const { handle, inputProof } = await encryptOption(address, account, option);
+      return contract.vote(pollId, handle, inputProof);
+    },
+    closePoll: (pollId) => contract.closePoll(pollId),
+    async publishResult(pollId) {
+      if (!publicDecrypt) throw new Error("No public decryptor configured");
+      const handles: string[] = [...(await contract.getTallies(pollId))];
+      const { abiEncodedClearValues, decryptionProof } = await publicDecrypt(handles);
+      return contract.publishResult(pollId, abiEncodedClearValues, decryptionProof);
+    },
+  };
+}
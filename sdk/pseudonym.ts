@@ -0,0 +1,111 @@
+import { AbiCoder, getBytes, keccak256, verifyMessage, Wallet, type Signer } from "ethers";
+import { encodePayload, type MessagePayload } from "../shared/payload";
+
+const ADJECTIVES = [
+  "Amber",
+  "Brisk",
+  "Calm",
+  "Dusky",
+  "Eager",
+  "Fuzzy",
+  "Gentle",
+  "Hidden",
+  "Ivory",
+  "Jolly",
+  "Keen",
+  "Lucky",
+  "Misty",
+  "Noble",
+  "Quiet",
+  "Rusty",
+];
+const ANIMALS = [
+  "Badger",
+  "Crane",
+  "Dolphin",
+  "Falcon",
+  "Gecko",
+  "Heron",
+  "Ibex",
+  "Jackal",
+  "Koala",
+  "Lynx",
+  "Marten",
+  "Newt",
+  "Otter",
+  "Puffin",
+  "Raven",
+  "Walrus",
+];
+
+/**
+ * What a wallet signs to derive its pseudonyms on one deployment.
+ * Wallets sign deterministically (RFC 6979), so the same wallet always gets back the same pseudonyms.
+ */
+export function pseudonymSeedMessage(chainId: number, contract: string): string {
+  return [
+    "Unlock my AnonVerse pseudonyms.",
+    "",
+    `Contract: ${contract.toLowerCase()}`,
+    `Chain: ${chainId}`,
+    "",
+    "Never share this signature: it lets anyone post under your pseudonyms.",
+  ].join("\n");
+}
+
+/** Ask a wallet for the seed of its pseudonyms on a deployment. */
+export async function pseudonymSeed(signer: Signer, chainId: number, contract: string): Promise<string> {
+  return signer.signMessage(pseudonymSeedMessage(chainId, contract));
+}
+
+/**
+ * The pseudonym of a wallet in one group, as a signing key derived from its seed.
+ * Other members can neither tell which address it belongs to nor link it to the wallet's pseudonyms in other groups.
+ */
+export function derivePseudonym(seed: string, groupId: number): Wallet {
+  return new Wallet(keccak256(AbiCoder.defaultAbiCoder().encode(["bytes", "uint256"], [seed, groupId])));
+}
+
+/** A readable name for a pseudonym address, such as "Quiet Otter #3fa2". The same address always gets the same name. */
+export function handleOf(pseudonym: string): string {
+  const hex = pseudonym.toLowerCase().replace(/^0x/, "");
+  return `${ADJECTIVES[parseInt(hex[0], 16)]} ${ANIMALS[parseInt(hex[1], 16)]} #${hex.slice(-4)}`;
+}
+
+// Object keys sorted at every level, so the same content always encodes the same way whichever order its fields
+// were written or parsed in.
+const canonical = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (!value || typeof value !== "object") return value;
+  const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return Object.fromEntries(entries.map(([key, field]) => [key, canonical(field)]));
+};
+
+// The signature covers the group so a proof cannot be moved to another room. A member can still repost a message
+// they read in the same room; it then shows twice under the original pseudonym, with the original text.
+const proofDigest = (payload: MessagePayload, groupId: number): Uint8Array => {
+  const { author: _author, ...content } = payload;
+  const encoded = JSON.stringify(canonical(JSON.parse(encodePayload(content))));
+  return getBytes(keccak256(AbiCoder.defaultAbiCoder().encode(["uint256", "string"], [groupId, encoded])));
+};
+
+/** Sign a payload as a group pseudonym, so readers can tell its anonymous messages apart from other members'. */
+export async function signAsPseudonym(
+  payload: MessagePayload,
+  groupId: number,
+  pseudonym: Wallet,
+): Promise<MessagePayload> {
+  const signature = await pseudonym.signMessage(proofDigest(payload, groupId));
+  return { ...payload, author: { pseudonym: pseudonym.address, signature } };
+}
+
+/** The pseudonym that signed a payload for this group, or null when it carries no valid proof. */
+export function verifyPseudonym(payload: MessagePayload, groupId: number): string | null {
+  if (!payload.author) return null;
+  try {
+    const signer = verifyMessage(proofDigest(payload, groupId), payload.author.signature);
+    return signer.toLowerCase() === payload.author.pseudonym.toLowerCase() ? signer : null;
+  } catch {
+    return null;
+  }
+}
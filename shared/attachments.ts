@@ -0,0 +1,45 @@
+import type { BlobStore } from "./blobStore";
+import { contentHash, decryptAttachment, encryptAttachment } from "./crypto";
+
+export type AttachmentFile = { name: string; type: string; data: Uint8Array };
+
+/** What a message stores on chain about its attachment: the hash and byte size of the encrypted blob. */
+export type AttachmentRef = { hash: string; size: number };
+
+// Plaintext layout inside the encrypted blob: [metadata length (4, big-endian)] [metadata JSON] [file bytes]
+const LENGTH_BYTES = 4;
+
+function pack({ name, type, data }: AttachmentFile): Uint8Array {
+  const metadata = new TextEncoder().encode(JSON.stringify({ name, type }));
+  const packed = new Uint8Array(LENGTH_BYTES + metadata.length + data.length);
+  new DataView(packed.buffer).setUint32(0, metadata.length);
+  packed.set(metadata, LENGTH_BYTES);
+  packed.set(data, LENGTH_BYTES + metadata.length);
+  return packed;
+}
+
+function unpack(packed: Uint8Array): AttachmentFile {
+  const length = new DataView(packed.buffer, packed.byteOffset).getUint32(0);
+  const { name, type } = JSON.parse(new TextDecoder().decode(packed.subarray(LENGTH_BYTES, LENGTH_BYTES + length)));
+  return { name, type, data: packed.slice(LENGTH_BYTES + length) };
+}
+
+/** Encrypt a file with the group key, upload it and return the reference to post on chain. */
+export async function uploadAttachment(store: BlobStore, file: AttachmentFile, key: bigint): Promise<AttachmentRef> {
+  const blob = await encryptAttachment(pack(file), key);
+  const hash = await store.put(blob);
+  return { hash, size: blob.length };
+}
+
+/**
+ * Download an attachment and check it against its on-chain reference before decrypting it.
+ * Throws when the blob is missing, does not match the referenced hash and size, or fails authentication.
+ */
+export async function downloadAttachment(store: BlobStore, ref: AttachmentRef, key: bigint): Promise<AttachmentFile> {
+  const blob = await store.get(ref.hash);
+  if (!blob) throw new Error("Attachment not found");
+  if (blob.length !== ref.size || (await contentHash(blob)) !== ref.hash.toLowerCase()) {
+    throw new Error("Attachment does not match its content hash");
+  }
+  return unpack(await decryptAttachment(blob, key));
+}
@@ -0,0 +1,46 @@
+import { contentHash } from "./crypto";
+
+/**
+ * Content addressed storage for encrypted attachments. Blobs are keyed by the SHA-256 of their bytes, which is
+ * also what messages reference on chain, so any backend can be swapped in without touching the contract.
+ */
+export type BlobStore = {
+  /** Store `data` and return its content hash. */
+  put: (data: Uint8Array) => Promise<string>;
+  /** Fetch a blob by content hash, or null when the store does not have it. */
+  get: (hash: string) => Promise<Uint8Array | null>;
+};
+
+/** Keep blobs in memory; for tests and single-tab development. */
+export function createMemoryBlobStore(): BlobStore {
+  const blobs = new Map<string, Uint8Array>();
+  return {
+    async put(data) {
+      const hash = await contentHash(data);
+      blobs.set(hash, data.slice());
+      return hash;
+    },
+    async get(hash) {
+      return blobs.get(hash.toLowerCase())?.slice() ?? null;
+    },
+  };
+}
+
+/** Talk to a blob server over HTTP: `PUT <baseUrl>/<hash>` to upload and `GET <baseUrl>/<hash>` to download. */
+export function createHttpBlobStore(baseUrl: string): BlobStore {
+  const url = (hash: string) => `${baseUrl.replace(/\/$/, "")}/${hash.toLowerCase()}`;
+  return {
+    async put(data) {
+      const hash = await contentHash(data);
+      const response = await fetch(url(hash), { method: "PUT", body: data });
+      if (!response.ok) throw new Error(`Blob upload failed with status ${response.status}`);
+      return hash;
+    },
+    async get(hash) {
+      const response = await fetch(url(hash));
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Blob download failed with status ${response.status}`);
+      return new Uint8Array(await response.arrayBuffer());
+    },
+  };
+}
@@ -0,0 +1,169 @@
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+// Legacy plaintexts were always valid UTF-8, so bytes that are not cannot be a legacy message.
+const strictDecoder = new TextDecoder("utf-8", { fatal: true });
+
+// Envelope layout: [version (1)] [salt (16)] [nonce (12)] [AES-GCM ciphertext + tag (16)]
+const ENVELOPE_VERSION = 1;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = 1 + SALT_LENGTH + NONCE_LENGTH;
+// Legacy keys were six-digit uint32 values; every key drawn since is a full 256-bit secret.
+const LEGACY_KEY_LIMIT = 1n << 32n;
+const MESSAGE_INFO = encoder.encode("AnonVerse/group-message/v1");
+const ATTACHMENT_INFO = encoder.encode("AnonVerse/attachment/v1");
+const PROFILE_INFO = encoder.encode("AnonVerse/group-profile/v1");
+const POLL_INFO = encoder.encode("AnonVerse/poll/v1");
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((val) => val.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  if (!/^(?:[0-9a-fA-F]{2})*$/.test(hex)) throw new Error("Invalid hex ciphertext");
+  const pairs = hex.match(/.{1,2}/g) ?? [];
+  return new Uint8Array(pairs.map((pair) => parseInt(pair, 16)));
+}
+
+function secretBytes(key: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  let remaining = key;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    bytes[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+  return bytes;
+}
+
+async function deriveKey(key: bigint, salt: Uint8Array, info: Uint8Array) {
+  const baseKey = await crypto.subtle.importKey("raw", secretBytes(key), "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+function isEnvelope(bytes: Uint8Array): boolean {
+  return bytes.length >= HEADER_LENGTH + TAG_LENGTH && bytes[0] === ENVELOPE_VERSION;
+}
+
+// Legacy messages were XOR-ed with the big-endian bytes of a six-digit uint32 key. The key's first byte is zero, so
+// their first byte is plain text: never a control character such as the 0x01 version byte, which envelopes own.
+function isLegacyMessage(bytes: Uint8Array, key: bigint): boolean {
+  return key < LEGACY_KEY_LIMIT && bytes.length > 0 && bytes[0] >= 0x20;
+}
+
+function decodeLegacyMessage(bytes: Uint8Array, key: bigint): string {
+  const bytesKey = secretBytes(key).slice(28);
+  const decrypted = bytes.map((byte, idx) => byte ^ bytesKey[idx % bytesKey.length]);
+  try {
+    return strictDecoder.decode(decrypted);
+  } catch {
+    throw new Error("Message authentication failed: not a legacy message under this key");
+  }
+}
+
+async function seal(plain: Uint8Array, key: bigint, info: Uint8Array): Promise<Uint8Array> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  const header = new Uint8Array(HEADER_LENGTH);
+  header[0] = ENVELOPE_VERSION;
+  header.set(salt, 1);
+  header.set(nonce, 1 + SALT_LENGTH);
+
+  const sealingKey = await deriveKey(key, salt, info);
+  const sealed = await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce, additionalData: header }, sealingKey, plain);
+
+  const envelope = new Uint8Array(HEADER_LENGTH + sealed.byteLength);
+  envelope.set(header);
+  envelope.set(new Uint8Array(sealed), HEADER_LENGTH);
+  return envelope;
+}
+
+async function open(envelope: Uint8Array, key: bigint, info: Uint8Array): Promise<Uint8Array> {
+  const header = envelope.slice(0, HEADER_LENGTH);
+  const salt = envelope.slice(1, 1 + SALT_LENGTH);
+  const nonce = envelope.slice(1 + SALT_LENGTH, HEADER_LENGTH);
+  const sealingKey = await deriveKey(key, salt, info);
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: nonce, additionalData: header },
+      sealingKey,
+      envelope.slice(HEADER_LENGTH),
+    );
+    return new Uint8Array(plain);
+  } catch {
+    throw new Error("Message authentication failed: wrong key or tampered ciphertext");
+  }
+}
+
+/**
+ * Encrypt a message with the group key into a hex encoded AES-GCM envelope.
+ * A fresh salt and nonce are drawn for every message.
+ */
+export async function encodeMessage(message: string, key: bigint): Promise<string> {
+  return toHex(await seal(encoder.encode(message), key, MESSAGE_INFO));
+}
+
+/**
+ * Decrypt a hex encoded message with the group key.
+ * Envelopes that fail authentication (wrong key or tampered bytes) throw, and so does anything else that is not
+ * a legacy XOR message under a legacy key; those are still readable.
+ */
+export async function decodeMessage(cipherHex: string, key: bigint): Promise<string> {
+  if (!cipherHex) return "";
+  const bytes = fromHex(cipherHex);
+  if (isEnvelope(bytes)) {
+    return decoder.decode(await open(bytes, key, MESSAGE_INFO));
+  }
+  if (isLegacyMessage(bytes, key)) {
+    return decodeLegacyMessage(bytes, key);
+  }
+  throw new Error("Unsupported message envelope");
+}
+
+/** Encrypt a group profile with the group key, under its own derived key so it cannot be passed off as a message. */
+export async function encodeProfile(profile: string, key: bigint): Promise<string> {
+  return toHex(await seal(encoder.encode(profile), key, PROFILE_INFO));
+}
+
+/** Decrypt a group profile; throws like `decodeMessage` when authentication fails. */
+export async function decodeProfile(cipherHex: string, key: bigint): Promise<string> {
+  const bytes = fromHex(cipherHex);
+  if (!isEnvelope(bytes)) throw new Error("Not a profile envelope");
+  return decoder.decode(await open(bytes, key, PROFILE_INFO));
+}
+
+/** Encrypt a poll's question and options with the group key, under their own derived key like profiles. */
+export async function encodePoll(poll: string, key: bigint): Promise<string> {
+  return toHex(await seal(encoder.encode(poll), key, POLL_INFO));
+}
+
+/** Decrypt a poll's question and options; throws like `decodeMessage` when authentication fails. */
+export async function decodePoll(cipherHex: string, key: bigint): Promise<string> {
+  const bytes = fromHex(cipherHex);
+  if (!isEnvelope(bytes)) throw new Error("Not a poll envelope");
+  return decoder.decode(await open(bytes, key, POLL_INFO));
+}
+
+/** Encrypt attachment bytes with the group key into the same envelope format, under a separate derived key. */
+export async function encryptAttachment(data: Uint8Array, key: bigint): Promise<Uint8Array> {
+  return seal(data, key, ATTACHMENT_INFO);
+}
+
+/** Decrypt an attachment envelope; throws like `decodeMessage` when authentication fails. */
+export async function decryptAttachment(blob: Uint8Array, key: bigint): Promise<Uint8Array> {
+  if (!isEnvelope(blob)) throw new Error("Not an attachment envelope");
+  return open(blob, key, ATTACHMENT_INFO);
+}
+
+/** SHA-256 of `data` as a 0x-prefixed hex string, the form attachments are referenced by on chain. */
+export async function contentHash(data: Uint8Array): Promise<string> {
+  return `0x${toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", data)))}`;
+}
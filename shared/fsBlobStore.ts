@@ -0,0 +1,32 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { BlobStore } from "./blobStore";
+import { contentHash } from "./crypto";
+
+const HASH_PATTERN = /^0x[0-9a-f]{64}$/;
+
+/** Keep blobs as files named by their content hash under `dir`. Node only; used by the development blob server. */
+export function createFsBlobStore(dir: string): BlobStore {
+  const file = (hash: string) => {
+    const normalized = hash.toLowerCase();
+    if (!HASH_PATTERN.test(normalized)) throw new Error(`Invalid content hash ${hash}`);
+    return path.join(dir, normalized.slice(2));
+  };
+
+  return {
+    async put(data) {
+      const hash = await contentHash(data);
+      await mkdir(dir, { recursive: true });
+      await writeFile(file(hash), data);
+      return hash;
+    },
+    async get(hash) {
+      try {
+        return new Uint8Array(await readFile(file(hash)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * A message post signed by its sender and submitted on chain by someone else, so the sender pays no gas.
+ * Mirrors the `Post` EIP-712 type of AnonVerse.sol; attachment fields are zero for plain messages.
+ */
+export type Post = {
+  sender: string;
+  groupId: number;
+  cipherText: string;
+  attachmentHash: string;
+  attachmentSize: number;
+  nonce: number;
+  deadline: number;
+};
+
+export type SignedPost = Post & { signature: string };
+
+/**
+ * A message for `postAnonymous`. It carries no signature, so the relayer cannot tell who sent it; instead `pass` is
+ * the group's posting pass encrypted for the relayer's account, as hex, and `inputProof` its proof.
+ */
+export type AnonymousPost = { groupId: number; cipherText: string; pass: string; inputProof: string };
+
+export type PostDomain = { name: string; version: string; chainId: number; verifyingContract: string };
+
+export const NO_ATTACHMENT = { attachmentHash: `0x${"0".repeat(64)}`, attachmentSize: 0 };
+
+export const POST_TYPES = {
+  Post: [
+    { name: "sender", type: "address" },
+    { name: "groupId", type: "uint256" },
+    { name: "cipherText", type: "string" },
+    { name: "attachmentHash", type: "bytes32" },
+    { name: "attachmentSize", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** The EIP-712 domain posts to the AnonVerse deployment at `verifyingContract` are signed under. */
+export const postDomain = (chainId: number, verifyingContract: string): PostDomain => ({
+  name: "AnonVerse",
+  version: "1",
+  chainId,
+  verifyingContract,
+});
+
+/** Anything that signs EIP-712 data, such as an ethers signer. */
+export type TypedDataSigner = {
+  signTypedData(domain: PostDomain, types: typeof POST_TYPES, value: Post): Promise<string>;
+};
+
+export async function signPost(signer: TypedDataSigner, domain: PostDomain, post: Post): Promise<SignedPost> {
+  return { ...post, signature: await signer.signTypedData(domain, POST_TYPES, post) };
+}
+
+/** Client of the relayer service in `relayer/`. */
+export type RelayerClient = {
+  /** The account the relayer sends from, which anonymous posts encrypt their posting pass for. */
+  account: () => Promise<string>;
+  /** The nonce the next post of `sender` has to be signed with, counting posts the relayer still has queued. */
+  nextNonce: (sender: string) => Promise<number>;
+  /** Queue a signed post and resolve with the hash of the transaction that included it. */
+  submit: (post: SignedPost) => Promise<string>;
+  /** Post anonymously from the relayer's account and resolve with the hash of the transaction that published it. */
+  submitAnonymous: (post: AnonymousPost) => Promise<string>;
+};
+
+export function createRelayerClient(baseUrl: string): RelayerClient {
+  const url = (path: string) => `${baseUrl.replace(/\/$/, "")}${path}`;
+  const read = async <T>(response: Response): Promise<T> => {
+    const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+    if (!response.ok) throw new Error(body.error ?? `Relayer request failed with status ${response.status}`);
+    return body;
+  };
+  return {
+    async account() {
+      const { account } = await read<{ account: string }>(await fetch(url("/account")));
+      return account;
+    },
+    async nextNonce(sender) {
+      const { nonce } = await read<{ nonce: number }>(await fetch(url(`/nonce/${sender}`)));
+      return nonce;
+    },
+    async submit(post) {
+      const { txHash } = await read<{ txHash: string }>(
+        await fetch(url("/posts"), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(post),
+        }),
+      );
+      return txHash;
+    },
+    async submitAnonymous(post) {
+      const { txHash } = await read<{ txHash: string }>(
+        await fetch(url("/anonymous"), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(post),
+        }),
+      );
+      return txHash;
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import type { AttachmentRef } from "./attachments";
+
+const PAYLOAD_VERSION = 1;
+
+/** Signature of the group pseudonym that wrote an anonymous message, sealed inside the message with its content. */
+export type PseudonymProof = { pseudonym: string; signature: string };
+
+/**
+ * What a message says once decrypted: plain text, a reply that quotes an earlier message of the same group, or the
+ * announcement of a poll, whose body is the question for clients that cannot show polls.
+ * Anonymous messages also carry the proof of their author's pseudonym.
+ */
+export type MessagePayload = (
+  | { type: "text"; body: string }
+  | { type: "reply"; body: string; replyTo: number }
+  | { type: "poll"; body: string; poll: number }
+) & {
+  author?: PseudonymProof;
+};
+
+const parseAuthor = (author: unknown): PseudonymProof | undefined => {
+  const { pseudonym, signature } = (author ?? {}) as Partial<PseudonymProof>;
+  return typeof pseudonym === "string" && typeof signature === "string" ? { pseudonym, signature } : undefined;
+};
+
+/** What a group profile says once decrypted. The avatar is an encrypted image in the blob store, like attachments. */
+export type GroupProfile = { name: string; description?: string; avatar?: AttachmentRef };
+
+/** Serialize a profile to the clear text that gets sealed with `encodeProfile`. */
+export function encodeGroupProfile(profile: GroupProfile): string {
+  return JSON.stringify({ v: PAYLOAD_VERSION, ...profile });
+}
+
+/** Parse a decrypted profile, dropping fields that are not well formed. Throws when there is no name. */
+export function decodeGroupProfile(clearText: string): GroupProfile {
+  const parsed = JSON.parse(clearText);
+  if (parsed?.v !== PAYLOAD_VERSION || typeof parsed.name !== "string") throw new Error("Not a group profile");
+  const { hash, size } = (parsed.avatar ?? {}) as Partial<AttachmentRef>;
+  return {
+    name: parsed.name,
+    ...(typeof parsed.description === "string" && { description: parsed.description }),
+    ...(typeof hash === "string" && Number.isInteger(size) && { avatar: { hash, size: size! } }),
+  };
+}
+
+/** What a poll asks once decrypted. Votes name an option by its index in `options`. */
+export type PollContent = { question: string; options: string[] };
+
+/** Serialize a poll to the clear text that gets sealed with `encodePoll`. */
+export function encodePollContent(poll: PollContent): string {
+  return JSON.stringify({ v: PAYLOAD_VERSION, ...poll });
+}
+
+/** Parse a decrypted poll. Throws when the question or an option is missing. */
+export function decodePollContent(clearText: string): PollContent {
+  const parsed = JSON.parse(clearText);
+  if (
+    parsed?.v !== PAYLOAD_VERSION ||
+    typeof parsed.question !== "string" ||
+    !Array.isArray(parsed.options) ||
+    !parsed.options.every((option: unknown) => typeof option === "string")
+  ) {
+    throw new Error("Not a poll");
+  }
+  return { question: parsed.question, options: parsed.options };
+}
+
+/** Serialize a payload to the clear text that gets sealed with `encodeMessage`. */
+export function encodePayload(payload: MessagePayload): string {
+  return JSON.stringify({ v: PAYLOAD_VERSION, ...payload });
+}
+
+/**
+ * Parse decrypted clear text back into a payload.
+ * Messages written before payloads existed, or anything that is not a well-formed payload, read as plain text.
+ */
+export function decodePayload(clearText: string): MessagePayload {
+  try {
+    const parsed = JSON.parse(clearText);
+    if (parsed?.v === PAYLOAD_VERSION && typeof parsed.body === "string") {
+      const author = parseAuthor(parsed.author);
+      if (parsed.type === "reply" && Number.isInteger(parsed.replyTo) && parsed.replyTo >= 0) {
+        return { type: "reply", body: parsed.body, replyTo: parsed.replyTo, ...(author && { author }) };
+      }
+      if (parsed.type === "poll" && Number.isInteger(parsed.poll) && parsed.poll >= 0) {
+        return { type: "poll", body: parsed.body, poll: parsed.poll, ...(author && { author }) };
+      }
+      if (parsed.type === "text") return { type: "text", body: parsed.body, ...(author && { author }) };
+    }
+  } catch {
+    // Not JSON, so a plain text message.
+  }
+  return { type: "text", body: clearText };
+}
@@ -1,304 +1,351 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import { Contract } from 'ethers';
-import { useAccount, usePublicClient } from 'wagmi';
-import { isAddress } from 'viem';
-import { CONTRACT_ABI, DEFAULT_CONTRACT_ADDRESS } from '../config/contracts';
+import { useEffect, useMemo, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { isAddress, zeroAddress } from 'viem';
+import { decryptPayload, encryptPayload, verifyPseudonym } from '../../../sdk';
+import { NETWORKS, networkFor } from '../config/networks';
+import { relayer } from '../config/relayer';
+import { BroadcastDialog } from './BroadcastDialog';
+import { Composer } from './Composer';
+import { CreateRoomForm } from './CreateRoomForm';
+import { DirectMessages } from './DirectMessages';
+import { HostTools } from './HostTools';
+import { JoinButton } from './JoinButton';
+import { MemberRoster } from './MemberRoster';
+import { MessageList } from './MessageList';
+import { PollCard } from './PollCard';
+import { RoomAvatar } from './RoomAvatar';
+import { RoomFilters } from './RoomFilters';
+import { useAnonVerseClient } from '../hooks/useAnonVerseClient';
+import { useAnonymousPostsClient } from '../hooks/useAnonymousPostsClient';
+import { useAnonVerseSync } from '../hooks/useAnonVerseSync';
+import { useDecryptSession } from '../hooks/useDecryptSession';
 import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useGroupKeys } from '../hooks/useGroupKeys';
+import { useGroupProfiles } from '../hooks/useGroupProfiles';
+import { useJoinGates } from '../hooks/useJoinGates';
+import { useLocalVault } from '../hooks/useLocalVault';
+import { useMembership } from '../hooks/useMembership';
+import { useMessageNotifications, usePageVisible } from '../hooks/useMessageNotifications';
+import { useMessagePages, type MessageCache } from '../hooks/useMessagePages';
+import { usePollActions } from '../hooks/usePollActions';
+import { usePollsClient } from '../hooks/usePollsClient';
+import { usePseudonyms } from '../hooks/usePseudonyms';
+import { useReadMarkers } from '../hooks/useReadMarkers';
+import { useRoomModeration } from '../hooks/useRoomModeration';
+import { useWalletAction } from '../hooks/useWalletAction';
 import { useZamaInstance } from '../hooks/useZamaInstance';
-import { decodeMessage, encodeMessage } from '../utils/crypto';
+import { DEFAULT_ROOM_QUERY, discoverRooms, type RoomQuery } from '../utils/discovery';
+import { formatTime, shortAddress } from '../utils/format';
+import { isMuted, ROLE_ADMIN, ROLE_MEMBER, ROLE_NONE, ROLE_OWNER, ROLE_READ_ONLY } from '../utils/roles';
+import { peerOf, withUpdate, type ChatMessage, type GroupMeta } from '../utils/sync';
 import '../styles/AnonVerse.css';
 
-type GroupMeta = {
-  id: number;
-  name: string;
-  creator: string;
-  createdAt: number;
-  memberCount: number;
-  messageCount: number;
-  secretHandle: string;
+// Indexed like the contract's Privacy enum.
+const PRIVACY_LABELS = ['Open', 'Approval required', 'Invite only'];
+const PRIVACY_OPEN = 0;
+
+const NO_MESSAGES: ChatMessage[] = [];
+
+// Never rejects: a message that does not decrypt is returned marked as such.
+const decryptMessage = async (message: ChatMessage, groupId: number, keys?: bigint[]): Promise<ChatMessage> => {
+  const key = keys?.[message.epoch];
+  if (key === undefined || message.deleted) return message;
+  try {
+    const payload = await decryptPayload(message.cipherText, key);
+    return {
+      ...message,
+      clearText: payload.body,
+      replyTo: payload.type === 'reply' ? payload.replyTo : undefined,
+      poll: payload.type === 'poll' ? payload.poll : undefined,
+      pseudonym: message.sender === zeroAddress ? (verifyPseudonym(payload, groupId) ?? undefined) : undefined,
+    };
+  } catch (error) {
+    console.error('Message decryption failed', error);
+    return { ...message, decryptFailed: true };
+  }
 };
 
-type ChatMessage = {
-  sender: string;
-  cipherText: string;
-  timestamp: number;
-  clearText?: string;
-};
-
-const formatTime = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+// Anonymous messages are only shown once they decrypt with the room key and carry a valid pseudonym proof.
+const isUnproven = (message: ChatMessage) =>
+  message.sender === zeroAddress &&
+  !message.deleted &&
+  (!!message.decryptFailed || (message.clearText !== undefined && !message.pseudonym));
 
 export function AnonVerseApp() {
-  const { address, isConnected } = useAccount();
-  const publicClient = usePublicClient();
+  const { address, isConnected, chainId } = useAccount();
   const signer = useEthersSigner();
-  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  // Until a wallet is connected the app reads from the first supported network.
+  const network = isConnected ? networkFor(chainId) : NETWORKS[0];
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance(network);
 
-  const [contractAddress, setContractAddress] = useState<string>(DEFAULT_CONTRACT_ADDRESS);
-  const [groups, setGroups] = useState<GroupMeta[]>([]);
+  const [contractAddress, setContractAddress] = useState<string>(network?.address ?? '');
   const [selectedGroupId, setSelectedGroupId] = useState<number | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [membership, setMembership] = useState<Record<number, boolean>>({});
-  const [decryptedKeys, setDecryptedKeys] = useState<Record<number, number>>({});
-  const [newGroupName, setNewGroupName] = useState('');
   const [newMessage, setNewMessage] = useState('');
-  const [status, setStatus] = useState<string | null>(null);
-  const [busy, setBusy] = useState(false);
-  const [loadingGroups, setLoadingGroups] = useState(false);
-  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+  const [broadcasting, setBroadcasting] = useState(false);
+  const [roomQuery, setRoomQuery] = useState<RoomQuery>(DEFAULT_ROOM_QUERY);
+
+  // Follow the wallet to the deployment of the network it switched to.
+  const registeredAddress = network?.address;
+  useEffect(() => {
+    setContractAddress(registeredAddress ?? '');
+  }, [registeredAddress]);
 
   const targetAddress = useMemo(
     () => (isAddress(contractAddress) ? (contractAddress as `0x${string}`) : null),
     [contractAddress]
   );
 
-  const loadMembership = useCallback(
-    async (groupId: number) => {
-      if (!publicClient || !targetAddress || !address) return;
-      try {
-        const joined = (await publicClient.readContract({
-          address: targetAddress,
-          abi: CONTRACT_ABI,
-          functionName: 'isMember',
-          args: [BigInt(groupId), address],
-        })) as boolean;
-        setMembership((prev) => ({ ...prev, [groupId]: joined }));
-      } catch (error) {
-        console.error('Membership check failed', error);
-      }
-    },
-    [address, publicClient, targetAddress]
+  const {
+    groups: syncedGroups,
+    messages: liveMessages,
+    updates,
+    syncedBlock,
+    syncing,
+    error: syncError,
+    resync,
+  } = useAnonVerseSync(
+    targetAddress,
+    targetAddress?.toLowerCase() === network?.address?.toLowerCase() ? network?.block : undefined
+  );
+  const {
+    unlocked: vaultUnlocked,
+    unlock: unlockVault,
+    load: loadCached,
+    update: updateCache,
+    seal: sealForChain,
+    open: openFromChain,
+    forget: forgetCache,
+  } = useLocalVault(targetAddress);
+  const messageCache = useMemo<MessageCache | null>(
+    () =>
+      vaultUnlocked
+        ? { load: loadCached, save: (groupId, messages, lastIndex) => updateCache(groupId, { messages, lastIndex }) }
+        : null,
+    [loadCached, updateCache, vaultUnlocked]
+  );
+  const { userDecrypt } = useDecryptSession(instance, targetAddress);
+  const { mine: pseudonyms, pseudonymIn } = usePseudonyms(targetAddress, address);
+  const client = useAnonVerseClient(targetAddress, userDecrypt);
+  // Transactions go through the same client, acting as the connected wallet.
+  const action = useWalletAction(client, signer);
+  const { busy, status, setStatus, run } = action;
+  // Polls are only offered on the registered deployment, whose polls contract reads roles from it.
+  const pollsAddress =
+    network?.polls && targetAddress?.toLowerCase() === network.address?.toLowerCase() ? network.polls : null;
+  const polls = usePollsClient(pollsAddress, instance);
+  const anonymousPosts = useAnonymousPostsClient(client, instance);
+  const {
+    membership,
+    joinStatus,
+    members,
+    joinRequests,
+    loadMembership,
+    loadMyGroups,
+    loadMembers,
+    loadJoinRequests,
+    ownRole,
+    ownMutedUntil,
+    joinGroup,
+    leaveGroup,
+    revealMembers,
+  } = useMembership(client, address, syncedGroups, selectedGroupId, action);
+  const { decryptedKeys, addKeys, decryptKey, unlockAll, forgetDevice } = useGroupKeys(
+    client,
+    address,
+    selectedGroupId,
+    { unlocked: vaultUnlocked, unlock: unlockVault, load: loadCached, update: updateCache, forget: forgetCache },
+    action
+  );
+  // Rooms are named after their private name wherever it is known.
+  const { profiles, groups } = useGroupProfiles(syncedGroups, decryptedKeys);
+  const { requirements, eligible } = useJoinGates(groups, client, address);
+  const moderation = useRoomModeration(action, { loadMembers, loadJoinRequests });
+  const { createPoll, votePoll, revealPoll } = usePollActions(polls, action);
+  const timeline = useMessagePages(
+    targetAddress,
+    selectedGroupId,
+    syncedBlock,
+    selectedGroupId !== null ? (liveMessages[selectedGroupId] ?? NO_MESSAGES) : NO_MESSAGES,
+    messageCache
   );
 
-  const loadMessages = useCallback(
-    async (groupId: number) => {
-      if (!publicClient || !targetAddress) return;
-      setLoadingMessages(true);
-      try {
-        const count = (await publicClient.readContract({
-          address: targetAddress,
-          abi: CONTRACT_ABI,
-          functionName: 'getMessageCount',
-          args: [BigInt(groupId)],
-        })) as bigint;
-
-        const items: ChatMessage[] = [];
-        for (let i = 0; i < Number(count); i++) {
-          const { sender, cipherText, timestamp } = (await publicClient.readContract({
-            address: targetAddress,
-            abi: CONTRACT_ABI,
-            functionName: 'getMessage',
-            args: [BigInt(groupId), BigInt(i)],
-          })) as { sender: string; cipherText: string; timestamp: bigint };
-
-          const clearKey = decryptedKeys[groupId];
-          items.push({
-            sender,
-            cipherText,
-            timestamp: Number(timestamp),
-            clearText: clearKey !== undefined ? decodeMessage(cipherText, clearKey) : undefined,
-          });
-        }
-        setMessages(items);
-      } catch (error) {
-        console.error('Failed to load messages', error);
-        setStatus('Unable to load messages right now.');
-      } finally {
-        setLoadingMessages(false);
-      }
-    },
-    [decryptedKeys, publicClient, targetAddress]
+  useEffect(() => {
+    setStatus(null);
+    setSelectedGroupId(null);
+  }, [setStatus, targetAddress]);
+
+  const joinedIds = Object.keys(membership)
+    .map(Number)
+    .filter((groupId) => membership[groupId]);
+  const {
+    markers: readMarkers,
+    markRead,
+    syncOnChain: syncReadMarkers,
+  } = useReadMarkers(
+    joinedIds,
+    { unlock: unlockVault, load: loadCached, update: updateCache, seal: sealForChain, open: openFromChain },
+    client,
+    address
   );
+  const notifications = useMessageNotifications(groups, liveMessages, membership, address);
+  const pageVisible = usePageVisible();
+
+  // The "new messages" divider sits above the first message that was unread when the room was opened.
+  const [divider, setDivider] = useState<{ groupId: number | null; firstUnread: number }>({
+    groupId: null,
+    firstUnread: 0,
+  });
+  if (divider.groupId !== selectedGroupId) {
+    setDivider({
+      groupId: selectedGroupId,
+      firstUnread: selectedGroupId !== null ? (readMarkers[selectedGroupId] ?? -1) + 1 : 0,
+    });
+  }
+
+  // Whatever reaches the open room while the tab is shown counts as read.
+  const selectedMessageCount = groups.find((group) => group.id === selectedGroupId)?.messageCount;
+  useEffect(() => {
+    if (selectedGroupId === null || !selectedMessageCount || !pageVisible) return;
+    markRead(selectedGroupId, selectedMessageCount - 1);
+  }, [markRead, pageVisible, selectedGroupId, selectedMessageCount]);
 
-  const loadGroups = useCallback(async () => {
-    if (!publicClient || !targetAddress) {
-      setGroups([]);
-      setSelectedGroupId(null);
-      return;
-    }
-    setLoadingGroups(true);
-    try {
-      const count = (await publicClient.readContract({
-        address: targetAddress,
-        abi: CONTRACT_ABI,
-        functionName: 'getGroupCount',
-      })) as bigint;
-
-      const list: GroupMeta[] = [];
-      for (let i = 0; i < Number(count); i++) {
-        const [name, creator, createdAt, memberCount, messageCount, secret] = (await publicClient.readContract({
-          address: targetAddress,
-          abi: CONTRACT_ABI,
-          functionName: 'getGroup',
-          args: [BigInt(i)],
-        })) as [string, string, bigint, bigint, bigint, string];
-
-        list.push({
-          id: i,
-          name,
-          creator,
-          createdAt: Number(createdAt),
-          memberCount: Number(memberCount),
-          messageCount: Number(messageCount),
-          secretHandle: secret,
-        });
-      }
-      setGroups(list);
-      if (list.length && (selectedGroupId === null || selectedGroupId >= list.length)) {
-        setSelectedGroupId(list[0].id);
-      }
-    } catch (error) {
-      console.error('Failed to load groups', error);
-      setStatus('Unable to load groups. Check the contract address.');
-    } finally {
-      setLoadingGroups(false);
+  useEffect(() => {
+    const firstRoom = groups.find((group) => !group.direct);
+    if (firstRoom && (selectedGroupId === null || selectedGroupId >= groups.length)) {
+      setSelectedGroupId(firstRoom.id);
     }
-  }, [publicClient, targetAddress, selectedGroupId]);
+  }, [groups, selectedGroupId]);
 
   useEffect(() => {
-    setStatus(null);
-    loadGroups();
-  }, [loadGroups, targetAddress]);
+    let cancelled = false;
+    const keys = selectedGroupId !== null ? decryptedKeys[selectedGroupId] : undefined;
+    const changes = selectedGroupId !== null ? updates[selectedGroupId] : undefined;
+    const current = timeline.messages.map((message) => withUpdate(message, changes?.[message.index]));
+    // Each message falls back to its undecrypted form on its own, so this never rejects.
+    void Promise.all(current.map((message) => decryptMessage(message, selectedGroupId!, keys))).then((items) => {
+      if (!cancelled) setMessages(items.filter((message) => !isUnproven(message)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [decryptedKeys, selectedGroupId, timeline.messages, updates]);
 
   useEffect(() => {
-    if (selectedGroupId === null) {
-      setMessages([]);
-      return;
-    }
-    loadMessages(selectedGroupId);
-    if (isConnected) {
-      loadMembership(selectedGroupId);
-    }
-  }, [isConnected, loadMessages, loadMembership, selectedGroupId]);
+    setReplyTo(null);
+    setEditing(null);
+  }, [selectedGroupId]);
+
+  const syncReadPositions = () =>
+    run('Syncing read positions...', 'Unable to sync read positions. Retry in a moment', async (writer) =>
+      (await syncReadMarkers(writer))
+        ? 'Read positions saved on chain for your other devices.'
+        : 'Read positions are already in sync.'
+    );
+
+  // Broadcasts name their sender, which rooms with hidden members refuse.
+  const canSendTo = (group: GroupMeta) =>
+    !group.hiddenMembers &&
+    !!membership[group.id] &&
+    decryptedKeys[group.id]?.[group.keyEpoch] !== undefined &&
+    ownRole(group) >= ROLE_MEMBER &&
+    !isMuted(group, address);
+
+  const broadcast = (groupIds: number[], text: string) =>
+    run(`Encrypting for ${groupIds.length} rooms and sending...`, 'Failed to broadcast the message', async (writer) => {
+      const cipherTexts = await Promise.all(
+        groupIds.map((groupId) => {
+          const group = groups.find((g) => g.id === groupId)!;
+          return encryptPayload({ type: 'text', body: text }, decryptedKeys[groupId][group.keyEpoch]);
+        })
+      );
+      await (await writer.postMessages(groupIds, cipherTexts)).wait();
+      return `Message sent to ${groupIds.length} rooms.`;
+    });
 
-  const createGroup = async () => {
-    if (!targetAddress) {
-      setStatus('Enter a valid Sepolia contract address first.');
-      return;
-    }
-    if (!newGroupName.trim()) {
-      setStatus('Give your room a name.');
-      return;
-    }
-    const signerInstance = await signer;
-    if (!signerInstance) {
-      setStatus('Connect your wallet to create a group.');
-      return;
-    }
-    setBusy(true);
-    setStatus('Creating group...');
-    try {
-      const contract = new Contract(targetAddress, CONTRACT_ABI, signerInstance);
-      const tx = await contract.createGroup(newGroupName.trim());
-      await tx.wait();
-      setNewGroupName('');
-      await loadGroups();
-    } catch (error) {
-      console.error('Create group failed', error);
-      setStatus('Failed to create group. Confirm you are on Sepolia.');
-    } finally {
-      setBusy(false);
-    }
+  const startReply = (message: ChatMessage) => {
+    setEditing(null);
+    setReplyTo(message);
   };
 
-  const joinGroup = async (groupId: number) => {
-    if (!targetAddress) return setStatus('Enter a valid contract address first.');
-    const signerInstance = await signer;
-    if (!signerInstance) return setStatus('Connect your wallet to join.');
-
-    setBusy(true);
-    setStatus(`Joining group #${groupId}...`);
-    try {
-      const contract = new Contract(targetAddress, CONTRACT_ABI, signerInstance);
-      const tx = await contract.joinGroup(groupId);
-      await tx.wait();
-      setMembership((prev) => ({ ...prev, [groupId]: true }));
-      setStatus('Joined! Decrypt the key to chat.');
-    } catch (error) {
-      console.error('Join failed', error);
-      setStatus('Could not join the group.');
-    } finally {
-      setBusy(false);
-    }
+  const startEdit = (message: ChatMessage) => {
+    setReplyTo(null);
+    setEditing(message);
+    setNewMessage(message.clearText ?? '');
   };
 
-  const decryptKey = async (group: GroupMeta) => {
-    if (!targetAddress || !instance || !address) {
-      setStatus('Connect wallet and wait for the Zama SDK to finish loading.');
-      return;
-    }
-    const signerInstance = await signer;
-    if (!signerInstance) {
-      setStatus('Wallet signer unavailable.');
-      return;
-    }
+  const cancelDraft = () => {
+    if (editing) setNewMessage('');
+    setReplyTo(null);
+    setEditing(null);
+  };
 
-    setBusy(true);
-    setStatus('Requesting key decryption...');
-    try {
-      const keypair = instance.generateKeypair();
-      const startTimestamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '5';
-      const contractAddresses = [targetAddress];
-      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
-      const signature = await signerInstance.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message
-      );
+  const finishDraft = () => {
+    setNewMessage('');
+    setReplyTo(null);
+    setEditing(null);
+  };
 
-      const result = await instance.userDecrypt(
-        [{ handle: group.secretHandle, contractAddress: targetAddress }],
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        contractAddresses,
-        address,
-        startTimestamp,
-        durationDays
-      );
+  const deleteMessage = (message: ChatMessage) => {
+    if (selectedGroupId === null) return;
+    return run('Deleting the message...', 'Failed to delete the message', async (writer) => {
+      await (await writer.deleteMessage(selectedGroupId, message.index)).wait();
+      if (editing?.index === message.index) cancelDraft();
+    });
+  };
 
-      const clearKey = Number(result[group.secretHandle]);
-      setDecryptedKeys((prev) => ({ ...prev, [group.id]: clearKey }));
-      setStatus(`Group key decrypted for ${group.name}.`);
-      await loadMessages(group.id);
-    } catch (error) {
-      console.error('Decrypt failed', error);
-      setStatus('Unable to decrypt the key. Retry in a moment.');
-    } finally {
-      setBusy(false);
-    }
+  const react = (message: ChatMessage, reaction: number) => {
+    if (selectedGroupId === null) return;
+    return run('Reacting...', 'Failed to react to the message', async (writer) => {
+      await (await writer.react(selectedGroupId, message.index, reaction)).wait();
+    });
   };
 
-  const sendMessage = async () => {
-    if (selectedGroupId === null) return setStatus('Select a group first.');
-    if (!newMessage.trim()) return setStatus('Type a message to send.');
-    if (!targetAddress) return setStatus('Enter the deployed contract address first.');
-
-    const key = decryptedKeys[selectedGroupId];
-    if (key === undefined) return setStatus('Decrypt the group key before sending.');
-
-    const signerInstance = await signer;
-    if (!signerInstance) return setStatus('Connect your wallet to send messages.');
-
-    setBusy(true);
-    setStatus('Encrypting and sending...');
-    try {
-      const cipherText = encodeMessage(newMessage, key);
-      const contract = new Contract(targetAddress, CONTRACT_ABI, signerInstance);
-      const tx = await contract.postMessage(selectedGroupId, cipherText);
-      await tx.wait();
-      setNewMessage('');
-      await loadMessages(selectedGroupId);
-    } catch (error) {
-      console.error('Send failed', error);
-      setStatus('Failed to send the message.');
-    } finally {
-      setBusy(false);
-    }
+  const startDirectMessage = (peer: string) =>
+    run('Opening the conversation...', 'Could not open the conversation', async (writer, signer) => {
+      await (await writer.startDirectMessage(peer)).wait();
+      const groupId = await writer.directConversation(await signer.getAddress(), peer);
+      if (groupId === null) throw new Error('Conversation not found after opening it');
+      await loadMembership(groupId);
+      setSelectedGroupId(groupId);
+      return 'Conversation ready. Decrypt the key to chat.';
+    });
+
+  // Only rooms whose profile is decrypted have an avatar, so the key of the profile's epoch is unlocked by then.
+  const avatarOf = (group: GroupMeta) => {
+    const avatar = profiles[group.id]?.avatar;
+    if (!avatar || !group.profile) return null;
+    return <RoomAvatar avatar={avatar} groupKey={decryptedKeys[group.id][group.profile.epoch]} />;
   };
 
+  const roomTitle = (group: GroupMeta) => {
+    if (!group.direct) return group.name;
+    return `Direct message with ${shortAddress(peerOf(group, address))}`;
+  };
+
+  const rooms = groups.filter((group) => !group.direct);
+  const unreadCount = (group: GroupMeta) =>
+    membership[group.id] ? Math.max(0, group.messageCount - 1 - (readMarkers[group.id] ?? -1)) : 0;
+  const visibleRooms = discoverRooms(rooms, roomQuery, {
+    account: address,
+    isJoined: (group) => !!membership[group.id],
+    hasUnread: (group) => unreadCount(group) > 0,
+  });
+  const conversations = groups.filter(
+    (group) => group.direct && group.participants.some((p) => p.toLowerCase() === address?.toLowerCase())
+  );
   const selectedGroup = selectedGroupId !== null ? groups.find((g) => g.id === selectedGroupId) : null;
-  const decryptedKey = selectedGroupId !== null ? decryptedKeys[selectedGroupId] : undefined;
+  const decryptedKey = selectedGroup ? decryptedKeys[selectedGroup.id]?.[selectedGroup.keyEpoch] : undefined;
+  const myRole = selectedGroup ? ownRole(selectedGroup) : ROLE_NONE;
+  // Direct conversations always have exactly their two participants, so there is no membership to manage.
+  const isAdmin = !!selectedGroup && !selectedGroup.direct && myRole >= ROLE_ADMIN;
+  const mutedUntil = selectedGroup ? ownMutedUntil(selectedGroup) : 0;
+  const muted = mutedUntil > Date.now() / 1000;
+  // Posts to rooms with hidden members are anonymous, so they need the relayer.
+  const anonymousOnly = !!selectedGroup?.hiddenMembers;
+  const canPost = myRole >= ROLE_MEMBER && !muted && (!anonymousOnly || !!relayer);
 
   return (
     <div className="anonverse">
@@ -306,87 +353,155 @@ export function AnonVerseApp() {
         <div className="panel panel--wide">
           <div className="panel__title">Contract</div>
           <p className="panel__hint">
-            Point to the Sepolia deployment of <strong>AnonVerse</strong>. ABI is bundled from the compiled contract.
+            Point to the deployment of <strong>AnonVerse</strong> on {network?.chain.name ?? 'your network'}. The address
+            follows the wallet's network; ABI is bundled from the compiled contract.
           </p>
           <div className="contract-row">
             <input
               className="input"
               value={contractAddress}
               onChange={(e) => setContractAddress(e.target.value.trim())}
-              placeholder="0x... Sepolia contract address"
+              placeholder="0x... contract address"
             />
-            <button className="ghost-button" onClick={loadGroups} disabled={!targetAddress || loadingGroups}>
+            <button className="ghost-button" onClick={resync} disabled={!targetAddress || syncing}>
               Refresh
             </button>
+            {vaultUnlocked && (
+              <button className="ghost-button" onClick={forgetDevice}>
+                Forget this device
+              </button>
+            )}
           </div>
+          {!network && (
+            <div className="pill pill--warn">
+              Unsupported network. Switch your wallet to {NETWORKS.map(({ chain }) => chain.name).join(' or ')}.
+            </div>
+          )}
+          {network && !network.address && (
+            <div className="pill pill--warn">No AnonVerse deployment is registered for {network.chain.name}.</div>
+          )}
           {!targetAddress && <div className="pill pill--warn">Waiting for a valid address</div>}
           {status && <div className="pill">{status}</div>}
+          {syncError && <div className="pill pill--warn">{syncError}</div>}
           {zamaError && <div className="pill pill--warn">{zamaError}</div>}
         </div>
 
         <div className="layout">
           <div className="panel">
-            <div className="panel__title">Create a room</div>
-            <p className="panel__hint">
-              Each room gets a fresh six-digit secret generated on-chain with Zama FHE. Members you add can decrypt it to
-              encrypt chat.
-            </p>
-            <div className="stack stack--tight">
-              <input
-                className="input"
-                value={newGroupName}
-                onChange={(e) => setNewGroupName(e.target.value)}
-                placeholder="Room name"
-              />
-              <button className="primary-button" onClick={createGroup} disabled={busy || !targetAddress}>
-                {busy ? 'Working...' : 'Launch group'}
-              </button>
-            </div>
+            <CreateRoomForm
+              groups={groups}
+              action={action}
+              ready={!!targetAddress}
+              canSeal={!!instance}
+              networkName={network?.chain.name ?? 'this network'}
+              onKeys={addKeys}
+            />
 
             <div className="panel__title" style={{ marginTop: '1.5rem' }}>
               All groups
             </div>
-            {loadingGroups ? (
+            <button
+              className="ghost-button"
+              onClick={() => unlockAll(syncedGroups, loadMyGroups)}
+              disabled={busy || !isConnected || !instance || !groups.length}
+            >
+              Unlock all my rooms
+            </button>
+            <button
+              className="ghost-button"
+              onClick={() => setBroadcasting(true)}
+              disabled={busy || !isConnected || !rooms.some(canSendTo)}
+            >
+              Broadcast to rooms
+            </button>
+            <button className="ghost-button" onClick={syncReadPositions} disabled={busy || !isConnected || !client}>
+              Sync read positions
+            </button>
+            {notifications.permission === 'default' && (
+              <button className="ghost-button" onClick={notifications.enable}>
+                Enable notifications
+              </button>
+            )}
+            {broadcasting && (
+              <BroadcastDialog
+                rooms={rooms}
+                canSendTo={canSendTo}
+                busy={busy}
+                onSend={broadcast}
+                onClose={() => setBroadcasting(false)}
+              />
+            )}
+            <RoomFilters
+              query={roomQuery}
+              onChange={setRoomQuery}
+              connected={isConnected}
+              shown={visibleRooms.length}
+              total={rooms.length}
+            />
+            {syncing ? (
               <div className="muted">Syncing on-chain data…</div>
             ) : (
               <div className="group-list">
-                {groups.map((group) => (
+                {visibleRooms.map((group) => (
                   <div
                     key={group.id}
                     className={`group-card ${selectedGroupId === group.id ? 'group-card--active' : ''}`}
                     onClick={() => setSelectedGroupId(group.id)}
                   >
                     <div className="group-card__top">
-                      <div>
-                        <div className="group-name">{group.name}</div>
-                        <div className="group-meta">
-                          #{group.id} • {group.memberCount} members • {group.messageCount} messages
+                      <div className="room-title">
+                        {avatarOf(group)}
+                        <div>
+                          <div className="group-name">
+                            {group.name}
+                            {unreadCount(group) > 0 && <span className="unread-badge">{unreadCount(group)}</span>}
+                          </div>
+                          <div className="group-meta">
+                            #{group.id} • {PRIVACY_LABELS[group.privacy]} • {group.memberCount}
+                            {group.hiddenMembers ? ' hidden' : ''} members • {group.messageCount} messages
+                            {group.lastMessageAt > 0 && ` • last ${formatTime(group.lastMessageAt)}`}
+                            {group.profile && !profiles[group.id] && ' • private name'}
+                          </div>
+                          {group.gate && (
+                            <div className={`group-gate ${eligible[group.id] === false ? 'group-gate--unmet' : ''}`}>
+                              Requires {requirements[group.id] ?? 'a token'}
+                              {eligible[group.id] === false && ' • your account does not meet it'}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <div className="pill pill--muted">{formatTime(group.createdAt)}</div>
                     </div>
                     <div className="group-card__actions">
-                      <span className="muted">Host: {group.creator.slice(0, 6)}…{group.creator.slice(-4)}</span>
+                      <span className="muted">Owner: {shortAddress(group.owner)}</span>
                       {membership[group.id] ? (
                         <span className="pill pill--ok">Joined</span>
                       ) : (
-                        <button
-                          className="ghost-button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            joinGroup(group.id);
-                          }}
+                        <JoinButton
+                          group={group}
+                          status={joinStatus[group.id]}
+                          eligible={eligible[group.id]}
                           disabled={busy || !isConnected}
-                        >
-                          Join
-                        </button>
+                          onJoin={(groupId) => joinGroup(groupId, requirements[groupId])}
+                        />
                       )}
                     </div>
                   </div>
                 ))}
-                {!groups.length && <div className="muted">No groups yet. Create the first one.</div>}
+                {!rooms.length && <div className="muted">No groups yet. Create the first one.</div>}
+                {!!rooms.length && !visibleRooms.length && <div className="muted">No rooms match these filters.</div>}
               </div>
             )}
+
+            <DirectMessages
+              conversations={conversations}
+              account={address}
+              selectedGroupId={selectedGroupId}
+              busy={busy}
+              unreadOf={unreadCount}
+              onSelect={setSelectedGroupId}
+              onStart={startDirectMessage}
+            />
           </div>
 
           <div className="panel panel--stretch">
@@ -394,10 +509,20 @@ export function AnonVerseApp() {
             {selectedGroup ? (
               <>
                 <div className="room-head">
-                  <div>
-                    <div className="group-name">{selectedGroup.name}</div>
-                    <div className="group-meta">
-                      #{selectedGroup.id} • created {formatTime(selectedGroup.createdAt)}
+                  <div className="room-title">
+                    {avatarOf(selectedGroup)}
+                    <div>
+                      <div className="group-name">{roomTitle(selectedGroup)}</div>
+                      <div className="group-meta">
+                        #{selectedGroup.id} • created {formatTime(selectedGroup.createdAt)} • key epoch{' '}
+                        {selectedGroup.keyEpoch}
+                        {selectedGroup.hiddenMembers && ' • members hidden'}
+                        {selectedGroup.anonymousPosts && ' • anonymous posts allowed'}
+                        {selectedGroup.profile && !profiles[selectedGroup.id] && ' • decrypt the key to see its name'}
+                      </div>
+                      {profiles[selectedGroup.id]?.description && (
+                        <div className="group-meta">{profiles[selectedGroup.id].description}</div>
+                      )}
                     </div>
                   </div>
                   <div className="room-actions">
@@ -409,60 +534,156 @@ export function AnonVerseApp() {
                       {decryptedKey !== undefined ? 'Key ready' : 'Decrypt key'}
                     </button>
                     {!membership[selectedGroup.id] && (
-                      <button className="ghost-button" onClick={() => joinGroup(selectedGroup.id)} disabled={busy}>
-                        Join to decrypt
+                      <JoinButton
+                        group={selectedGroup}
+                        status={joinStatus[selectedGroup.id]}
+                        eligible={eligible[selectedGroup.id]}
+                        disabled={busy}
+                        onJoin={(groupId) => joinGroup(groupId, requirements[groupId])}
+                      />
+                    )}
+                    {isAdmin && (
+                      <button
+                        className="ghost-button"
+                        onClick={() => moderation.rotateKey(selectedGroup.id)}
+                        disabled={busy}
+                      >
+                        Rotate key
+                      </button>
+                    )}
+                    {isAdmin && !anonymousOnly && (
+                      <button
+                        className="ghost-button"
+                        onClick={() => moderation.setAnonymousPosting(selectedGroup.id, !selectedGroup.anonymousPosts)}
+                        disabled={busy}
+                      >
+                        {selectedGroup.anonymousPosts ? 'Disable anonymous posts' : 'Allow anonymous posts'}
+                      </button>
+                    )}
+                    {membership[selectedGroup.id] && myRole !== ROLE_OWNER && !selectedGroup.direct && (
+                      <button className="ghost-button" onClick={() => leaveGroup(selectedGroup.id)} disabled={busy}>
+                        Leave
                       </button>
                     )}
                   </div>
                 </div>
 
+                {selectedGroup.hiddenMembers &&
+                  !members.length &&
+                  (membership[selectedGroup.id] ? (
+                    <button
+                      className="ghost-button"
+                      onClick={() => revealMembers(selectedGroup.id)}
+                      disabled={busy || zamaLoading}
+                    >
+                      Reveal the {selectedGroup.memberCount} members
+                    </button>
+                  ) : (
+                    <div className="muted">{selectedGroup.memberCount} members, hidden from non-members.</div>
+                  ))}
+                <MemberRoster
+                  group={selectedGroup}
+                  members={members}
+                  account={address}
+                  busy={busy}
+                  onRemove={(member) => moderation.removeMember(selectedGroup.id, member)}
+                  onSetRole={(member, role) => moderation.setRole(selectedGroup.id, member, role)}
+                  onTransfer={(member) => moderation.transferOwnership(selectedGroup.id, member)}
+                  onMute={(member, duration) => moderation.muteMember(selectedGroup.id, member, duration)}
+                  onUnmute={(member) => moderation.unmuteMember(selectedGroup.id, member)}
+                />
+
+                {isAdmin && selectedGroup.privacy !== PRIVACY_OPEN && (
+                  <HostTools
+                    requests={joinRequests}
+                    busy={busy}
+                    onApprove={(account) => moderation.reviewRequest(selectedGroup.id, account, true)}
+                    onReject={(account) => moderation.reviewRequest(selectedGroup.id, account, false)}
+                    onInvite={(account) => moderation.inviteMember(selectedGroup.id, account)}
+                  />
+                )}
+
                 {decryptedKey !== undefined ? (
-                  <div className="pill pill--ok">
-                    Shared key unlocked • {String(decryptedKey).padStart(6, '0')}
-                  </div>
+                  // Only the epoch is shown, never any part of the key.
+                  <div className="pill pill--ok">Room key unlocked • epoch {selectedGroup.keyEpoch}</div>
                 ) : (
                   <div className="pill pill--warn">Decrypt the room key to read and send messages.</div>
                 )}
 
-                <div className="message-list">
-                  {loadingMessages ? (
-                    <div className="muted">Loading messages…</div>
-                  ) : (
-                    messages.map((msg, idx) => (
-                      <div key={`${msg.sender}-${idx}`} className="message">
-                        <div className="message__meta">
-                          <span className="sender">{msg.sender.slice(0, 6)}…{msg.sender.slice(-4)}</span>
-                          <span className="muted">{formatTime(msg.timestamp)}</span>
-                        </div>
-                        <div className="message__body">
-                          {msg.clearText ? (
-                            <span>{msg.clearText}</span>
-                          ) : (
-                            <span className="muted">Encrypted: {msg.cipherText.slice(0, 42)}...</span>
-                          )}
-                        </div>
-                      </div>
-                    ))
-                  )}
-                  {!messages.length && !loadingMessages && (
-                    <div className="muted">No messages yet. Break the silence.</div>
-                  )}
-                </div>
+                <MessageList
+                  messages={messages}
+                  keys={decryptedKeys[selectedGroup.id]}
+                  account={address}
+                  pseudonym={pseudonyms[selectedGroup.id]}
+                  roles={selectedGroup.roles}
+                  canReact={Boolean(membership[selectedGroup.id]) && !selectedGroup.hiddenMembers && !busy}
+                  canPost={canPost && !busy}
+                  onReply={startReply}
+                  onEdit={startEdit}
+                  onDelete={deleteMessage}
+                  onReact={react}
+                  loading={syncing || timeline.loading}
+                  hasOlder={timeline.hasOlder}
+                  onLoadOlder={timeline.loadOlder}
+                  firstUnread={divider.firstUnread}
+                  renderPoll={
+                    polls
+                      ? (message) => (
+                          <PollCard
+                            pollId={message.poll!}
+                            groupId={selectedGroup.id}
+                            polls={polls}
+                            keys={decryptedKeys[selectedGroup.id]}
+                            account={address}
+                            canAct={isConnected && Boolean(membership[selectedGroup.id]) && !busy}
+                            onVote={votePoll}
+                            onReveal={revealPoll}
+                          />
+                        )
+                      : undefined
+                  }
+                />
+                {timeline.error && <div className="muted">{timeline.error}</div>}
+
+                {(replyTo || editing) && (
+                  <div className="pill pill--muted">
+                    {editing ? `Editing #${editing.index}` : `Replying to #${replyTo?.index}`}
+                    <button className="member-remove" onClick={cancelDraft} disabled={busy}>
+                      ×
+                    </button>
+                  </div>
+                )}
 
-                <div className="composer">
-                  <input
-                    className="input"
-                    placeholder={
-                      decryptedKey !== undefined ? 'Write an encrypted note…' : 'Decrypt the key before sending'
+                {canPost ? (
+                  <Composer
+                    group={selectedGroup}
+                    roomName={roomTitle(selectedGroup)}
+                    groupKey={decryptedKey}
+                    text={newMessage}
+                    onTextChange={setNewMessage}
+                    replyTo={replyTo}
+                    editing={editing}
+                    onSent={finishDraft}
+                    action={action}
+                    anonymousPosts={anonymousPosts}
+                    pseudonymIn={pseudonymIn}
+                    onCreatePoll={
+                      polls && !selectedGroup.direct && decryptedKey !== undefined
+                        ? (content, duration) => createPoll(selectedGroup, decryptedKey, content, duration)
+                        : undefined
                     }
-                    value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
-                    disabled={decryptedKey === undefined || busy}
                   />
-                  <button className="primary-button" onClick={sendMessage} disabled={busy || decryptedKey === undefined}>
-                    Send
-                  </button>
-                </div>
+                ) : myRole === ROLE_READ_ONLY ? (
+                  <div className="pill pill--muted">You are read-only in this room.</div>
+                ) : muted ? (
+                  <div className="pill pill--muted">You are muted until {formatTime(mutedUntil)}.</div>
+                ) : (
+                  myRole !== ROLE_NONE && (
+                    <div className="pill pill--muted">
+                      Posts in this room are anonymous and go through the post relayer, which is not configured.
+                    </div>
+                  )
+                )}
               </>
             ) : (
               <div className="muted">Select or create a group to see the timeline.</div>
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { downloadAttachment, type AttachmentRef } from '../../../shared/attachments';
+import { blobStore } from '../config/blobStore';
+
+type AttachmentPreviewProps = {
+  attachment: AttachmentRef;
+  groupKey?: bigint;
+};
+
+type Preview = { url: string; name: string; type: string };
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function AttachmentPreview({ attachment, groupKey }: AttachmentPreviewProps) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+    if (groupKey === undefined) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+    downloadAttachment(blobStore, attachment, groupKey)
+      .then((file) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(new Blob([file.data], { type: file.type }));
+        setPreview({ url, name: file.name, type: file.type });
+      })
+      .catch((err) => {
+        console.error('Attachment download failed', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Attachment unavailable');
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, groupKey]);
+
+  if (groupKey === undefined) {
+    return <div className="attachment muted">Encrypted attachment • {formatSize(attachment.size)}</div>;
+  }
+  if (error) {
+    return <div className="attachment muted">Attachment unavailable: {error}</div>;
+  }
+  if (!preview) {
+    return <div className="attachment muted">Loading attachment…</div>;
+  }
+  return (
+    <div className="attachment">
+      {preview.type.startsWith('image/') && <img className="attachment__image" src={preview.url} alt={preview.name} />}
+      <div className="attachment__meta">
+        <a href={preview.url} download={preview.name}>
+          {preview.name}
+        </a>
+        <span className="pill pill--ok" title={attachment.hash}>
+          Hash verified
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import type { GroupMeta } from '../utils/sync';
+
+type BroadcastDialogProps = {
+  rooms: GroupMeta[];
+  // Whether a room can be written to right now: joined, allowed to post and its latest key decrypted.
+  canSendTo: (room: GroupMeta) => boolean;
+  busy: boolean;
+  // Resolves true once the message is on chain, so the dialog can close.
+  onSend: (groupIds: number[], text: string) => Promise<boolean>;
+  onClose: () => void;
+};
+
+export function BroadcastDialog({ rooms, canSendTo, busy, onSend, onClose }: BroadcastDialogProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [text, setText] = useState('');
+
+  const toggle = (groupId: number) =>
+    setSelected((prev) => (prev.includes(groupId) ? prev.filter((id) => id !== groupId) : [...prev, groupId]));
+
+  const send = async () => {
+    if (await onSend(selected, text)) onClose();
+  };
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div className="panel dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="panel__title">Broadcast to rooms</div>
+        <p className="panel__hint">
+          The message is encrypted with each room's own key and posted to all of them in a single transaction.
+        </p>
+        <div className="dialog__rooms">
+          {rooms.map((room) => {
+            const available = canSendTo(room);
+            return (
+              <label key={room.id} className={`composer-option${available ? '' : ' muted'}`}>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(room.id)}
+                  onChange={() => toggle(room.id)}
+                  disabled={busy || !available}
+                />
+                {room.name} <span className="muted">#{room.id}</span>
+                {!available && <span className="muted">• unlock and join to post</span>}
+              </label>
+            );
+          })}
+          {!rooms.length && <div className="muted">No rooms yet.</div>}
+        </div>
+        <textarea
+          className="input"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Message for every selected room"
+          rows={3}
+        />
+        <div className="room-actions">
+          <button className="ghost-button" onClick={onClose} disabled={busy}>
+            Cancel
+          </button>
+          <button className="primary-button" onClick={send} disabled={busy || !selected.length || !text.trim()}>
+            {busy ? 'Sending...' : `Send to ${selected.length} rooms`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
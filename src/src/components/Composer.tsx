@@ -0,0 +1,212 @@
+import { useRef, useState } from 'react';
+import { hexlify } from 'ethers';
+import {
+  encryptPayload,
+  signAsPseudonym,
+  type AnonymousPostsClient,
+  type MessagePayload,
+  type PollContent,
+} from '../../../sdk';
+import { uploadAttachment, type AttachmentRef } from '../../../shared/attachments';
+import { NO_ATTACHMENT, postDomain, signPost } from '../../../shared/metaTx';
+import { blobStore, MAX_ATTACHMENT_BYTES } from '../config/blobStore';
+import { relayer, RELAYED_POST_TTL } from '../config/relayer';
+import type { usePseudonyms } from '../hooks/usePseudonyms';
+import type { WalletAction } from '../hooks/useWalletAction';
+import type { ChatMessage, GroupMeta } from '../utils/sync';
+import { PollComposer } from './PollComposer';
+
+type ComposerProps = {
+  group: GroupMeta;
+  roomName: string;
+  // The key of the group's current epoch, once decrypted.
+  groupKey: bigint | undefined;
+  text: string;
+  onTextChange: (text: string) => void;
+  replyTo: ChatMessage | null;
+  editing: ChatMessage | null;
+  // Called once the message is sent, to clear the draft.
+  onSent: () => void;
+  action: WalletAction;
+  anonymousPosts: AnonymousPostsClient | null;
+  pseudonymIn: ReturnType<typeof usePseudonyms>['pseudonymIn'];
+  // Missing where polls cannot be opened.
+  onCreatePoll?: (content: PollContent, duration: number) => Promise<boolean>;
+};
+
+export function Composer({
+  group,
+  roomName,
+  groupKey,
+  text,
+  onTextChange,
+  replyTo,
+  editing,
+  onSent,
+  action,
+  anonymousPosts,
+  pseudonymIn,
+  onCreatePoll,
+}: ComposerProps) {
+  const { busy, run, setStatus } = action;
+  const [attachment, setAttachment] = useState<File | null>(null);
+  // Send new posts through the relayer, signing them instead of paying for a transaction.
+  const [viaRelayer, setViaRelayer] = useState(relayer !== null);
+  // Post under the wallet's pseudonym in rooms that allow it; such posts always go through the relayer.
+  const [postAnonymously, setPostAnonymously] = useState(false);
+  const [composingPoll, setComposingPoll] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Posts to rooms with hidden members are anonymous, so they need the relayer.
+  const anonymousOnly = group.hiddenMembers;
+  // Edits always go straight to the contract; only new posts can be relayed or anonymous.
+  const anonymous = !!relayer && (postAnonymously || anonymousOnly) && group.anonymousPosts && !editing;
+  const locked = groupKey === undefined;
+
+  const sendMessage = async () => {
+    if (!text.trim() && !attachment) return setStatus('Type a message to send.');
+    if (groupKey === undefined) return setStatus('Decrypt the latest group key before sending.');
+    if (anonymous && attachment) return setStatus('Attachments cannot be posted anonymously.');
+
+    const sent = await run('Encrypting and sending...', 'Failed to send the message', async (writer, signer) => {
+      // An edit keeps the reply it was written as.
+      const quoted = editing ? editing.replyTo : replyTo?.index;
+      let payload: MessagePayload =
+        quoted !== undefined ? { type: 'reply', body: text, replyTo: quoted } : { type: 'text', body: text };
+      if (anonymous) {
+        setStatus('Sign once to unlock your pseudonyms...');
+        payload = await signAsPseudonym(payload, group.id, await pseudonymIn(signer, group.id));
+      }
+      const cipherText = await encryptPayload(payload, groupKey);
+      let ref: AttachmentRef | null = null;
+      if (attachment && !editing) {
+        setStatus('Encrypting and uploading the attachment...');
+        const data = new Uint8Array(await attachment.arrayBuffer());
+        ref = await uploadAttachment(blobStore, { name: attachment.name, type: attachment.type, data }, groupKey);
+      }
+
+      if (relayer && anonymous) {
+        if (!anonymousPosts) throw new Error('Anonymous posts contract not found');
+        setStatus('Unlocking the room posting pass...');
+        const pass = await writer.unlockPostingPass(group.id);
+        // The pass is encrypted for the relayer, which submits the post from its own account.
+        const { handle, inputProof } = await anonymousPosts.encryptPass(pass, await relayer.account());
+        setStatus('Waiting for the relayer to post the message...');
+        await relayer.submitAnonymous({
+          groupId: group.id,
+          cipherText,
+          pass: hexlify(handle),
+          inputProof: hexlify(inputProof),
+        });
+      } else if (relayer && viaRelayer && !editing) {
+        setStatus('Sign the message for the relayer...');
+        const sender = await signer.getAddress();
+        const { chainId } = await signer.provider.getNetwork();
+        const post = await signPost(signer, postDomain(Number(chainId), writer.address), {
+          sender,
+          groupId: group.id,
+          cipherText,
+          ...(ref ? { attachmentHash: ref.hash, attachmentSize: ref.size } : NO_ATTACHMENT),
+          nonce: await relayer.nextNonce(sender),
+          deadline: Math.floor(Date.now() / 1000) + RELAYED_POST_TTL,
+        });
+        setStatus('Waiting for the relayer to post the message...');
+        await relayer.submit(post);
+      } else {
+        const tx = editing
+          ? await writer.editMessage(group.id, editing.index, cipherText)
+          : await writer.postMessage(group.id, cipherText, ref ?? undefined);
+        await tx.wait();
+      }
+    });
+    if (sent) {
+      if (!editing) setAttachment(null);
+      onSent();
+    }
+  };
+
+  const pickAttachment = (file: File | undefined) => {
+    if (fileInput.current) fileInput.current.value = '';
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      setStatus(`Attachments are limited to ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
+    setAttachment(file);
+  };
+
+  return (
+    <>
+      <div className="composer">
+        <input
+          className="input"
+          placeholder={locked ? 'Decrypt the key before sending' : 'Write an encrypted note…'}
+          value={text}
+          onChange={(e) => onTextChange(e.target.value)}
+          disabled={locked || busy}
+        />
+        <input ref={fileInput} type="file" hidden onChange={(e) => pickAttachment(e.target.files?.[0])} />
+        <button
+          className="ghost-button"
+          onClick={() => fileInput.current?.click()}
+          disabled={locked || busy || editing !== null || anonymousOnly}
+          title="Attach an encrypted file"
+        >
+          Attach
+        </button>
+        {onCreatePoll && !anonymousOnly && (
+          <button
+            className="ghost-button"
+            onClick={() => setComposingPoll(true)}
+            disabled={locked || busy || editing !== null}
+            title="Open an encrypted poll"
+          >
+            Poll
+          </button>
+        )}
+        <button className="primary-button" onClick={sendMessage} disabled={busy || locked}>
+          {editing ? 'Save' : 'Send'}
+        </button>
+      </div>
+      {relayer && !anonymousOnly && (
+        <label className="composer-option">
+          <input
+            type="checkbox"
+            checked={viaRelayer}
+            onChange={(e) => setViaRelayer(e.target.checked)}
+            disabled={busy}
+          />
+          Gasless: sign messages and let the relayer post them
+        </label>
+      )}
+      {relayer && group.anonymousPosts && !anonymousOnly && !editing && (
+        <label className="composer-option">
+          <input
+            type="checkbox"
+            checked={postAnonymously}
+            onChange={(e) => setPostAnonymously(e.target.checked)}
+            disabled={busy}
+          />
+          Anonymous: post under your pseudonym in this room, without your address
+        </label>
+      )}
+      {composingPoll && onCreatePoll && (
+        <PollComposer
+          roomName={roomName}
+          busy={busy}
+          onCreate={onCreatePoll}
+          onClose={() => setComposingPoll(false)}
+        />
+      )}
+      {/* Edits keep the attachment of the message they change, so a picked file waits for the next post. */}
+      {attachment && !editing && (
+        <div className="pill pill--muted">
+          {attachment.name}
+          <button className="member-remove" onClick={() => setAttachment(null)} disabled={busy}>
+            ×
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
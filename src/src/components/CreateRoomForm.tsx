@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import type { JsonRpcSigner } from 'ethers';
+import { isAddress, zeroAddress } from 'viem';
+import { encryptProfile, GateKind, tokenGate, type AnonVerseClient, type Gate, type Privacy } from '../../../sdk';
+import { uploadAttachment, type AttachmentRef } from '../../../shared/attachments';
+import { blobStore, MAX_ATTACHMENT_BYTES } from '../config/blobStore';
+import type { WalletAction } from '../hooks/useWalletAction';
+import type { GroupMeta } from '../utils/sync';
+
+// Indexed like the contract's Privacy enum.
+const PRIVACY_LABELS = ['Open', 'Approval required', 'Invite only'];
+const PRIVACY_OPEN = 0;
+const PRIVACY_APPROVAL = 1;
+// Indexed like the contract's GateKind enum.
+const GATE_LABELS = ['No join gate', 'Hold an ERC-20 balance', 'Hold an ERC-721 NFT', 'Be a member of another group'];
+
+type CreateRoomFormProps = {
+  groups: GroupMeta[];
+  action: WalletAction;
+  // False until a valid contract address is entered.
+  ready: boolean;
+  // False until the Zama SDK is loaded, which decrypting the new room key takes.
+  canSeal: boolean;
+  networkName: string;
+  // Receives the keys of a room decrypted to seal its private name.
+  onKeys: (keys: Record<number, bigint[]>) => void;
+};
+
+export function CreateRoomForm({ groups, action, ready, canSeal, networkName, onKeys }: CreateRoomFormProps) {
+  const { busy, run, setStatus } = action;
+  const [name, setName] = useState('');
+  const [privacy, setPrivacy] = useState(PRIVACY_OPEN);
+  const [hidden, setHidden] = useState(false);
+  // A private name, description and avatar are sealed with the room key; only the hint, if any, is public.
+  const [sealed, setSealed] = useState(false);
+  const [hint, setHint] = useState('');
+  const [description, setDescription] = useState('');
+  const [avatar, setAvatar] = useState<File | null>(null);
+  // Joining a gated room asks for a token balance, NFTs or membership of another room, checked by the contract.
+  const [gateKind, setGateKind] = useState<GateKind>(GateKind.None);
+  const [gateTarget, setGateTarget] = useState('');
+  const [gateMin, setGateMin] = useState('1');
+
+  // Token amounts are entered in whole tokens and converted with the token's decimals.
+  const gateOf = async (signer: JsonRpcSigner): Promise<Gate | undefined> => {
+    const target = gateTarget.trim();
+    if (gateKind === GateKind.None) return undefined;
+    if (gateKind === GateKind.Group) {
+      const gatingGroup = groups.find((group) => String(group.id) === target.replace(/^#/, ''));
+      if (!gatingGroup || gatingGroup.direct) throw new Error('Pick an existing room to admit its members.');
+      // Checking the gate would tell anyone who is in the gating room.
+      if (gatingGroup.hiddenMembers) throw new Error('Rooms with hidden members cannot gate other rooms.');
+      return { kind: GateKind.Group, token: zeroAddress, threshold: BigInt(gatingGroup.id) };
+    }
+    if (!isAddress(target)) throw new Error('Enter the address of the gating token contract.');
+    if (!(Number(gateMin) > 0)) throw new Error('The minimum amount has to be more than zero.');
+    return tokenGate(gateKind, target, gateMin.trim(), signer);
+  };
+
+  // The room key is drawn when the room is created, so a private name can only be sealed in a second transaction.
+  const sealProfile = async (writer: AnonVerseClient, groupId: number) => {
+    setStatus('Decrypting the new room key to seal its name...');
+    const keys = await writer.unlockKeys([groupId]);
+    onKeys(keys);
+    const [key] = keys[groupId];
+
+    let image: AttachmentRef | undefined;
+    if (avatar) {
+      setStatus('Encrypting and uploading the avatar...');
+      const data = new Uint8Array(await avatar.arrayBuffer());
+      image = await uploadAttachment(blobStore, { name: avatar.name, type: avatar.type, data }, key);
+    }
+    const about = description.trim();
+    const profile = { name: name.trim(), ...(about && { description: about }), ...(image && { avatar: image }) };
+    setStatus('Sealing the room name...');
+    await (await writer.setProfile(groupId, await encryptProfile(profile, key))).wait();
+  };
+
+  const reset = () => {
+    setName('');
+    setHidden(false);
+    setSealed(false);
+    setHint('');
+    setDescription('');
+    setAvatar(null);
+    setGateKind(GateKind.None);
+    setGateTarget('');
+    setGateMin('1');
+  };
+
+  const createGroup = async () => {
+    if (!name.trim()) return setStatus('Give your room a name.');
+    if (sealed && !canSeal) return setStatus('Wait for the Zama SDK to finish loading to seal the room name.');
+
+    await run(
+      'Creating group...',
+      `Failed to create group. Confirm AnonVerse is deployed on ${networkName}`,
+      async (writer, signer) => {
+        let gate: Gate | undefined;
+        try {
+          gate = await gateOf(signer);
+        } catch (error) {
+          console.error('Invalid join gate', error);
+          return error instanceof Error ? error.message : 'Check the join gate settings.';
+        }
+        const tx = await writer.createGroup(sealed ? hint.trim() : name.trim(), privacy as Privacy, {
+          hiddenMembers: hidden,
+          gate,
+        });
+        const groupId = writer.createdGroupId((await tx.wait())!);
+        if (sealed) {
+          try {
+            await sealProfile(writer, groupId);
+          } catch (error) {
+            console.error('Sealing the room name failed', error);
+            return `Group #${groupId} was created, but its name could not be sealed.`;
+          }
+        }
+        reset();
+        return 'Group created. It will appear in the list shortly.';
+      }
+    );
+  };
+
+  const pickAvatar = (file: File | undefined) => {
+    if (file && file.size > MAX_ATTACHMENT_BYTES) {
+      setStatus(`Avatars are limited to ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
+    setAvatar(file ?? null);
+  };
+
+  return (
+    <>
+      <div className="panel__title">Create a room</div>
+      <p className="panel__hint">
+        Each room gets a fresh 256-bit secret generated on-chain with Zama FHE. Members you add can decrypt it to
+        encrypt chat.
+      </p>
+      <div className="stack stack--tight">
+        <input className="input" value={name} onChange={(e) => setName(e.target.value)} placeholder="Room name" />
+        <select className="input" value={privacy} onChange={(e) => setPrivacy(Number(e.target.value))}>
+          {PRIVACY_LABELS.map((label, idx) => (
+            // Join requests would list the requesters, so rooms with hidden members do not take them.
+            <option key={label} value={idx} disabled={hidden && idx === PRIVACY_APPROVAL}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <label className="composer-option">
+          <input
+            type="checkbox"
+            checked={hidden}
+            onChange={(e) => {
+              setHidden(e.target.checked);
+              if (e.target.checked && privacy === PRIVACY_APPROVAL) setPrivacy(PRIVACY_OPEN);
+            }}
+            disabled={busy}
+          />
+          Hide members: only members can see who else is in the room, and everyone posts anonymously
+        </label>
+        <label className="composer-option">
+          <input type="checkbox" checked={sealed} onChange={(e) => setSealed(e.target.checked)} disabled={busy} />
+          Private name: seal the name, description and avatar with the room key
+        </label>
+        <select
+          className="input"
+          value={gateKind}
+          onChange={(e) => setGateKind(Number(e.target.value) as GateKind)}
+          disabled={busy}
+        >
+          {GATE_LABELS.map((label, idx) => (
+            <option key={label} value={idx}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {gateKind !== GateKind.None && (
+          <input
+            className="input"
+            value={gateTarget}
+            onChange={(e) => setGateTarget(e.target.value)}
+            placeholder={gateKind === GateKind.Group ? 'Room id, e.g. #3' : 'Token contract address'}
+          />
+        )}
+        {(gateKind === GateKind.ERC20 || gateKind === GateKind.ERC721) && (
+          <input
+            className="input"
+            value={gateMin}
+            onChange={(e) => setGateMin(e.target.value)}
+            placeholder={gateKind === GateKind.ERC20 ? 'Minimum balance, in tokens' : 'Minimum NFTs held'}
+          />
+        )}
+        {sealed && (
+          <>
+            <input
+              className="input"
+              value={hint}
+              onChange={(e) => setHint(e.target.value)}
+              placeholder="Public hint for outsiders (optional)"
+            />
+            <input
+              className="input"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+            />
+            <label className="composer-option">
+              Avatar
+              <input type="file" accept="image/*" onChange={(e) => pickAvatar(e.target.files?.[0])} />
+            </label>
+          </>
+        )}
+        <button className="primary-button" onClick={createGroup} disabled={busy || !ready}>
+          {busy ? 'Working...' : 'Launch group'}
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { isAddress } from 'viem';
+import { peerOf, type GroupMeta } from '../utils/sync';
+
+type DirectMessagesProps = {
+  conversations: GroupMeta[];
+  account: string | undefined;
+  selectedGroupId: number | null;
+  busy: boolean;
+  unreadOf: (group: GroupMeta) => number;
+  onSelect: (groupId: number) => void;
+  onStart: (peer: string) => void;
+};
+
+export function DirectMessages({
+  conversations,
+  account,
+  selectedGroupId,
+  busy,
+  unreadOf,
+  onSelect,
+  onStart,
+}: DirectMessagesProps) {
+  const [peer, setPeer] = useState('');
+
+  const submitPeer = () => {
+    onStart(peer.trim());
+    setPeer('');
+  };
+
+  const peerValid = isAddress(peer.trim()) && peer.trim().toLowerCase() !== account?.toLowerCase();
+
+  return (
+    <>
+      <div className="panel__title" style={{ marginTop: '1.5rem' }}>
+        Direct messages
+      </div>
+      <div className="composer">
+        <input
+          className="input"
+          value={peer}
+          onChange={(e) => setPeer(e.target.value)}
+          placeholder="0x... address to message"
+        />
+        <button className="ghost-button" onClick={submitPeer} disabled={busy || !account || !peerValid}>
+          Message
+        </button>
+      </div>
+      <div className="group-list">
+        {conversations.map((group) => {
+          const other = peerOf(group, account);
+          return (
+            <div
+              key={group.id}
+              className={`group-card ${selectedGroupId === group.id ? 'group-card--active' : ''}`}
+              onClick={() => onSelect(group.id)}
+            >
+              <div className="group-card__top">
+                <div>
+                  <div className="group-name">
+                    {other.slice(0, 6)}…{other.slice(-4)}
+                    {unreadOf(group) > 0 && <span className="unread-badge">{unreadOf(group)}</span>}
+                  </div>
+                  <div className="group-meta">
+                    #{group.id} • {group.messageCount} messages
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {!conversations.length && <div className="muted">No direct messages yet.</div>}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { isAddress } from 'viem';
+
+type HostToolsProps = {
+  requests: string[];
+  busy: boolean;
+  onApprove: (account: string) => void;
+  onReject: (account: string) => void;
+  onInvite: (account: string) => void;
+};
+
+export function HostTools({ requests, busy, onApprove, onReject, onInvite }: HostToolsProps) {
+  const [invitee, setInvitee] = useState('');
+
+  const submitInvite = () => {
+    onInvite(invitee.trim());
+    setInvitee('');
+  };
+
+  return (
+    <div className="host-tools">
+      <div className="host-tools__title">Join requests</div>
+      {requests.length ? (
+        requests.map((account) => (
+          <div key={account} className="host-tools__row">
+            <span className="sender">
+              {account.slice(0, 6)}…{account.slice(-4)}
+            </span>
+            <div className="room-actions">
+              <button className="ghost-button" onClick={() => onApprove(account)} disabled={busy}>
+                Approve
+              </button>
+              <button className="ghost-button" onClick={() => onReject(account)} disabled={busy}>
+                Reject
+              </button>
+            </div>
+          </div>
+        ))
+      ) : (
+        <div className="muted">No pending requests.</div>
+      )}
+
+      <div className="host-tools__title">Invite a member</div>
+      <div className="composer">
+        <input
+          className="input"
+          value={invitee}
+          onChange={(e) => setInvitee(e.target.value)}
+          placeholder="0x... address to invite"
+        />
+        <button className="ghost-button" onClick={submitInvite} disabled={busy || !isAddress(invitee.trim())}>
+          Invite
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { GroupMeta } from '../utils/sync';
+
+// Indexed like the contract's Privacy enum.
+const PRIVACY_APPROVAL = 1;
+const PRIVACY_INVITE_ONLY = 2;
+
+const labelOf = (group: GroupMeta, status: JoinButtonProps['status'], eligible: boolean | undefined) => {
+  if (status === 'pending') return 'Requested';
+  if (eligible === false) return 'Not eligible';
+  if (status === 'invited') return 'Accept invite';
+  if (group.privacy === PRIVACY_APPROVAL) return 'Request to join';
+  if (group.privacy === PRIVACY_INVITE_ONLY) return 'Invite only';
+  return 'Join';
+};
+
+type JoinButtonProps = {
+  group: GroupMeta;
+  status: 'pending' | 'invited' | undefined;
+  // False when the account is known not to meet the group's join gate.
+  eligible: boolean | undefined;
+  disabled: boolean;
+  onJoin: (groupId: number) => Promise<unknown>;
+};
+
+export function JoinButton({ group, status, eligible, disabled, onJoin }: JoinButtonProps) {
+  // Invitations are gated too: the contract checks the gate whenever an account joins.
+  const canJoin =
+    eligible !== false &&
+    (status === 'invited' || (status !== 'pending' && group.privacy !== PRIVACY_INVITE_ONLY));
+
+  return (
+    <button
+      className="ghost-button"
+      onClick={(e) => {
+        // Room cards select their room on click; joining should not.
+        e.stopPropagation();
+        // Joining reports failures in the status line, so this never rejects.
+        void onJoin(group.id);
+      }}
+      disabled={disabled || !canJoin}
+    >
+      {labelOf(group, status, eligible)}
+    </button>
+  );
+}
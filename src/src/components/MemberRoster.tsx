@@ -0,0 +1,99 @@
+import {
+  isMuted,
+  memberRoleOf,
+  roleOf,
+  ROLE_ADMIN,
+  ROLE_LABELS,
+  ROLE_MEMBER,
+  ROLE_MODERATOR,
+  ROLE_OWNER,
+  ROLE_READ_ONLY,
+} from '../utils/roles';
+import type { GroupMeta } from '../utils/sync';
+
+// How long the mute button silences a member, in seconds.
+const MUTE_DURATION = 60 * 60;
+
+// Roles that can be assigned directly; ownership moves with a transfer instead.
+const ASSIGNABLE_ROLES = [ROLE_READ_ONLY, ROLE_MEMBER, ROLE_MODERATOR, ROLE_ADMIN];
+
+type MemberRosterProps = {
+  group: GroupMeta;
+  members: string[];
+  account?: string;
+  busy: boolean;
+  onRemove: (member: string) => void;
+  onSetRole: (member: string, role: number) => void;
+  onTransfer: (member: string) => void;
+  onMute: (member: string, duration: number) => void;
+  onUnmute: (member: string) => void;
+};
+
+export function MemberRoster({
+  group,
+  members,
+  account,
+  busy,
+  onRemove,
+  onSetRole,
+  onTransfer,
+  onMute,
+  onUnmute,
+}: MemberRosterProps) {
+  const myRole = roleOf(group, account);
+
+  return (
+    <div className="member-list">
+      {members.map((member) => {
+        const role = memberRoleOf(group, member);
+        // Every action on a member needs a role above theirs; direct conversations have nothing to manage.
+        const outranks = !group.direct && myRole > role;
+        const muted = isMuted(group, member);
+        const choose = (value: number) => (value === ROLE_OWNER ? onTransfer(member) : onSetRole(member, value));
+        return (
+          <span key={member} className="pill pill--muted">
+            {member.slice(0, 6)}…{member.slice(-4)}
+            {role !== ROLE_MEMBER && <span className={`role-badge role-badge--${role}`}>{ROLE_LABELS[role]}</span>}
+            {muted && <span className="role-badge">Muted</span>}
+            {outranks && myRole >= ROLE_ADMIN && (
+              <select
+                className="member-role"
+                value={role}
+                onChange={(e) => choose(Number(e.target.value))}
+                disabled={busy}
+                title="Change role"
+              >
+                {ASSIGNABLE_ROLES.filter((value) => value < myRole).map((value) => (
+                  <option key={value} value={value}>
+                    {ROLE_LABELS[value]}
+                  </option>
+                ))}
+                {myRole === ROLE_OWNER && <option value={ROLE_OWNER}>Owner (transfer)</option>}
+              </select>
+            )}
+            {outranks && myRole >= ROLE_MODERATOR && (
+              <button
+                className="member-remove"
+                onClick={() => (muted ? onUnmute(member) : onMute(member, MUTE_DURATION))}
+                disabled={busy}
+                title={muted ? 'Lift the mute' : 'Mute for an hour'}
+              >
+                {muted ? '🔊' : '🔇'}
+              </button>
+            )}
+            {outranks && myRole >= ROLE_ADMIN && (
+              <button
+                className="member-remove"
+                onClick={() => onRemove(member)}
+                disabled={busy}
+                title="Remove member and rotate the key"
+              >
+                ×
+              </button>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
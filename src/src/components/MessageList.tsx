@@ -0,0 +1,193 @@
+import { useLayoutEffect, useRef, type ReactNode } from 'react';
+import { zeroAddress } from 'viem';
+import { handleOf } from '../../../sdk';
+import { AttachmentPreview } from './AttachmentPreview';
+import { formatTime } from '../utils/format';
+import { ROLE_LABELS, ROLE_MEMBER } from '../utils/roles';
+import type { ChatMessage } from '../utils/sync';
+
+// Older pages are requested once the list is scrolled within this many pixels of the top.
+const LOAD_OLDER_THRESHOLD_PX = 48;
+// Indexed like the reaction kinds the contract accepts (REACTION_KINDS).
+const REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Anonymous messages show the handle of the pseudonym that signed them instead of an address.
+const authorOf = (message: ChatMessage) =>
+  message.sender !== zeroAddress
+    ? shortAddress(message.sender)
+    : message.pseudonym
+      ? handleOf(message.pseudonym)
+      : 'Anonymous';
+
+type MessageListProps = {
+  messages: ChatMessage[];
+  // Group keys indexed by epoch, used to open attachments.
+  keys?: bigint[];
+  account?: string;
+  // The viewer's own pseudonym in this group, once unlocked, to recognise their anonymous messages.
+  pseudonym?: string;
+  // Roles keyed by lowercase address, shown as badges next to senders.
+  roles: Record<string, number>;
+  // Whether the viewer may react to and delete messages, and whether they may write (reply or edit) right now.
+  canReact: boolean;
+  canPost: boolean;
+  loading: boolean;
+  hasOlder: boolean;
+  onLoadOlder: () => void;
+  // Index of the first message that was unread when the room was opened; a divider is drawn above it.
+  firstUnread?: number;
+  onReply: (message: ChatMessage) => void;
+  onEdit: (message: ChatMessage) => void;
+  onDelete: (message: ChatMessage) => void;
+  onReact: (message: ChatMessage, reaction: number) => void;
+  // Card shown in place of the text of messages announcing a poll, when polls are available.
+  renderPoll?: (message: ChatMessage) => ReactNode;
+};
+
+export function MessageList({
+  messages,
+  keys,
+  account,
+  pseudonym,
+  roles,
+  canReact,
+  canPost,
+  loading,
+  hasOlder,
+  onLoadOlder,
+  firstUnread,
+  onReply,
+  onEdit,
+  onDelete,
+  onReact,
+  renderPoll,
+}: MessageListProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const previous = useRef({ firstIndex: -1, lastIndex: -1, scrollHeight: 0, scrollTop: 0 });
+
+  // Keep the viewport anchored when an older page is prepended, and follow the bottom for new messages.
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const firstIndex = messages[0]?.index ?? -1;
+    const lastIndex = messages[messages.length - 1]?.index ?? -1;
+    const last = previous.current;
+
+    if (last.firstIndex !== -1 && firstIndex < last.firstIndex && lastIndex === last.lastIndex) {
+      list.scrollTop = list.scrollHeight - last.scrollHeight + last.scrollTop;
+    } else if (lastIndex !== last.lastIndex) {
+      list.scrollTop = list.scrollHeight;
+    }
+    previous.current = { firstIndex, lastIndex, scrollHeight: list.scrollHeight, scrollTop: list.scrollTop };
+  }, [messages]);
+
+  const onScroll = () => {
+    const list = listRef.current;
+    if (!list) return;
+    previous.current = { ...previous.current, scrollHeight: list.scrollHeight, scrollTop: list.scrollTop };
+    if (hasOlder && !loading && list.scrollTop <= LOAD_OLDER_THRESHOLD_PX) onLoadOlder();
+  };
+
+  const byIndex = new Map(messages.map((message) => [message.index, message]));
+  const isOwn = (address: string) => account !== undefined && address.toLowerCase() === account.toLowerCase();
+
+  return (
+    <div className="message-list" ref={listRef} onScroll={onScroll}>
+      {loading && <div className="muted">Loading messages…</div>}
+      {!loading && hasOlder && (
+        <button className="ghost-button message-list__older" onClick={onLoadOlder}>
+          Load older messages
+        </button>
+      )}
+      {messages.map((msg) => {
+        const quoted = msg.replyTo !== undefined ? byIndex.get(msg.replyTo) : undefined;
+        const own = isOwn(msg.sender);
+        const anonymous = msg.sender === zeroAddress;
+        const role = roles[msg.sender.toLowerCase()];
+        // Nothing is marked when the whole history is new.
+        const firstNew = !!firstUnread && msg.index === firstUnread;
+        return (
+          <div key={msg.index} className={`message${firstNew ? ' message--first-unread' : ''}`}>
+            <div className="message__meta">
+              <span className={`sender${anonymous ? ' sender--anonymous' : ''}`}>
+                {authorOf(msg)}
+                {anonymous && pseudonym && msg.pseudonym === pseudonym && ' (you)'}
+                {role !== undefined && role !== ROLE_MEMBER && (
+                  <span className={`role-badge role-badge--${role}`}>{ROLE_LABELS[role]}</span>
+                )}
+              </span>
+              <span className="muted">
+                {formatTime(msg.timestamp)}
+                {msg.edited && !msg.deleted && ' • edited'}
+              </span>
+            </div>
+            {msg.replyTo !== undefined && (
+              <div className="message__quote">
+                {quoted ? (
+                  <>
+                    <span className="sender">{authorOf(quoted)}</span>{' '}
+                    {quoted.deleted ? 'Message deleted' : (quoted.clearText ?? 'Encrypted message')}
+                  </>
+                ) : (
+                  `Reply to #${msg.replyTo}`
+                )}
+              </div>
+            )}
+            <div className="message__body">
+              {msg.deleted ? (
+                <span className="muted">Message deleted</span>
+              ) : msg.poll !== undefined && renderPoll ? (
+                renderPoll(msg)
+              ) : msg.clearText ? (
+                <span>{msg.clearText}</span>
+              ) : msg.decryptFailed ? (
+                <span className="muted">Unable to decrypt: wrong key or tampered message.</span>
+              ) : (
+                <span className="muted">Encrypted: {msg.cipherText.slice(0, 42)}...</span>
+              )}
+            </div>
+            {msg.attachment && <AttachmentPreview attachment={msg.attachment} groupKey={keys?.[msg.epoch]} />}
+            {!msg.deleted && (
+              <div className="message__actions">
+                {REACTIONS.map((emoji, kind) => {
+                  const accounts = msg.reactions?.[kind] ?? [];
+                  const mine = accounts.some(isOwn);
+                  if (!accounts.length && !canReact) return null;
+                  return (
+                    <button
+                      key={kind}
+                      className={`reaction${mine ? ' reaction--mine' : ''}${accounts.length ? '' : ' reaction--empty'}`}
+                      onClick={() => onReact(msg, kind)}
+                      disabled={!canReact}
+                    >
+                      {emoji}
+                      {accounts.length > 0 && ` ${accounts.length}`}
+                    </button>
+                  );
+                })}
+                {canPost && msg.clearText !== undefined && (
+                  <button className="ghost-button" onClick={() => onReply(msg)}>
+                    Reply
+                  </button>
+                )}
+                {canPost && own && msg.clearText !== undefined && msg.poll === undefined && (
+                  <button className="ghost-button" onClick={() => onEdit(msg)}>
+                    Edit
+                  </button>
+                )}
+                {canReact && own && (
+                  <button className="ghost-button" onClick={() => onDelete(msg)}>
+                    Delete
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {!messages.length && !loading && <div className="muted">No messages yet. Break the silence.</div>}
+    </div>
+  );
+}
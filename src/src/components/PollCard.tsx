@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from 'react';
+import { decryptPoll, type Poll, type PollContent, type PollsClient } from '../../../sdk';
+import { formatTime } from '../utils/format';
+
+type PollCardProps = {
+  pollId: number;
+  // The room the announcing message was posted in; a poll of another room is not shown.
+  groupId: number;
+  polls: PollsClient;
+  // Room keys indexed by epoch, to open the question and options.
+  keys?: bigint[];
+  account?: string;
+  // Whether the viewer can send poll transactions: a connected member, with no other action running.
+  canAct: boolean;
+  // Each resolves true once its transaction is mined, so the card reloads the poll.
+  onVote: (pollId: number, option: number) => Promise<boolean>;
+  onReveal: (poll: Poll) => Promise<boolean>;
+};
+
+/** A poll announced in the timeline: its options while voting is open, and the totals once revealed. */
+export function PollCard({ pollId, groupId, polls, keys, account, canAct, onVote, onReveal }: PollCardProps) {
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [content, setContent] = useState<PollContent | null>(null);
+  const [voted, setVoted] = useState(false);
+  const [ended, setEnded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const next = await polls.getPoll(pollId);
+      setPoll(next);
+      setVoted(account ? await polls.hasVoted(pollId, account) : false);
+    } catch (err) {
+      console.error('Failed to load poll', err);
+      setError('Poll not found.');
+    }
+  }, [account, pollId, polls]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const key = poll ? keys?.[poll.epoch] : undefined;
+  useEffect(() => {
+    if (!poll || key === undefined) return;
+    decryptPoll(poll.cipherText, key)
+      .then(setContent)
+      .catch(() => setError('Unable to decrypt this poll.'));
+  }, [key, poll]);
+
+  // Votes close at the deadline without any event, so the card switches over on its own.
+  const deadline = poll?.deadline;
+  useEffect(() => {
+    if (deadline === undefined) return;
+    const left = deadline * 1000 - Date.now();
+    setEnded(left <= 0);
+    if (left <= 0) return;
+    const timer = setTimeout(() => setEnded(true), left);
+    return () => clearTimeout(timer);
+  }, [deadline]);
+
+  if (error) return <div className="poll-card muted">{error}</div>;
+  if (!poll) return <div className="poll-card muted">Loading poll…</div>;
+  if (poll.groupId !== groupId) return <div className="poll-card muted">This poll belongs to another room.</div>;
+
+  const optionLabel = (index: number) => content?.options[index] ?? `Option ${index + 1}`;
+  const total = poll.results?.reduce((sum, votes) => sum + votes, 0) ?? 0;
+  const act = async (action: () => Promise<boolean>) => {
+    if (await action()) await load();
+  };
+
+  return (
+    <div className="poll-card">
+      <div className="poll-card__question">{content?.question ?? 'Encrypted poll'}</div>
+      {poll.results ? (
+        poll.results.map((votes, index) => (
+          <div key={index} className="poll-card__result">
+            <div className="poll-card__bar" style={{ width: `${total ? (votes / total) * 100 : 0}%` }} />
+            <span>{optionLabel(index)}</span>
+            <span className="muted">{votes}</span>
+          </div>
+        ))
+      ) : (
+        <div className="poll-card__options">
+          {Array.from({ length: poll.optionCount }, (_, index) => (
+            <button
+              key={index}
+              className="ghost-button"
+              onClick={() => act(() => onVote(poll.id, index))}
+              disabled={!canAct || voted || ended || !content}
+            >
+              {optionLabel(index)}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="muted">
+        {poll.voterCount} {poll.voterCount === 1 ? 'vote' : 'votes'}
+        {voted && ' • you voted'}
+        {poll.results
+          ? ` • closed ${formatTime(poll.deadline)}`
+          : ended
+            ? ' • voting closed'
+            : ` • open until ${formatTime(poll.deadline)}, totals stay encrypted until then`}
+      </div>
+      {!poll.results && ended && (
+        <button className="ghost-button" onClick={() => act(() => onReveal(poll))} disabled={!canAct}>
+          Reveal result
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import type { PollContent } from '../../../sdk';
+
+// Bounds of the contract: at least two options and no more than MAX_OPTIONS.
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 8;
+const DURATIONS = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: 86_400 },
+  { label: '3 days', seconds: 3 * 86_400 },
+  { label: '1 week', seconds: 7 * 86_400 },
+];
+
+type PollComposerProps = {
+  roomName: string;
+  busy: boolean;
+  // Resolves true once the poll is open and announced, so the dialog can close.
+  onCreate: (content: PollContent, duration: number) => Promise<boolean>;
+  onClose: () => void;
+};
+
+export function PollComposer({ roomName, busy, onCreate, onClose }: PollComposerProps) {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState(['', '']);
+  const [duration, setDuration] = useState(DURATIONS[1].seconds);
+
+  const filled = options.map((option) => option.trim()).filter(Boolean);
+  const setOption = (index: number, value: string) =>
+    setOptions((prev) => prev.map((option, i) => (i === index ? value : option)));
+
+  const create = async () => {
+    if (await onCreate({ question: question.trim(), options: filled }, duration)) onClose();
+  };
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div className="panel dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="panel__title">New poll in {roomName}</div>
+        <p className="panel__hint">
+          The question and options are sealed with the room key. Votes are encrypted and only added up, and the
+          totals can be revealed once voting closes.
+        </p>
+        <input
+          className="input"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Question"
+        />
+        {options.map((option, index) => (
+          <div key={index} className="poll-composer__option">
+            <input
+              className="input"
+              value={option}
+              onChange={(e) => setOption(index, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+            />
+            {options.length > MIN_OPTIONS && (
+              <button
+                className="member-remove"
+                onClick={() => setOptions((prev) => prev.filter((_, i) => i !== index))}
+                disabled={busy}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+        {options.length < MAX_OPTIONS && (
+          <button className="ghost-button" onClick={() => setOptions((prev) => [...prev, ''])} disabled={busy}>
+            Add option
+          </button>
+        )}
+        <label className="composer-option">
+          Voting closes after
+          <select className="input" value={duration} onChange={(e) => setDuration(Number(e.target.value))}>
+            {DURATIONS.map(({ label, seconds }) => (
+              <option key={seconds} value={seconds}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="room-actions">
+          <button className="ghost-button" onClick={onClose} disabled={busy}>
+            Cancel
+          </button>
+          <button
+            className="primary-button"
+            onClick={create}
+            disabled={busy || !question.trim() || filled.length < MIN_OPTIONS}
+          >
+            {busy ? 'Opening...' : 'Open poll'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
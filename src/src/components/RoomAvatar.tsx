@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { downloadAttachment, type AttachmentRef } from '../../../shared/attachments';
+import { blobStore } from '../config/blobStore';
+
+type RoomAvatarProps = {
+  avatar: AttachmentRef;
+  groupKey: bigint;
+};
+
+/** The image a room profile points to, downloaded from the blob store and decrypted with the room key. */
+export function RoomAvatar({ avatar, groupKey }: RoomAvatarProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  // Profiles are decrypted again on every sync, so the reference is compared by value.
+  const { hash, size } = avatar;
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    downloadAttachment(blobStore, { hash, size }, groupKey)
+      .then((file) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(new Blob([file.data], { type: file.type }));
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error('Room avatar download failed', error));
+    return () => {
+      cancelled = true;
+      setUrl(null);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [groupKey, hash, size]);
+
+  return url ? <img className="room-avatar" src={url} alt="" /> : null;
+}
@@ -0,0 +1,58 @@
+import { ROOM_SORTS, type RoomQuery, type RoomSort } from '../utils/discovery';
+
+type RoomFiltersProps = {
+  query: RoomQuery;
+  onChange: (query: RoomQuery) => void;
+  // The personal filters need a connected wallet.
+  connected: boolean;
+  shown: number;
+  total: number;
+};
+
+const TOGGLES: { key: 'joinedOnly' | 'createdByMe' | 'unreadOnly'; label: string }[] = [
+  { key: 'joinedOnly', label: 'Joined only' },
+  { key: 'createdByMe', label: 'Created by me' },
+  { key: 'unreadOnly', label: 'Has unread' },
+];
+
+export function RoomFilters({ query, onChange, connected, shown, total }: RoomFiltersProps) {
+  const update = (change: Partial<RoomQuery>) => onChange({ ...query, ...change });
+
+  return (
+    <div className="room-filters">
+      <div className="composer">
+        <input
+          className="input"
+          value={query.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Search rooms by name or #id"
+        />
+        <select className="input" value={query.sort} onChange={(e) => update({ sort: e.target.value as RoomSort })}>
+          {ROOM_SORTS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="room-filters__toggles">
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} className="composer-option">
+            <input
+              type="checkbox"
+              checked={query[key]}
+              onChange={(e) => update({ [key]: e.target.checked })}
+              disabled={!connected}
+            />
+            {label}
+          </label>
+        ))}
+        {shown !== total && (
+          <span className="muted">
+            Showing {shown} of {total} rooms
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
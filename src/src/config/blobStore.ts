@@ -0,0 +1,10 @@
+import { createHttpBlobStore, createMemoryBlobStore } from '../../../shared/blobStore';
+
+// Largest file the composer accepts; the development blob server enforces the same limit.
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Point VITE_BLOB_STORE_URL at a blob server (`npx hardhat task:blob-server`) to share attachments between browsers.
+// Without it attachments live in memory and are only visible in the tab that uploaded them.
+export const blobStore = import.meta.env.VITE_BLOB_STORE_URL
+  ? createHttpBlobStore(import.meta.env.VITE_BLOB_STORE_URL)
+  : createMemoryBlobStore();
@@ -0,0 +1,2 @@
+// Generated by `npx hardhat task:export-deployments` from hardhat-deploy output. Do not edit by hand.
+export const DEPLOYMENTS = {} as const;
@@ -0,0 +1,52 @@
+import type { Chain } from 'viem';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { DEPLOYMENTS } from './deployments';
+
+/**
+ * How a network encrypts and decrypts: through the Zama relayer on public networks, or through the
+ * FHEVM mock a local `npx hardhat node` serves.
+ */
+export type FhevmMode = 'relayer' | 'mock';
+
+export type Network = {
+  chain: Chain;
+  fhevm: FhevmMode;
+  // AnonVerse address from the deployment registry, if the contract was deployed there.
+  address?: `0x${string}`;
+  // Block the contract was deployed in; nothing can be logged before it.
+  block?: bigint;
+  // AnonVersePolls address of that deployment, if polls were deployed alongside it.
+  polls?: `0x${string}`;
+};
+
+type Registered = { address: `0x${string}`; block: number; polls?: `0x${string}` };
+
+// `task:export-deployments` hands the local node's deployment to the dev server through its env file instead.
+const LOCAL_DEPLOYMENT: Registered | undefined = import.meta.env.VITE_LOCAL_DEPLOYMENT
+  ? JSON.parse(import.meta.env.VITE_LOCAL_DEPLOYMENT)
+  : undefined;
+
+const registered = (chainId: number): Registered | undefined =>
+  chainId === hardhat.id ? LOCAL_DEPLOYMENT : (DEPLOYMENTS as Record<string, Registered | undefined>)[chainId];
+
+const network = (chain: Chain, fhevm: FhevmMode): Network => {
+  const deployment = registered(chain.id);
+  return {
+    chain,
+    fhevm,
+    address: deployment?.address,
+    block: deployment ? BigInt(deployment.block) : undefined,
+    polls: deployment?.polls
+  };
+};
+
+// The local Hardhat node is only offered by the dev server, never in a production build.
+export const NETWORKS: Network[] = [
+  network(sepolia, 'relayer'),
+  ...(import.meta.env.DEV ? [network(hardhat, 'mock')] : [])
+];
+
+export const CHAINS = NETWORKS.map(({ chain }) => chain) as [Chain, ...Chain[]];
+
+export const networkFor = (chainId: number | undefined): Network | undefined =>
+  NETWORKS.find(({ chain }) => chain.id === chainId);
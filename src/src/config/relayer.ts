@@ -0,0 +1,8 @@
+import { createRelayerClient } from '../../../shared/metaTx';
+
+// How long a post signed for the relayer stays valid, in seconds.
+export const RELAYED_POST_TTL = 10 * 60;
+
+// Point VITE_RELAYER_URL at a relayer (`npx hardhat task:relayer`) to offer gasless posting.
+// Without it every message is sent, and paid for, by the connected wallet.
+export const relayer = import.meta.env.VITE_RELAYER_URL ? createRelayerClient(import.meta.env.VITE_RELAYER_URL) : null;
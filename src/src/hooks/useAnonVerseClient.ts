@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { getAddress, toBeHex } from 'ethers';
+import { createAnonVerseClient, type KeyDecryptor } from '../../../sdk';
+import { CONTRACT_ABI } from '../config/contracts';
+import { useEthersProvider } from './useEthersProvider';
+
+/** SDK client of the contract for reads and key unlocking; `connect` it to the wallet signer to send transactions. */
+export function useAnonVerseClient(contractAddress: `0x${string}` | null, decryptKeys: KeyDecryptor) {
+  const provider = useEthersProvider();
+
+  return useMemo(
+    () =>
+      contractAddress && provider
+        ? createAnonVerseClient({
+            address: contractAddress,
+            abi: CONTRACT_ABI,
+            runner: provider,
+            decryptKeys,
+            // Encrypted addresses decrypt to the same numbers as keys do.
+            decryptAddresses: async (handles) => {
+              const clear = await decryptKeys(handles);
+              return Object.fromEntries(
+                Object.entries(clear).map(([handle, value]) => [handle, getAddress(toBeHex(value, 20))])
+              );
+            },
+          })
+        : null,
+    [contractAddress, decryptKeys, provider]
+  );
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { CONTRACT_ABI } from '../config/contracts';
+import { applyLogs, createSyncState, fetchHistory, logId, type ContractLog, type SyncState } from '../utils/sync';
+
+const POLLING_INTERVAL_MS = 2_000;
+
+/**
+ * Keep groups in sync with the contract: backfill from logs once, then follow new events live.
+ * `messages` only holds messages posted after `syncedBlock`; older history is paged in by `useMessagePages`.
+ * `deployedAt` is the contract's deployment block when the registry knows it, which bounds the backfill.
+ */
+export function useAnonVerseSync(contractAddress: `0x${string}` | null, deployedAt?: bigint) {
+  const publicClient = usePublicClient();
+  const [state, setState] = useState<SyncState>(createSyncState);
+  const [syncedBlock, setSyncedBlock] = useState<bigint | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const seen = useRef(new Set<string>());
+  // Bumped by every resync, so a fetch that finishes after a newer one started, such as one for the previous
+  // contract, is dropped instead of ingested.
+  const generation = useRef(0);
+
+  const ingest = useCallback((logs: ContractLog[], withMessages = true) => {
+    const fresh = logs.filter((log) => !seen.current.has(logId(log)));
+    fresh.forEach((log) => seen.current.add(logId(log)));
+    setState((prev) => applyLogs(prev, fresh, withMessages));
+  }, []);
+
+  const resync = useCallback(async () => {
+    const current = ++generation.current;
+    seen.current = new Set();
+    setState(createSyncState());
+    setSyncedBlock(null);
+    setError(null);
+    if (!publicClient || !contractAddress) return;
+
+    setSyncing(true);
+    try {
+      const head = await publicClient.getBlockNumber();
+      const count = (await publicClient.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getGroupCount',
+        blockNumber: head,
+      })) as bigint;
+      const history = count > 0n ? await fetchHistory(publicClient, contractAddress, head, deployedAt) : [];
+      if (current !== generation.current) return;
+      ingest(history, false);
+      setSyncedBlock(head);
+    } catch (err) {
+      if (current !== generation.current) return;
+      console.error('Failed to sync contract logs', err);
+      setError('Unable to load groups. Check the contract address.');
+    } finally {
+      if (current === generation.current) setSyncing(false);
+    }
+  }, [contractAddress, deployedAt, ingest, publicClient]);
+
+  useEffect(() => {
+    void resync();
+  }, [resync]);
+
+  useEffect(() => {
+    if (!publicClient || !contractAddress || syncedBlock === null) return;
+    return publicClient.watchContractEvent({
+      address: contractAddress,
+      abi: CONTRACT_ABI,
+      fromBlock: syncedBlock + 1n,
+      pollingInterval: POLLING_INTERVAL_MS,
+      onLogs: (logs) => ingest(logs as ContractLog[]),
+      onError: (err) => console.error('Contract event subscription failed', err),
+    });
+  }, [contractAddress, ingest, publicClient, syncedBlock]);
+
+  return { ...state, syncedBlock, syncing, error, resync };
+}
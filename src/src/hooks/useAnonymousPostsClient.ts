@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { createAnonymousPostsClient, type AnonVerseClient } from '../../../sdk';
+import { ANONYMOUS_POSTS_ABI } from '../config/contracts';
+import { useEthersProvider } from './useEthersProvider';
+
+/**
+ * SDK client of the contract anonymous posts go through, found from the AnonVerse deployment `client` reads.
+ * Posting passes are encrypted, and pass checks publicly decrypted, through the Zama instance of the network.
+ */
+export function useAnonymousPostsClient(client: AnonVerseClient | null, instance: FhevmInstance | null) {
+  const provider = useEthersProvider();
+  const [address, setAddress] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAddress(null);
+    if (!client) return;
+    let cancelled = false;
+    client
+      .anonymousPostsAddress()
+      .then((found) => {
+        if (!cancelled) setAddress(found);
+      })
+      .catch((error) => console.error('Anonymous posts contract lookup failed', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  return useMemo(
+    () =>
+      address && provider
+        ? createAnonymousPostsClient({
+            address,
+            abi: ANONYMOUS_POSTS_ABI,
+            runner: provider,
+            encryptPass: async (contractAddress, account, pass) => {
+              if (!instance) throw new Error('Encryption service unavailable');
+              const input = instance.createEncryptedInput(contractAddress, account).add256(pass);
+              const { handles, inputProof } = await input.encrypt();
+              return { handle: handles[0], inputProof };
+            },
+            publicDecrypt: async (handles) => {
+              if (!instance) throw new Error('Encryption service unavailable');
+              return instance.publicDecrypt(handles);
+            },
+          })
+        : null,
+    [address, instance, provider]
+  );
+}
@@ -0,0 +1,91 @@
+import { useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { useEthersSigner } from './useEthersSigner';
+
+// How long the user-decrypt permit is valid for, and how close to expiry a session is renewed rather than reused.
+const DURATION_DAYS = 5;
+const RENEW_MARGIN_SECONDS = 10 * 60;
+
+type DecryptSession = {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+// Module scoped so every component shares one permit per account and contract for the lifetime of the tab.
+const sessions = new Map<string, Promise<DecryptSession>>();
+
+const sessionId = (account: string, contract: string) => `${account.toLowerCase()}:${contract.toLowerCase()}`;
+
+const isFresh = (session: DecryptSession) =>
+  Date.now() / 1000 < session.startTimestamp + session.durationDays * 86_400 - RENEW_MARGIN_SECONDS;
+
+/**
+ * User-decrypt handles with a single keypair and EIP-712 signature per contract per session.
+ * The permit is reused for every call until `durationDays` is about to run out, then a new one is requested.
+ */
+export function useDecryptSession(instance: FhevmInstance | null, contractAddress: `0x${string}` | null) {
+  const { address } = useAccount();
+  const signer = useEthersSigner();
+
+  const getSession = useCallback(async () => {
+    if (!instance || !address || !contractAddress) throw new Error('Decryption session unavailable');
+    const id = sessionId(address, contractAddress);
+    const existing = sessions.get(id);
+    if (existing) {
+      const session = await existing.catch(() => null);
+      if (session && isFresh(session)) return session;
+    }
+
+    const created = (async (): Promise<DecryptSession> => {
+      const signerInstance = await signer;
+      if (!signerInstance) throw new Error('Wallet signer unavailable');
+      const { publicKey, privateKey } = instance.generateKeypair();
+      const startTimestamp = Math.floor(Date.now() / 1000);
+      const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, DURATION_DAYS);
+      const signature = await signerInstance.signTypedData(
+        eip712.domain,
+        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        eip712.message
+      );
+      return {
+        publicKey,
+        privateKey,
+        signature: signature.replace('0x', ''),
+        startTimestamp,
+        durationDays: DURATION_DAYS,
+      };
+    })();
+    sessions.set(id, created);
+    created.catch(() => {
+      if (sessions.get(id) === created) sessions.delete(id);
+    });
+    return created;
+  }, [address, contractAddress, instance, signer]);
+
+  /** Decrypt every handle in one relayer call, returning the clear values keyed by handle. */
+  const userDecrypt = useCallback(
+    async (handles: string[]): Promise<Record<string, bigint>> => {
+      if (!handles.length) return {};
+      if (!instance || !address || !contractAddress) throw new Error('Decryption session unavailable');
+      const session = await getSession();
+      const result = await instance.userDecrypt(
+        handles.map((handle) => ({ handle, contractAddress })),
+        session.privateKey,
+        session.publicKey,
+        session.signature,
+        [contractAddress],
+        address,
+        session.startTimestamp,
+        session.durationDays
+      );
+      return Object.fromEntries(handles.map((handle) => [handle, BigInt(result[handle as `0x${string}`] as bigint)]));
+    },
+    [address, contractAddress, getSession, instance]
+  );
+
+  return { userDecrypt };
+}
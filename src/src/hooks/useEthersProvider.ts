@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { FallbackProvider, JsonRpcProvider } from 'ethers';
+import type { Chain, Client, Transport } from 'viem';
+import { useClient, type Config } from 'wagmi';
+
+function clientToProvider(client: Client<Transport, Chain>) {
+  const { chain, transport } = client;
+  const network = {
+    chainId: chain.id,
+    name: chain.name,
+    ensAddress: chain.contracts?.ensRegistry?.address,
+  };
+
+  if (transport.type === 'fallback') {
+    const providers = (transport.transports as ReturnType<Transport>[]).map(
+      ({ value }) => new JsonRpcProvider(value?.url, network)
+    );
+    return providers.length === 1 ? providers[0] : new FallbackProvider(providers);
+  }
+  return new JsonRpcProvider(transport.url, network);
+}
+
+/** A read-only ethers provider over the same RPC as the wagmi public client, available without a wallet. */
+export function useEthersProvider({ chainId }: { chainId?: number } = {}) {
+  const client = useClient<Config>({ chainId });
+
+  return useMemo(() => (client ? clientToProvider(client) : undefined), [client]);
+}
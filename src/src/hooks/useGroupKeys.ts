@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import type { AnonVerseClient } from '../../../sdk';
+import type { GroupMeta } from '../utils/sync';
+import type { GroupRecord, VaultKeys } from '../utils/vault';
+import type { WalletAction } from './useWalletAction';
+
+type KeyVault = {
+  unlocked: boolean;
+  unlock: () => Promise<VaultKeys | null>;
+  load: (groupId: number) => Promise<GroupRecord | null>;
+  update: (groupId: number, patch: Partial<GroupRecord>, keys?: VaultKeys | null) => Promise<void>;
+  forget: () => Promise<void>;
+};
+
+/**
+ * Group keys the connected account decrypted, indexed by key epoch, and the flows that unlock them.
+ * Keys are remembered in the local vault and picked up from it when their group is opened again.
+ */
+export function useGroupKeys(
+  client: AnonVerseClient | null,
+  account: string | undefined,
+  selectedGroupId: number | null,
+  vault: KeyVault,
+  { run, setStatus }: WalletAction
+) {
+  const { unlocked, unlock, load, update, forget } = vault;
+  const [decryptedKeys, setDecryptedKeys] = useState<Record<number, bigint[]>>({});
+
+  // Keys belong to the wallet that decrypted them; never show them to the next account.
+  useEffect(() => {
+    setDecryptedKeys({});
+  }, [account, client?.address]);
+
+  useEffect(() => {
+    if (selectedGroupId === null || !unlocked) return;
+    let cancelled = false;
+    load(selectedGroupId)
+      .then((record) => {
+        if (cancelled || !record?.keys.length) return;
+        setDecryptedKeys((prev) => (prev[selectedGroupId] ? prev : { ...prev, [selectedGroupId]: record.keys }));
+      })
+      .catch((error) => console.error('Loading cached keys failed', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [load, selectedGroupId, unlocked]);
+
+  const addKeys = (keys: Record<number, bigint[]>) => setDecryptedKeys((prev) => ({ ...prev, ...keys }));
+
+  // Decrypt every epoch key of the given groups in one relayer call and remember them on this device.
+  // The wallet's client claims access first in hidden-membership rooms that need it.
+  const unlockKeys = async (writer: AnonVerseClient, groupIds: number[]) => {
+    const keys = await writer.unlockKeys(groupIds);
+    addKeys(keys);
+
+    try {
+      const vaultKeys = await unlock();
+      await Promise.all(groupIds.map((groupId) => update(groupId, { keys: keys[groupId] }, vaultKeys)));
+      return true;
+    } catch (error) {
+      console.error('Caching group keys failed', error);
+      return false;
+    }
+  };
+
+  const decryptKey = (group: GroupMeta) =>
+    run('Requesting key decryption...', 'Unable to decrypt the key. Retry in a moment', async (writer) =>
+      (await unlockKeys(writer, [group.id]))
+        ? `Group key decrypted for ${group.name}.`
+        : `Group key decrypted for ${group.name}, but it was not saved on this device.`
+    );
+
+  // `findJoined` looks up the account's groups afresh, so rooms joined on another device are unlocked too.
+  const unlockAll = (groups: GroupMeta[], findJoined: () => Promise<number[]>) =>
+    run('Looking up your rooms...', 'Unable to unlock your rooms. Retry in a moment', async (writer) => {
+      const joined = new Set(await findJoined());
+      const locked = groups.filter(
+        (group) => joined.has(group.id) && decryptedKeys[group.id]?.[group.keyEpoch] === undefined
+      );
+      if (!locked.length) return 'All your rooms are already unlocked.';
+      setStatus(`Decrypting keys for ${locked.length} rooms...`);
+      await unlockKeys(writer, locked.map((group) => group.id));
+      return `Unlocked ${locked.length} rooms.`;
+    });
+
+  const forgetDevice = async () => {
+    try {
+      await forget();
+      setDecryptedKeys({});
+      setStatus('Cached keys and history removed from this device.');
+    } catch (error) {
+      console.error('Forget device failed', error);
+      setStatus('Could not clear the local cache.');
+    }
+  };
+
+  return { decryptedKeys, addKeys, decryptKey, unlockAll, forgetDevice };
+}
@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useState } from 'react';
+import { decryptProfile, type GroupProfile } from '../../../sdk';
+import type { GroupMeta } from '../utils/sync';
+
+// Shown for rooms created without a public name until their profile is decrypted.
+const UNNAMED = 'Private room';
+
+/**
+ * Decrypt the sealed profiles of the groups whose key of the sealing epoch is unlocked.
+ * Returns the profiles by group id, and the groups named after their private name where it is known.
+ */
+export function useGroupProfiles(groups: GroupMeta[], keys: Record<number, bigint[]>) {
+  const [profiles, setProfiles] = useState<Record<number, GroupProfile>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const sealed = groups.filter((group) => group.profile && keys[group.id]?.[group.profile.epoch] !== undefined);
+    // Each profile falls back to null on its own, so this never rejects.
+    void Promise.all(
+      sealed.map(async (group) => {
+        try {
+          const { cipherText, epoch } = group.profile!;
+          return [group.id, await decryptProfile(cipherText, keys[group.id][epoch])] as const;
+        } catch (error) {
+          console.error(`Failed to decrypt the profile of group #${group.id}`, error);
+          return null;
+        }
+      })
+    ).then((decrypted) => {
+      if (!cancelled) setProfiles(Object.fromEntries(decrypted.filter((entry) => entry !== null)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [groups, keys]);
+
+  const named = useMemo(
+    () =>
+      groups.map((group) => {
+        // Direct conversations are named after the peer instead.
+        if (group.direct) return group;
+        const name = profiles[group.id]?.name ?? (group.name || UNNAMED);
+        return name === group.name ? group : { ...group, name };
+      }),
+    [groups, profiles]
+  );
+
+  return { profiles, groups: named };
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { describeGate, type AnonVerseClient, type Gate, type GateKind } from '../../../sdk';
+import type { GroupMeta } from '../utils/sync';
+import { useEthersProvider } from './useEthersProvider';
+
+const gatesOf = (key: string) =>
+  (JSON.parse(key) as [number, number, string, string][]).map(
+    ([groupId, kind, token, threshold]) =>
+      [groupId, { kind: kind as GateKind, token, threshold: BigInt(threshold) } satisfies Gate] as const
+  );
+
+/**
+ * What joining each gated group asks for, in words, and whether the connected account meets it right now.
+ * Groups missing from `eligible` are either ungated or not checked yet; the contract checks again on join.
+ */
+export function useJoinGates(groups: GroupMeta[], client: AnonVerseClient | null, account: string | undefined) {
+  const provider = useEthersProvider();
+  const [requirements, setRequirements] = useState<Record<number, string>>({});
+  const [eligible, setEligible] = useState<Record<number, boolean>>({});
+
+  // Compared by value: synced groups are rebuilt on every update, while gates never change after creation.
+  const gatesKey = JSON.stringify(
+    groups.flatMap((group) =>
+      group.gate ? [[group.id, group.gate.kind, group.gate.token, group.gate.threshold.toString()]] : []
+    )
+  );
+
+  useEffect(() => {
+    if (!provider) return;
+    let cancelled = false;
+    // Each gate falls back to a generic description on its own, so this never rejects.
+    void Promise.all(
+      gatesOf(gatesKey).map(
+        async ([groupId, gate]) => [groupId, await describeGate(gate, provider).catch(() => 'a token')] as const
+      )
+    ).then((described) => {
+      if (!cancelled) setRequirements(Object.fromEntries(described));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [gatesKey, provider]);
+
+  useEffect(() => {
+    setEligible({});
+    if (!client || !account) return;
+    let cancelled = false;
+    Promise.all(
+      gatesOf(gatesKey).map(async ([groupId]) => [groupId, await client.meetsGate(groupId, account)] as const)
+    )
+      .then((checked) => {
+        if (!cancelled) setEligible(Object.fromEntries(checked));
+      })
+      .catch((error) => console.error('Failed to check join gates', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [account, client, gatesKey]);
+
+  return { requirements, eligible };
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { useEthersSigner } from './useEthersSigner';
+import {
+  createWrappingKeys,
+  forgetAccount,
+  loadGroup,
+  loadWrappingKeys,
+  openPortable,
+  retainAccount,
+  saveGroup,
+  sealPortable,
+  unlockMessage,
+  type GroupRecord,
+  type VaultKeys,
+} from '../utils/vault';
+
+const EMPTY_RECORD: GroupRecord = { keys: [], messages: [], lastIndex: -1, lastRead: -1 };
+
+/**
+ * Device cache of decrypted group keys and message history for the connected account.
+ * The vault is unlocked with a one-off wallet signature and reopens silently on later visits; entries of any other
+ * account are wiped as soon as a different wallet connects.
+ */
+export function useLocalVault(contractAddress: `0x${string}` | null) {
+  const { address, chainId } = useAccount();
+  const signer = useEthersSigner();
+  const [wrappingKeys, setWrappingKeys] = useState<VaultKeys | null>(null);
+  // Read-modify-write updates per group are chained so concurrent saves cannot drop each other's fields.
+  const pending = useRef(new Map<number, Promise<void>>());
+
+  useEffect(() => {
+    setWrappingKeys(null);
+    pending.current = new Map();
+    if (!address || !chainId) return;
+    let cancelled = false;
+    retainAccount(address)
+      .then(() => loadWrappingKeys(chainId, address))
+      .then((keys) => {
+        if (!cancelled) setWrappingKeys(keys ?? null);
+      })
+      .catch((error) => console.error('Failed to open the local cache', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chainId]);
+
+  const scope = useMemo(
+    () => (address && chainId && contractAddress ? { chainId, contract: contractAddress, account: address } : null),
+    [address, chainId, contractAddress]
+  );
+
+  const unlock = useCallback(async () => {
+    if (wrappingKeys) return wrappingKeys;
+    const signerInstance = await signer;
+    if (!signerInstance || !address || !chainId) return null;
+    const signature = await signerInstance.signMessage(unlockMessage(window.location.host, chainId, address));
+    const keys = await createWrappingKeys(chainId, address, signature);
+    setWrappingKeys(keys);
+    return keys;
+  }, [address, chainId, signer, wrappingKeys]);
+
+  const load = useCallback(
+    async (groupId: number) => (scope && wrappingKeys ? loadGroup(scope, wrappingKeys.local, groupId) : null),
+    [scope, wrappingKeys]
+  );
+
+  /** Merge `patch` into the stored record. Pass `keys` right after `unlock()`, before state has caught up. */
+  const update = useCallback(
+    (groupId: number, patch: Partial<GroupRecord>, keys: VaultKeys | null = wrappingKeys) => {
+      if (!scope || !keys) return Promise.resolve();
+      const previous = pending.current.get(groupId) ?? Promise.resolve();
+      const next = previous
+        .then(async () => {
+          const current = (await loadGroup(scope, keys.local, groupId)) ?? EMPTY_RECORD;
+          await saveGroup(scope, keys.local, groupId, { ...current, ...patch });
+        })
+        .catch((error) => console.error('Failed to update the local cache', error));
+      pending.current.set(groupId, next);
+      return next;
+    },
+    [scope, wrappingKeys]
+  );
+
+  /** Seal a value with the portable key to keep it off this device, such as on chain; null while the vault is locked. */
+  const seal = useCallback(
+    async (value: unknown, keys: VaultKeys | null = wrappingKeys) => (keys ? sealPortable(keys.portable, value) : null),
+    [wrappingKeys]
+  );
+
+  const open = useCallback(
+    async <T>(sealed: Uint8Array, keys: VaultKeys | null = wrappingKeys) =>
+      (keys ? openPortable<T>(keys.portable, sealed) : null),
+    [wrappingKeys]
+  );
+
+  const forget = useCallback(async () => {
+    if (!address || !chainId) return;
+    await forgetAccount(chainId, address);
+    pending.current = new Map();
+    setWrappingKeys(null);
+  }, [address, chainId]);
+
+  return { unlocked: wrappingKeys !== null, unlock, load, update, seal, open, forget };
+}
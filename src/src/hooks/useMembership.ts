@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { AnonVerseClient } from '../../../sdk';
+import { memberRoleOf, roleOf, ROLE_NONE } from '../utils/roles';
+import type { GroupMeta } from '../utils/sync';
+import type { WalletAction } from './useWalletAction';
+
+type Standing = { role: number; mutedUntil: number };
+
+/**
+ * Groups the connected account belongs to or asked to join, and the members and join requests of the selected one,
+ * with the join, leave and reveal flows that change them.
+ */
+export function useMembership(
+  client: AnonVerseClient | null,
+  account: string | undefined,
+  groups: GroupMeta[],
+  selectedGroupId: number | null,
+  { run }: WalletAction
+) {
+  const [membership, setMembership] = useState<Record<number, boolean>>({});
+  // The account's own role and mute end in hidden-membership groups, whose events name nobody.
+  const [standing, setStanding] = useState<Record<number, Standing>>({});
+  const [joinStatus, setJoinStatus] = useState<Record<number, 'pending' | 'invited' | undefined>>({});
+  const [joinRequests, setJoinRequests] = useState<string[]>([]);
+  const [members, setMembers] = useState<string[]>([]);
+
+  const loadMembership = useCallback(
+    async (groupId: number) => {
+      if (!client || !account) return false;
+      try {
+        const { member, pending, invited, role, mutedUntil } = await client.membership(groupId, account);
+        setMembership((prev) => ({ ...prev, [groupId]: member }));
+        setStanding((prev) => ({ ...prev, [groupId]: { role, mutedUntil } }));
+        setJoinStatus((prev) => ({ ...prev, [groupId]: pending ? 'pending' : invited ? 'invited' : undefined }));
+        return member;
+      } catch (error) {
+        console.error('Membership check failed', error);
+        return false;
+      }
+    },
+    [account, client]
+  );
+
+  // Hidden-membership groups are left out of the index, so the account's membership in each is checked on its own.
+  const hiddenIds = groups
+    .filter((group) => group.hiddenMembers)
+    .map((group) => group.id)
+    .join(',');
+
+  // One indexed read of the account's groups, instead of a membership check per group.
+  const loadMyGroups = useCallback(async () => {
+    if (!client || !account) {
+      setMembership({});
+      return [];
+    }
+    const hidden = hiddenIds ? hiddenIds.split(',').map(Number) : [];
+    const [indexed, hiddenMember] = await Promise.all([
+      client.listGroupsOf(account),
+      Promise.all(hidden.map((groupId) => client.isMember(groupId, account)))
+    ]);
+    const ids = [...indexed.map(({ id }) => id), ...hidden.filter((_, i) => hiddenMember[i])];
+    setMembership(Object.fromEntries(ids.map((id) => [id, true])));
+    return ids;
+  }, [account, client, hiddenIds]);
+
+  useEffect(() => {
+    loadMyGroups().catch((error) => console.error('Failed to load your groups', error));
+  }, [loadMyGroups]);
+
+  const loadJoinRequests = useCallback(
+    async (groupId: number) => {
+      if (!client) return;
+      try {
+        setJoinRequests(await client.listJoinRequests(groupId));
+      } catch (error) {
+        console.error('Failed to load join requests', error);
+      }
+    },
+    [client]
+  );
+
+  // Members of hidden-membership groups stay encrypted until a member asks to reveal them.
+  const loadMembers = useCallback(
+    async (groupId: number) => {
+      if (!client) return;
+      try {
+        const { hiddenMembers } = await client.getGroup(groupId);
+        setMembers(hiddenMembers ? [] : await client.listMembers(groupId));
+      } catch (error) {
+        console.error('Failed to load members', error);
+      }
+    },
+    [client]
+  );
+
+  useEffect(() => {
+    if (selectedGroupId === null) {
+      setMembers([]);
+      setJoinRequests([]);
+      return;
+    }
+    // Each loader logs its own failures, so none of these reject.
+    void loadMembers(selectedGroupId);
+    void loadJoinRequests(selectedGroupId);
+    void loadMembership(selectedGroupId);
+  }, [loadMembers, loadJoinRequests, loadMembership, selectedGroupId]);
+
+  // In hidden-membership groups the logs do not say who left, so the account's own membership check decides.
+  const ownRole = (group: GroupMeta) => {
+    if (!group.hiddenMembers) return roleOf(group, account);
+    return membership[group.id] && account ? (standing[group.id]?.role ?? memberRoleOf(group, account)) : ROLE_NONE;
+  };
+  const ownMutedUntil = (group: GroupMeta) =>
+    group.hiddenMembers ? (standing[group.id]?.mutedUntil ?? 0) : (group.mutedUntil[account?.toLowerCase() ?? ''] ?? 0);
+
+  // `requirement` describes the group's join gate, if it has one, to explain a refused join.
+  const joinGroup = (groupId: number, requirement?: string) =>
+    run(
+      `Joining group #${groupId}...`,
+      requirement ? `Could not join the group. It requires ${requirement}` : 'Could not join the group',
+      async (writer) => {
+        await (await writer.joinGroup(groupId)).wait();
+        const joined = await loadMembership(groupId);
+        return joined ? 'Joined! Decrypt the key to chat.' : 'Join request sent. The host will review it.';
+      }
+    );
+
+  const leaveGroup = (groupId: number) =>
+    run(`Leaving group #${groupId}...`, 'Could not leave the group', async (writer) => {
+      await (await writer.leaveGroup(groupId)).wait();
+      setMembership((prev) => ({ ...prev, [groupId]: false }));
+      await loadMembers(groupId);
+      return 'You left the group.';
+    });
+
+  // Hidden-membership rooms may need access claimed first, which the wallet's client does on its own.
+  const revealMembers = (groupId: number) =>
+    run('Decrypting the member list...', 'Unable to decrypt the member list. Retry in a moment', async (writer) => {
+      setMembers(await writer.revealMembers(groupId));
+      return 'Members revealed. They stay hidden from everyone outside the room.';
+    });
+
+  return {
+    membership,
+    joinStatus,
+    members,
+    joinRequests,
+    loadMembership,
+    loadMyGroups,
+    loadMembers,
+    loadJoinRequests,
+    ownRole,
+    ownMutedUntil,
+    joinGroup,
+    leaveGroup,
+    revealMembers,
+  };
+}
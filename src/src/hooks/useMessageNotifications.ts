@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ChatMessage, GroupMeta } from '../utils/sync';
+
+const supported = typeof window !== 'undefined' && 'Notification' in window;
+
+/** Whether the tab is currently shown, following `visibilitychange`. */
+export function usePageVisible() {
+  const [visible, setVisible] = useState(() => document.visibilityState === 'visible');
+
+  useEffect(() => {
+    const onChange = () => setVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', onChange);
+    return () => document.removeEventListener('visibilitychange', onChange);
+  }, []);
+
+  return visible;
+}
+
+/**
+ * Browser notifications for messages other members post in joined rooms while the tab is in the background.
+ * They only name the room: message text stays in the page.
+ */
+export function useMessageNotifications(
+  groups: GroupMeta[],
+  liveMessages: Record<number, ChatMessage[]>,
+  joined: Record<number, boolean>,
+  account: string | undefined
+) {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(() =>
+    supported ? Notification.permission : 'unsupported'
+  );
+  // How many live messages of each group were already considered.
+  const handled = useRef<Record<number, number>>({});
+
+  useEffect(() => {
+    for (const [id, messages] of Object.entries(liveMessages)) {
+      const groupId = Number(id);
+      // The live timelines start empty again after a resync.
+      const from = Math.min(handled.current[groupId] ?? 0, messages.length);
+      handled.current[groupId] = messages.length;
+      if (permission !== 'granted' || !document.hidden || !joined[groupId]) continue;
+
+      const fresh = messages.slice(from).filter((message) => message.sender.toLowerCase() !== account?.toLowerCase());
+      const group = groups.find((candidate) => candidate.id === groupId);
+      if (!fresh.length || !group) continue;
+      new Notification(group.direct ? 'New direct message' : `New messages in ${group.name}`, {
+        body: fresh.length === 1 ? '1 new encrypted message' : `${fresh.length} new encrypted messages`,
+        // One notification per room, replaced rather than stacked.
+        tag: `anonverse-${groupId}`,
+      });
+    }
+  }, [account, groups, joined, liveMessages, permission]);
+
+  const enable = useCallback(async () => {
+    if (supported) setPermission(await Notification.requestPermission());
+  }, []);
+
+  return { permission, enable };
+}
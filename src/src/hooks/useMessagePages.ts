@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { CONTRACT_ABI } from '../config/contracts';
+import { toAttachment, type ChatMessage } from '../utils/sync';
+
+export const MESSAGE_PAGE_SIZE = 25;
+// Only the most recent messages are kept in the local cache; anything older is paged in from the chain again.
+const CACHED_MESSAGES = 200;
+
+/** Where the timeline of a room is remembered between visits. */
+export type MessageCache = {
+  load: (groupId: number) => Promise<{ messages: ChatMessage[]; lastIndex: number } | null>;
+  save: (groupId: number, messages: ChatMessage[], lastIndex: number) => void;
+};
+
+type RawMessage = {
+  sender: string;
+  cipherText: string;
+  timestamp: bigint;
+  epoch: bigint;
+  attachmentHash: string;
+  attachmentSize: bigint;
+  edited: boolean;
+  deleted: boolean;
+};
+
+const toChatMessage = (message: RawMessage, index: number): ChatMessage => ({
+  index,
+  sender: message.sender,
+  cipherText: message.cipherText,
+  timestamp: Number(message.timestamp),
+  epoch: Number(message.epoch),
+  attachment: toAttachment(message.attachmentHash, message.attachmentSize),
+  edited: message.edited,
+  deleted: message.deleted,
+});
+
+/**
+ * Page through a group's timeline: the newest page is read first, older pages on demand.
+ * Pages are read at `syncedBlock` so that, merged with the live messages that the sync hook follows from the
+ * next block on, the timeline has no gaps or duplicates.
+ * With a cache the remembered messages are shown straight away and only the ones posted since are fetched.
+ */
+export function useMessagePages(
+  contractAddress: `0x${string}` | null,
+  groupId: number | null,
+  syncedBlock: bigint | null,
+  live: ChatMessage[],
+  cache: MessageCache | null
+) {
+  const publicClient = usePublicClient();
+  const [pages, setPages] = useState<ChatMessage[]>([]);
+  // Index of the oldest message loaded so far; 0 means the whole history is in `pages`.
+  const [firstIndex, setFirstIndex] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const loadingOlder = useRef(false);
+  // Bumped whenever the group or sync point changes so late responses for a previous timeline are dropped.
+  const generation = useRef(0);
+
+  useEffect(() => {
+    const current = ++generation.current;
+    setPages([]);
+    setFirstIndex(0);
+    setError(null);
+    if (!publicClient || !contractAddress || groupId === null || syncedBlock === null) return;
+
+    setLoading(true);
+    void (async () => {
+      try {
+        const cached = cache ? await cache.load(groupId) : null;
+        if (current !== generation.current) return;
+        if (cached?.messages.length) {
+          setPages(cached.messages);
+          setFirstIndex(cached.messages[0].index);
+        }
+
+        const common = { address: contractAddress, abi: CONTRACT_ABI, blockNumber: syncedBlock } as const;
+        const count = Number(
+          await publicClient.readContract({ ...common, functionName: 'getMessageCount', args: [BigInt(groupId)] })
+        );
+        const resumeFrom = cached?.messages.length ? cached.lastIndex + 1 : 0;
+        const missing = count - resumeFrom;
+
+        let timeline: ChatMessage[];
+        if (cached?.messages.length && missing >= 0 && missing <= MESSAGE_PAGE_SIZE) {
+          const newer = missing
+            ? ((await publicClient.readContract({
+                ...common,
+                functionName: 'getMessages',
+                args: [BigInt(groupId), BigInt(resumeFrom), BigInt(missing)],
+              })) as readonly RawMessage[])
+            : [];
+          timeline = [...cached.messages, ...newer.map((message, i) => toChatMessage(message, resumeFrom + i))];
+        } else {
+          const latest = (await publicClient.readContract({
+            ...common,
+            functionName: 'getLatestMessages',
+            args: [BigInt(groupId), 0n, BigInt(MESSAGE_PAGE_SIZE)],
+          })) as readonly RawMessage[];
+          timeline = latest.map((message, i) => toChatMessage(message, count - 1 - i)).reverse();
+        }
+        if (current !== generation.current) return;
+        setPages(timeline);
+        setFirstIndex(timeline.length ? timeline[0].index : count);
+        if (cache && timeline.length) cache.save(groupId, timeline.slice(-CACHED_MESSAGES), count - 1);
+      } catch (err) {
+        console.error('Failed to load messages', err);
+        if (current === generation.current) setError('Unable to load messages.');
+      } finally {
+        if (current === generation.current) setLoading(false);
+      }
+    })();
+  }, [cache, contractAddress, groupId, publicClient, syncedBlock]);
+
+  const loadOlder = useCallback(async () => {
+    if (!publicClient || !contractAddress || groupId === null || syncedBlock === null) return;
+    if (loadingOlder.current || loading || firstIndex === 0) return;
+
+    const current = generation.current;
+    const start = Math.max(firstIndex - MESSAGE_PAGE_SIZE, 0);
+    loadingOlder.current = true;
+    setLoading(true);
+    try {
+      const older = (await publicClient.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getMessages',
+        args: [BigInt(groupId), BigInt(start), BigInt(firstIndex - start)],
+        blockNumber: syncedBlock,
+      })) as readonly RawMessage[];
+      if (current !== generation.current) return;
+      setPages((prev) => [...older.map((message, i) => toChatMessage(message, start + i)), ...prev]);
+      setFirstIndex(start);
+    } catch (err) {
+      console.error('Failed to load older messages', err);
+      if (current === generation.current) setError('Unable to load older messages.');
+    } finally {
+      loadingOlder.current = false;
+      if (current === generation.current) setLoading(false);
+    }
+  }, [contractAddress, firstIndex, groupId, loading, publicClient, syncedBlock]);
+
+  const messages = useMemo(() => {
+    const seen = new Set(pages.map((message) => message.index));
+    return [...pages, ...live.filter((message) => !seen.has(message.index))];
+  }, [live, pages]);
+
+  return { messages, hasOlder: firstIndex > 0, loading, error, loadOlder };
+}
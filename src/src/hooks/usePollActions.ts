@@ -0,0 +1,42 @@
+import { encryptPayload, encryptPoll, type Poll, type PollContent, type PollsClient } from '../../../sdk';
+import type { GroupMeta } from '../utils/sync';
+import type { WalletAction } from './useWalletAction';
+
+/**
+ * Opening, voting on and revealing encrypted polls through the polls contract, as the connected wallet.
+ * Each flow resolves with whether it went through, so the dialog or card that started it can close.
+ */
+export function usePollActions(polls: PollsClient | null, { run, setStatus }: WalletAction) {
+  // The poll is opened first, then announced with a message so its card shows in the timeline.
+  const createPoll = (group: GroupMeta, key: bigint, content: PollContent, duration: number) =>
+    run('Opening the poll...', 'Failed to open the poll', async (writer, signer) => {
+      if (!polls) throw new Error('No polls contract on this network');
+      const deadline = Math.floor(Date.now() / 1000) + duration;
+      const pollsWriter = polls.connect(signer);
+      const cipherText = await encryptPoll(content, key);
+      const tx = await pollsWriter.createPoll(group.id, cipherText, content.options.length, deadline);
+      const pollId = pollsWriter.createdPollId((await tx.wait())!);
+      setStatus('Announcing the poll in the room...');
+      const announcement = await encryptPayload({ type: 'poll', body: content.question, poll: pollId }, key);
+      await (await writer.postMessage(group.id, announcement)).wait();
+    });
+
+  const votePoll = (pollId: number, option: number) =>
+    run('Encrypting and sending your vote...', 'Failed to send the vote', async (_, signer) => {
+      if (!polls) throw new Error('No polls contract on this network');
+      await (await polls.connect(signer).vote(pollId, option)).wait();
+      return 'Vote counted. Totals stay encrypted until the poll closes.';
+    });
+
+  // Anyone may reveal an ended poll: closing makes the tallies publicly decryptable, then the KMS result is published.
+  const revealPoll = (poll: Poll) =>
+    run('Closing the poll...', 'Failed to reveal the result', async (_, signer) => {
+      if (!polls) throw new Error('No polls contract on this network');
+      const pollsWriter = polls.connect(signer);
+      if (!poll.closed) await (await pollsWriter.closePoll(poll.id)).wait();
+      setStatus('Decrypting the totals and publishing them...');
+      await (await pollsWriter.publishResult(poll.id)).wait();
+    });
+
+  return { createPoll, votePoll, revealPoll };
+}
@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { createPollsClient } from '../../../sdk';
+import { POLLS_ABI } from '../config/contracts';
+import { useEthersProvider } from './useEthersProvider';
+
+/**
+ * SDK client of the polls contract for reads; `connect` it to the wallet signer to vote or reveal results.
+ * Votes are encrypted and results publicly decrypted through the Zama instance of the network.
+ */
+export function usePollsClient(pollsAddress: `0x${string}` | null, instance: FhevmInstance | null) {
+  const provider = useEthersProvider();
+
+  return useMemo(
+    () =>
+      pollsAddress && provider
+        ? createPollsClient({
+            address: pollsAddress,
+            abi: POLLS_ABI,
+            runner: provider,
+            encryptOption: async (contractAddress, account, option) => {
+              if (!instance) throw new Error('Encryption service unavailable');
+              const input = instance.createEncryptedInput(contractAddress, account).add32(option);
+              const { handles, inputProof } = await input.encrypt();
+              return { handle: handles[0], inputProof };
+            },
+            publicDecrypt: async (handles) => {
+              if (!instance) throw new Error('Encryption service unavailable');
+              return instance.publicDecrypt(handles);
+            },
+          })
+        : null,
+    [instance, pollsAddress, provider]
+  );
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { JsonRpcSigner } from 'ethers';
+import { derivePseudonym, pseudonymSeed } from '../../../sdk';
+
+/**
+ * The connected wallet's per-group pseudonyms on a deployment.
+ * The wallet signs once per session to unlock them, and the signature is only kept in memory.
+ */
+export function usePseudonyms(contractAddress: string | null, account: string | undefined) {
+  const seed = useRef<string | null>(null);
+  // Addresses of the pseudonyms unlocked so far, by group id, to recognise the wallet's own anonymous messages.
+  const [mine, setMine] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    seed.current = null;
+    setMine({});
+  }, [account, contractAddress]);
+
+  const pseudonymIn = useCallback(
+    async (signer: JsonRpcSigner, groupId: number) => {
+      if (!contractAddress) throw new Error('No contract selected');
+      if (!seed.current) {
+        const { chainId } = await signer.provider.getNetwork();
+        seed.current = await pseudonymSeed(signer, Number(chainId), contractAddress);
+      }
+      const pseudonym = derivePseudonym(seed.current, groupId);
+      setMine((prev) => (prev[groupId] ? prev : { ...prev, [groupId]: pseudonym.address }));
+      return pseudonym;
+    },
+    [contractAddress]
+  );
+
+  return { mine, pseudonymIn };
+}
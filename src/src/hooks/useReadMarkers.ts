@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { bytesToHex, hexToBytes } from 'viem';
+import type { AnonVerseClient } from '../../../sdk';
+import type { GroupRecord, VaultKeys } from '../utils/vault';
+
+/** Index of the last read message per group; groups missing from it have nothing read yet. */
+export type ReadMarkers = Record<number, number>;
+
+type MarkerVault = {
+  unlock: () => Promise<VaultKeys | null>;
+  load: (groupId: number) => Promise<GroupRecord | null>;
+  update: (groupId: number, patch: Partial<GroupRecord>, keys?: VaultKeys | null) => Promise<void>;
+  seal: (value: unknown, keys?: VaultKeys | null) => Promise<Uint8Array | null>;
+  open: <T>(sealed: Uint8Array, keys?: VaultKeys | null) => Promise<T | null>;
+};
+
+// Positions only move forward, so merging two sets of markers keeps the furthest of each group.
+const merge = (a: ReadMarkers, b: ReadMarkers): ReadMarkers => {
+  const merged = { ...a };
+  for (const [groupId, index] of Object.entries(b)) {
+    merged[Number(groupId)] = Math.max(merged[Number(groupId)] ?? -1, index);
+  }
+  return merged;
+};
+
+/**
+ * Last-read positions of the connected account in the given groups.
+ * They are kept in memory, saved in the local vault once it is unlocked, and can be synced through the contract,
+ * sealed with the vault's portable key, so other devices of the same wallet pick them up.
+ */
+export function useReadMarkers(
+  groupIds: number[],
+  vault: MarkerVault,
+  client: AnonVerseClient | null,
+  account: string | undefined
+) {
+  const { unlock, load, update, seal, open } = vault;
+  const [markers, setMarkers] = useState<ReadMarkers>({});
+  const current = useRef<ReadMarkers>({});
+
+  const commit = useCallback((next: ReadMarkers) => {
+    current.current = next;
+    setMarkers(next);
+  }, []);
+
+  useEffect(() => {
+    commit({});
+  }, [account, client?.address, commit]);
+
+  // Compared by value: the caller builds a new array on every render.
+  const idsKey = groupIds.join(',');
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',').map(Number) : [];
+    let cancelled = false;
+    Promise.all(ids.map(async (groupId) => [groupId, (await load(groupId))?.lastRead ?? -1] as const))
+      .then((stored) => {
+        if (cancelled) return;
+        const saved = Object.fromEntries(stored.filter(([, index]) => index >= 0));
+        // Positions reached before the vault was unlocked are saved now.
+        for (const [groupId, index] of stored) {
+          if ((current.current[groupId] ?? -1) > index) void update(groupId, { lastRead: current.current[groupId] });
+        }
+        commit(merge(current.current, saved));
+      })
+      .catch((error) => console.error('Failed to load read positions', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [commit, idsKey, load, update]);
+
+  const markRead = useCallback(
+    (groupId: number, index: number) => {
+      if ((current.current[groupId] ?? -1) >= index) return;
+      commit({ ...current.current, [groupId]: index });
+      void update(groupId, { lastRead: index });
+    },
+    [commit, update]
+  );
+
+  /**
+   * Merge the positions stored on chain with these, save the result locally and, if it moved anything forward,
+   * store it back on chain through `writer`. Returns whether a transaction was sent.
+   */
+  const syncOnChain = useCallback(
+    async (writer: AnonVerseClient) => {
+      if (!account) throw new Error('Connect your wallet first');
+      const keys = await unlock();
+      if (!keys) throw new Error('The local cache has to be unlocked to seal read positions');
+
+      const stored = await writer.getReadMarkers(account);
+      let remote: ReadMarkers = {};
+      if (stored !== '0x') {
+        remote = (await open<ReadMarkers>(hexToBytes(stored as `0x${string}`), keys).catch(() => null)) ?? {};
+      }
+      const merged = merge(current.current, remote);
+      for (const [groupId, index] of Object.entries(merged)) {
+        if ((current.current[Number(groupId)] ?? -1) < index) await update(Number(groupId), { lastRead: index }, keys);
+      }
+      commit(merged);
+
+      const ahead = Object.entries(merged).some(([groupId, index]) => (remote[Number(groupId)] ?? -1) < index);
+      if (!ahead) return false;
+      const sealed = await seal(merged, keys);
+      if (!sealed) throw new Error('The local cache has to be unlocked to seal read positions');
+      await (await writer.setReadMarkers(bytesToHex(sealed))).wait();
+      return true;
+    },
+    [account, commit, open, seal, unlock, update]
+  );
+
+  return { markers, markRead, syncOnChain };
+}
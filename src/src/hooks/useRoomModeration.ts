@@ -0,0 +1,108 @@
+import { type Role } from '../../../sdk';
+import { shortAddress } from '../utils/format';
+import { ROLE_LABELS } from '../utils/roles';
+import type { WalletAction } from './useWalletAction';
+
+type Reload = {
+  loadMembers: (groupId: number) => Promise<void>;
+  loadJoinRequests: (groupId: number) => Promise<void>;
+};
+
+/**
+ * What hosts and moderators do to a room and its members. Each flow sends one transaction through the shared
+ * status line and reloads the roster or join requests it changed.
+ */
+export function useRoomModeration({ run }: WalletAction, { loadMembers, loadJoinRequests }: Reload) {
+  const rotateKey = (groupId: number) =>
+    run('Rotating the room key...', 'Could not rotate the key', async (writer) => {
+      await (await writer.rotateKey(groupId)).wait();
+      return 'Key rotated. Decrypt the new key to keep chatting.';
+    });
+
+  const setAnonymousPosting = (groupId: number, enabled: boolean) =>
+    run(
+      enabled ? 'Allowing anonymous posts...' : 'Turning anonymous posts off...',
+      'Could not change anonymous posting',
+      async (writer) => {
+        await (await writer.setAnonymousPosting(groupId, enabled)).wait();
+        return enabled ? 'Members can now post under a pseudonym.' : 'Anonymous posts are turned off.';
+      }
+    );
+
+  const removeMember = (groupId: number, member: string) =>
+    run(
+      `Removing ${shortAddress(member)} and rotating the key...`,
+      'Could not remove the member',
+      async (writer) => {
+        await (await writer.removeMember(groupId, member)).wait();
+        await loadMembers(groupId);
+        return 'Member removed. Decrypt the new key to keep chatting.';
+      }
+    );
+
+  const setRole = (groupId: number, member: string, role: number) =>
+    run(
+      `Making ${shortAddress(member)} ${ROLE_LABELS[role].toLowerCase()}...`,
+      'Could not change the role',
+      async (writer) => {
+        await (await writer.setRole(groupId, member, role as Role)).wait();
+        return 'Role updated.';
+      }
+    );
+
+  const transferOwnership = (groupId: number, member: string) => {
+    if (!window.confirm(`Hand this room over to ${shortAddress(member)}? You will stay on as an admin.`)) return;
+    return run(
+      `Transferring ownership to ${shortAddress(member)}...`,
+      'Could not transfer ownership',
+      async (writer) => {
+        await (await writer.transferOwnership(groupId, member)).wait();
+        return 'Ownership transferred.';
+      }
+    );
+  };
+
+  const muteMember = (groupId: number, member: string, duration: number) =>
+    run(`Muting ${shortAddress(member)}...`, 'Could not mute the member', async (writer) => {
+      await (await writer.muteMember(groupId, member, duration)).wait();
+      return 'Member muted.';
+    });
+
+  const unmuteMember = (groupId: number, member: string) =>
+    run(`Unmuting ${shortAddress(member)}...`, 'Could not unmute the member', async (writer) => {
+      await (await writer.unmuteMember(groupId, member)).wait();
+      return 'Member unmuted.';
+    });
+
+  const reviewRequest = (groupId: number, account: string, approve: boolean) =>
+    run(
+      `${approve ? 'Approving' : 'Rejecting'} ${shortAddress(account)}...`,
+      'Could not update the join request',
+      async (writer) => {
+        const tx = approve
+          ? await writer.approveRequest(groupId, account)
+          : await writer.rejectRequest(groupId, account);
+        await tx.wait();
+        await Promise.all([loadMembers(groupId), loadJoinRequests(groupId)]);
+        return approve ? 'Request approved.' : 'Request rejected.';
+      }
+    );
+
+  const inviteMember = (groupId: number, account: string) =>
+    run(`Inviting ${shortAddress(account)}...`, 'Could not invite that address', async (writer) => {
+      await (await writer.invite(groupId, account)).wait();
+      return 'Invitation sent. They can now join the room.';
+    });
+
+  return {
+    rotateKey,
+    setAnonymousPosting,
+    removeMember,
+    setRole,
+    transferOwnership,
+    muteMember,
+    unmuteMember,
+    reviewRequest,
+    inviteMember,
+  };
+}
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import type { JsonRpcSigner } from 'ethers';
+import type { AnonVerseClient } from '../../../sdk';
+
+/** One step sent as the connected wallet; it resolves with the status to show once it is done, if any. */
+export type WalletStep = (writer: AnonVerseClient, signer: JsonRpcSigner) => Promise<string | null | void>;
+
+export type WalletAction = {
+  busy: boolean;
+  setStatus: (status: string | null) => void;
+  run: (pending: string, failed: string, step: WalletStep) => Promise<boolean>;
+};
+
+/**
+ * Busy flag and status line shared by everything the app sends with the connected wallet.
+ * `run` shows `pending` while its step goes through the client acting as the wallet, then whatever status the step
+ * resolves with, or `failed` if it throws; it resolves with whether the step went through.
+ */
+export function useWalletAction(client: AnonVerseClient | null, signer: Promise<JsonRpcSigner> | undefined) {
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const run = async (pending: string, failed: string, step: WalletStep) => {
+    if (!client) {
+      setStatus('Enter a valid contract address first.');
+      return false;
+    }
+    const signerInstance = await signer;
+    if (!signerInstance) {
+      setStatus('Connect your wallet first.');
+      return false;
+    }
+
+    setBusy(true);
+    setStatus(pending);
+    try {
+      setStatus((await step(client.connect(signerInstance), signerInstance)) ?? null);
+      return true;
+    } catch (error) {
+      console.error(failed, error);
+      setStatus(`${failed}.`);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return { busy, status, setStatus, run };
+}
@@ -1,11 +1,61 @@
 import { useState, useEffect } from 'react';
-import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { JsonRpcProvider } from 'ethers';
+import {
+  createInstance,
+  initSDK,
+  SepoliaConfig,
+  type FhevmInstance,
+  type FhevmInstanceConfig
+} from '@zama-fhe/relayer-sdk/bundle';
+import { sepolia } from 'wagmi/chains';
+import type { Network } from '../config/networks';
 
-export function useZamaInstance() {
-  const [instance, setInstance] = useState<any>(null);
+const RELAYER_CONFIGS: Record<number, FhevmInstanceConfig> = {
+  [sepolia.id]: SepoliaConfig,
+};
+
+type RelayerMetadata = {
+  ACLAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  chainId: number;
+  gatewayChainId: number;
+};
+
+// The mock is only loaded when a local node is selected, so it stays out of the bundle users download first.
+async function createMockInstance(rpcUrl: string) {
+  const { MockFhevmInstance, contracts } = await import('@fhevm/mock-utils');
+  const provider = new JsonRpcProvider(rpcUrl);
+  // Served by the FHEVM Hardhat plugin when running `npx hardhat node`.
+  const metadata: RelayerMetadata = await provider.send('fhevm_relayer_metadata', []);
+  const kmsVerifier = await contracts.KMSVerifier.create(provider, metadata.KMSVerifierAddress);
+  const inputVerifier = await contracts.InputVerifier.create(provider, metadata.InputVerifierAddress);
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      verifyingContractAddressDecryption: kmsVerifier.gatewayDecryptionAddress,
+      verifyingContractAddressInputVerification: inputVerifier.eip712Domain.verifyingContract as `0x${string}`,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+    },
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} }
+  );
+}
+
+/** An FHEVM instance for the wallet's network, recreated whenever the wallet switches to another one. */
+export function useZamaInstance(network: Network | undefined) {
+  const [instance, setInstance] = useState<FhevmInstance | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const chainId = network?.chain.id;
+  const mode = network?.fhevm;
+  const rpcUrl = network?.chain.rpcUrls.default.http[0];
+
   useEffect(() => {
     let mounted = true;
 
@@ -13,9 +63,18 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
+        setInstance(null);
+        if (chainId === undefined || !rpcUrl) return;
 
-        const zamaInstance = await createInstance(SepoliaConfig);
+        let zamaInstance: FhevmInstance;
+        if (mode === 'mock') {
+          zamaInstance = await createMockInstance(rpcUrl);
+        } else {
+          const config = RELAYER_CONFIGS[chainId];
+          if (!config) throw new Error(`No relayer configuration for chain ${chainId}`);
+          await initSDK();
+          zamaInstance = await createInstance(config);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -32,12 +91,13 @@ export function useZamaInstance() {
       }
     };
 
-    initZama();
+    // Failures are caught and stored in `error`, so this never rejects.
+    void initZama();
 
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [chainId, mode, rpcUrl]);
 
   return { instance, isLoading, error };
-}
\ No newline at end of file
+}
@@ -0,0 +1,54 @@
+import type { GroupMeta } from './sync';
+
+export type RoomSort = 'activity' | 'messages' | 'newest' | 'oldest';
+
+export const ROOM_SORTS: { value: RoomSort; label: string }[] = [
+  { value: 'activity', label: 'Recent activity' },
+  { value: 'messages', label: 'Most messages' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+];
+
+export type RoomQuery = {
+  search: string;
+  joinedOnly: boolean;
+  createdByMe: boolean;
+  unreadOnly: boolean;
+  sort: RoomSort;
+};
+
+export const DEFAULT_ROOM_QUERY: RoomQuery = {
+  search: '',
+  joinedOnly: false,
+  createdByMe: false,
+  unreadOnly: false,
+  sort: 'activity',
+};
+
+type RoomContext = {
+  account: string | undefined;
+  isJoined: (group: GroupMeta) => boolean;
+  hasUnread: (group: GroupMeta) => boolean;
+};
+
+// A room without messages was last active when it was created.
+const lastActivity = (group: GroupMeta) => group.lastMessageAt || group.createdAt;
+
+const COMPARATORS: Record<RoomSort, (a: GroupMeta, b: GroupMeta) => number> = {
+  activity: (a, b) => lastActivity(b) - lastActivity(a) || b.id - a.id,
+  messages: (a, b) => b.messageCount - a.messageCount || a.id - b.id,
+  newest: (a, b) => b.createdAt - a.createdAt || b.id - a.id,
+  oldest: (a, b) => a.createdAt - b.createdAt || a.id - b.id,
+};
+
+/** Rooms matching the search text and every enabled filter, in the requested order. */
+export function discoverRooms(rooms: GroupMeta[], query: RoomQuery, context: RoomContext): GroupMeta[] {
+  const search = query.search.trim().toLowerCase();
+  const me = context.account?.toLowerCase();
+  return rooms
+    .filter((group) => !search || group.name.toLowerCase().includes(search) || `#${group.id}` === search)
+    .filter((group) => !query.joinedOnly || context.isJoined(group))
+    .filter((group) => !query.createdByMe || (!!me && group.creator.toLowerCase() === me))
+    .filter((group) => !query.unreadOnly || context.hasUnread(group))
+    .sort(COMPARATORS[query.sort]);
+}
@@ -0,0 +1,3 @@
+export const formatTime = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+export const shortAddress = (account: string) => `${account.slice(0, 6)}…${account.slice(-4)}`;
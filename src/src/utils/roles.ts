@@ -0,0 +1,24 @@
+import type { GroupMeta } from './sync';
+
+// Indexed like the contract's Role enum, in increasing order of power.
+export const ROLE_LABELS = ['None', 'Read-only', 'Member', 'Moderator', 'Admin', 'Owner'];
+export const ROLE_NONE = 0;
+export const ROLE_READ_ONLY = 1;
+export const ROLE_MEMBER = 2;
+export const ROLE_MODERATOR = 3;
+export const ROLE_ADMIN = 4;
+export const ROLE_OWNER = 5;
+
+export const roleOf = (group: GroupMeta, account: string | undefined) =>
+  account ? (group.roles[account.toLowerCase()] ?? ROLE_NONE) : ROLE_NONE;
+
+/**
+ * Role of an account known to be a member. Hidden-membership groups never name who joins, so there members without
+ * a role change in the logs are plain members.
+ */
+export const memberRoleOf = (group: GroupMeta, member: string) =>
+  group.roles[member.toLowerCase()] ?? (group.hiddenMembers ? ROLE_MEMBER : ROLE_NONE);
+
+/** Whether a mute set by a moderator is still running; `now` is in seconds. */
+export const isMuted = (group: GroupMeta, account: string | undefined, now = Date.now() / 1000) =>
+  !!account && (group.mutedUntil[account.toLowerCase()] ?? 0) > now;
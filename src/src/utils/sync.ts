@@ -0,0 +1,320 @@
+import type { GetContractEventsReturnType, PublicClient } from 'viem';
+import type { AttachmentRef } from '../../../shared/attachments';
+import type { Gate, GateKind, SealedProfile } from '../../../sdk';
+import { CONTRACT_ABI } from '../config/contracts';
+import { ROLE_MEMBER, ROLE_OWNER } from './roles';
+
+export type GroupMeta = {
+  id: number;
+  name: string;
+  creator: string;
+  owner: string;
+  // Roles and mute expiries (seconds) keyed by lowercase member address.
+  roles: Record<string, number>;
+  mutedUntil: Record<string, number>;
+  privacy: number;
+  createdAt: number;
+  memberCount: number;
+  messageCount: number;
+  // Timestamp (seconds) of the latest message, zero while the group has none.
+  lastMessageAt: number;
+  secretHandle: string;
+  keyEpoch: number;
+  // Direct conversations list their two participants; regular groups leave this empty.
+  direct: boolean;
+  participants: string[];
+  // Whether admins allow members to post without revealing their address.
+  anonymousPosts: boolean;
+  // Whether the member list is encrypted; membership events of such groups carry the zero address.
+  hiddenMembers: boolean;
+  // Name, description and avatar sealed with the key of an epoch; `name` is then only a public hint, maybe empty.
+  profile?: SealedProfile;
+  // What joining asks for, set at creation; absent when the privacy mode is the only rule.
+  gate?: Gate;
+};
+
+export type ChatMessage = {
+  index: number;
+  sender: string;
+  cipherText: string;
+  timestamp: number;
+  epoch: number;
+  attachment?: AttachmentRef;
+  edited?: boolean;
+  deleted?: boolean;
+  // Accounts that reacted, indexed by reaction kind.
+  reactions?: string[][];
+  clearText?: string;
+  replyTo?: number;
+  // Id of the poll a message announces, in the polls contract of the deployment.
+  poll?: number;
+  decryptFailed?: boolean;
+  // Pseudonym whose signature an anonymous message carries, once decrypted and verified.
+  pseudonym?: string;
+};
+
+/** Changes made to a message after it was posted: edits, tombstones and reactions. */
+export type MessageUpdate = Partial<
+  Pick<ChatMessage, 'cipherText' | 'epoch' | 'attachment' | 'edited' | 'deleted' | 'reactions'>
+>;
+
+export type ContractLog = GetContractEventsReturnType<typeof CONTRACT_ABI>[number];
+
+export type SyncState = {
+  groups: GroupMeta[];
+  messages: Record<number, ChatMessage[]>;
+  // Folded from the full log history, so they also apply to messages that are paged in later.
+  updates: Record<number, Record<number, MessageUpdate>>;
+};
+
+// Public RPC endpoints commonly cap eth_getLogs ranges, so history is fetched in windows of this many blocks.
+export const LOG_CHUNK_SIZE = 5_000n;
+
+export const createSyncState = (): SyncState => ({ groups: [], messages: {}, updates: {} });
+
+export const withUpdate = (message: ChatMessage, update: MessageUpdate | undefined): ChatMessage =>
+  update ? { ...message, ...update } : message;
+
+/** The other participant of a direct conversation, seen from `account`. */
+export const peerOf = (group: GroupMeta, account: string | undefined) =>
+  group.participants.find((participant) => participant.toLowerCase() !== account?.toLowerCase()) ?? '';
+
+export const logId = (log: ContractLog) => `${log.transactionHash}:${log.logIndex}`;
+
+const byPosition = (a: ContractLog, b: ContractLog) =>
+  a.blockNumber === b.blockNumber ? (a.logIndex ?? 0) - (b.logIndex ?? 0) : a.blockNumber < b.blockNumber ? -1 : 1;
+
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+
+/** Attachment reference of a message as read from the contract; absent when the hash is zero. */
+export const toAttachment = (hash: string | undefined, size: bigint | undefined): AttachmentRef | undefined =>
+  hash && hash !== ZERO_HASH ? { hash, size: Number(size) } : undefined;
+
+const without = <T>(record: Record<string, T>, account: string | undefined) => {
+  const copy = { ...record };
+  delete copy[(account ?? '').toLowerCase()];
+  return copy;
+};
+
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+
+// Hidden-membership groups announce joins, departures, roles and mutes without naming the account.
+const isNamed = (account: string | undefined) => !!account && account !== ZERO_ADDRESS;
+
+const isFirstGroup = (log: ContractLog) => log.eventName === 'GroupCreated' && log.args.groupId === 0n;
+
+// Windows fetched at the same time when the whole range is known up front.
+const PARALLEL_CHUNKS = 4;
+
+/**
+ * Fetch every AnonVerse log up to `toBlock`.
+ * From a known deployment block the range is split into chunks fetched a few at a time. For a contract whose
+ * deployment block is unknown, the walk goes backwards in chunks instead and stops at the log that creates
+ * group #0, since nothing can happen on the contract before it.
+ */
+export async function fetchHistory(
+  client: PublicClient,
+  address: `0x${string}`,
+  toBlock: bigint,
+  fromBlock?: bigint
+): Promise<ContractLog[]> {
+  const fetchChunk = (start: bigint, end: bigint) =>
+    client.getContractEvents({ address, abi: CONTRACT_ABI, fromBlock: start, toBlock: end });
+
+  if (fromBlock !== undefined) {
+    const starts: bigint[] = [];
+    for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) starts.push(start);
+    const chunks: ContractLog[][] = [];
+    for (let i = 0; i < starts.length; i += PARALLEL_CHUNKS) {
+      const window = starts.slice(i, i + PARALLEL_CHUNKS);
+      chunks.push(
+        ...(await Promise.all(
+          window.map((start) => {
+            const end = start + LOG_CHUNK_SIZE - 1n;
+            return fetchChunk(start, end < toBlock ? end : toBlock);
+          })
+        ))
+      );
+    }
+    return chunks.flat().sort(byPosition);
+  }
+
+  const chunks: ContractLog[][] = [];
+  let end = toBlock;
+  for (;;) {
+    const start = end >= LOG_CHUNK_SIZE ? end - LOG_CHUNK_SIZE + 1n : 0n;
+    const logs = await fetchChunk(start, end);
+    chunks.unshift(logs);
+    if (start === 0n || logs.some(isFirstGroup)) break;
+    end = start - 1n;
+  }
+  return chunks.flat().sort(byPosition);
+}
+
+/**
+ * Fold contract logs, in chain order, into the group list and per-group message timelines.
+ * With `withMessages` off, messages only bump the group counters; the history backfill uses this so old
+ * timelines are loaded page by page instead of being held in memory.
+ * Edits, deletions and reactions are always folded into `updates`, whichever page their message ends up on.
+ */
+export function applyLogs(state: SyncState, logs: ContractLog[], withMessages = true): SyncState {
+  if (!logs.length) return state;
+  const groups = [...state.groups];
+  const messages = { ...state.messages };
+  const updates = { ...state.updates };
+  const copied = new Set<number>();
+  const copiedUpdates = new Set<number>();
+
+  const updateGroup = (groupId: bigint, update: (group: GroupMeta) => Partial<GroupMeta>) => {
+    const group = groups[Number(groupId)];
+    if (group) groups[Number(groupId)] = { ...group, ...update(group) };
+  };
+
+  const updateMessage = (groupId: bigint, index: bigint, update: (current: MessageUpdate) => MessageUpdate) => {
+    const id = Number(groupId);
+    if (!copiedUpdates.has(id)) {
+      updates[id] = { ...(updates[id] ?? {}) };
+      copiedUpdates.add(id);
+    }
+    const current = updates[id][Number(index)] ?? {};
+    updates[id][Number(index)] = { ...current, ...update(current) };
+  };
+
+  for (const log of [...logs].sort(byPosition)) {
+    switch (log.eventName) {
+      case 'GroupCreated': {
+        const { groupId, creator, name, encryptedKey, privacy, createdAt } = log.args;
+        groups[Number(groupId)] = {
+          id: Number(groupId),
+          name: name ?? '',
+          creator: creator ?? '',
+          owner: creator ?? '',
+          roles: { [(creator ?? '').toLowerCase()]: ROLE_OWNER },
+          mutedUntil: {},
+          privacy: privacy ?? 0,
+          createdAt: Number(createdAt),
+          memberCount: 1,
+          messageCount: 0,
+          lastMessageAt: 0,
+          secretHandle: encryptedKey ?? '',
+          keyEpoch: 0,
+          direct: false,
+          participants: [],
+          anonymousPosts: false,
+          hiddenMembers: false,
+        };
+        break;
+      }
+      case 'DirectMessageStarted':
+        updateGroup(log.args.groupId!, () => ({
+          direct: true,
+          participants: [log.args.initiator ?? '', log.args.peer ?? ''],
+        }));
+        break;
+      case 'MemberJoined':
+        updateGroup(log.args.groupId!, (group) => ({
+          memberCount: group.memberCount + 1,
+          roles: isNamed(log.args.member)
+            ? { ...group.roles, [(log.args.member ?? '').toLowerCase()]: ROLE_MEMBER }
+            : group.roles,
+        }));
+        break;
+      case 'MemberLeft':
+      case 'MemberRemoved':
+        updateGroup(log.args.groupId!, (group) => ({
+          memberCount: group.memberCount - 1,
+          roles: without(group.roles, log.args.member),
+        }));
+        break;
+      // Members of hidden-membership groups look up their own role and mute instead; see `membership`.
+      case 'RoleChanged':
+        if (!isNamed(log.args.account)) break;
+        updateGroup(log.args.groupId!, (group) => ({
+          roles: { ...group.roles, [(log.args.account ?? '').toLowerCase()]: Number(log.args.role) },
+        }));
+        break;
+      case 'OwnershipTransferred':
+        if (!isNamed(log.args.newOwner)) break;
+        updateGroup(log.args.groupId!, () => ({ owner: log.args.newOwner ?? '' }));
+        break;
+      case 'MemberMuted':
+        if (!isNamed(log.args.member)) break;
+        updateGroup(log.args.groupId!, (group) => ({
+          mutedUntil: { ...group.mutedUntil, [(log.args.member ?? '').toLowerCase()]: Number(log.args.until) },
+        }));
+        break;
+      case 'MemberUnmuted':
+        updateGroup(log.args.groupId!, (group) => ({ mutedUntil: without(group.mutedUntil, log.args.member) }));
+        break;
+      case 'MembershipHidden':
+        updateGroup(log.args.groupId!, () => ({ hiddenMembers: true }));
+        break;
+      case 'GroupGated':
+        updateGroup(log.args.groupId!, () => ({
+          gate: { kind: log.args.kind as GateKind, token: log.args.token ?? '', threshold: log.args.threshold ?? 0n },
+        }));
+        break;
+      case 'ProfileChanged':
+        updateGroup(log.args.groupId!, () => ({
+          profile: log.args.cipherText ? { cipherText: log.args.cipherText, epoch: Number(log.args.epoch) } : undefined,
+        }));
+        break;
+      case 'AnonymousPostingChanged':
+        updateGroup(log.args.groupId!, () => ({ anonymousPosts: Boolean(log.args.enabled) }));
+        break;
+      case 'KeyRotated':
+        updateGroup(log.args.groupId!, () => ({
+          secretHandle: log.args.encryptedKey,
+          keyEpoch: Number(log.args.epoch),
+        }));
+        break;
+      case 'MessageEdited':
+        updateMessage(log.args.groupId!, log.args.index!, () => ({
+          cipherText: log.args.cipherText,
+          epoch: Number(log.args.epoch),
+          edited: true,
+        }));
+        break;
+      case 'MessageDeleted':
+        updateMessage(log.args.groupId!, log.args.index!, () => ({
+          cipherText: '',
+          attachment: undefined,
+          deleted: true,
+        }));
+        break;
+      case 'ReactionChanged': {
+        const { groupId, index, account, reaction, added } = log.args;
+        updateMessage(groupId!, index!, (current) => {
+          const reactions = (current.reactions ?? []).map((accounts) => [...accounts]);
+          const kind = Number(reaction);
+          const accounts = (reactions[kind] ?? []).filter((a) => a.toLowerCase() !== account?.toLowerCase());
+          reactions[kind] = added ? [...accounts, account ?? ''] : accounts;
+          return { reactions };
+        });
+        break;
+      }
+      case 'MessagePosted': {
+        const { groupId, sender, cipherText, timestamp, epoch, attachmentHash, attachmentSize } = log.args;
+        const id = Number(groupId);
+        if (withMessages) {
+          if (!copied.has(id)) {
+            messages[id] = [...(messages[id] ?? [])];
+            copied.add(id);
+          }
+          messages[id].push({
+            index: groups[id]?.messageCount ?? messages[id].length,
+            sender: sender ?? '',
+            cipherText: cipherText ?? '',
+            timestamp: Number(timestamp),
+            epoch: Number(epoch),
+            attachment: toAttachment(attachmentHash, attachmentSize),
+          });
+        }
+        updateGroup(groupId!, (group) => ({ messageCount: group.messageCount + 1, lastMessageAt: Number(timestamp) }));
+        break;
+      }
+    }
+  }
+
+  return { groups, messages, updates };
+}
@@ -0,0 +1,184 @@
+import type { ChatMessage } from './sync';
+
+const DB_NAME = 'anonverse';
+const DB_VERSION = 1;
+const WRAPPING_KEYS = 'wrapping-keys';
+const GROUPS = 'groups';
+const NONCE_LENGTH = 12;
+const LOCAL_KDF_INFO = new TextEncoder().encode('AnonVerse/local-vault/v2');
+const PORTABLE_KDF_INFO = new TextEncoder().encode('AnonVerse/portable/v2');
+// Names what the signature is for, so a signature requested by another app or for another AnonVerse feature never
+// matches this one. It is fixed rather than random so the same wallet derives the same keys on every device.
+const UNLOCK_NONCE = 'anonverse-vault-unlock-3b1f9c2e7a64d805';
+
+export type VaultScope = { chainId: number; contract: string; account: string };
+
+/**
+ * Keys derived from the unlock signature: `local` seals records in this device's IndexedDB and `portable` seals
+ * values stored elsewhere, such as on chain, so a ciphertext published there tells nothing about the local one.
+ */
+export type VaultKeys = { local: CryptoKey; portable: CryptoKey };
+
+/** What a returning member needs to reopen a room without the relayer: its keys and the ciphertexts seen so far. */
+export type GroupRecord = {
+  keys: bigint[];
+  messages: ChatMessage[];
+  lastIndex: number;
+  // Index of the last message the account has read, -1 before it read any.
+  lastRead: number;
+};
+
+type StoredRecord = { nonce: Uint8Array; sealed: ArrayBuffer };
+
+type SerializedRecord = { keys: string[]; messages: ChatMessage[]; lastIndex: number; lastRead?: number };
+
+const accountId = (chainId: number, account: string) => `${chainId}:${account.toLowerCase()}`;
+
+const recordId = (scope: VaultScope, id: number) =>
+  `${accountId(scope.chainId, scope.account)}:${scope.contract.toLowerCase()}:${id}`;
+
+export const unlockMessage = (domain: string, chainId: number, account: string) =>
+  `${domain} asks you to unlock the AnonVerse cache on this device.\n\n` +
+  `Purpose: AnonVerse vault unlock\nDomain: ${domain}\nAccount: ${account.toLowerCase()}\nChain: ${chainId}\n` +
+  `Nonce: ${UNLOCK_NONCE}\n\nThis signature never leaves your browser.`;
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(WRAPPING_KEYS);
+      request.result.createObjectStore(GROUPS);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function deleteWhere(store: string, match: (key: string) => boolean) {
+  const keys = (await run(store, 'readonly', (s) => s.getAllKeys())) as string[];
+  await Promise.all(keys.filter(match).map((key) => run(store, 'readwrite', (s) => s.delete(key))));
+}
+
+/**
+ * Look up the keys stored for this account on this device, if the vault was unlocked before.
+ * A single key left by an earlier version counts as missing, so the vault asks for the new signature.
+ */
+export async function loadWrappingKeys(chainId: number, account: string): Promise<VaultKeys | undefined> {
+  const stored = await run<VaultKeys | CryptoKey | undefined>(WRAPPING_KEYS, 'readonly', (s) =>
+    s.get(accountId(chainId, account))
+  );
+  return stored && 'portable' in stored ? stored : undefined;
+}
+
+/**
+ * Derive the vault keys from a wallet signature over `unlockMessage` and keep them on this device.
+ * The keys are non-extractable, so page scripts can use them but cannot read their bytes back out of IndexedDB.
+ */
+export async function createWrappingKeys(chainId: number, account: string, signature: string): Promise<VaultKeys> {
+  const material = new TextEncoder().encode(signature.toLowerCase());
+  const baseKey = await crypto.subtle.importKey('raw', material, 'HKDF', false, ['deriveKey']);
+  const derive = (info: Uint8Array) =>
+    crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  const keys: VaultKeys = { local: await derive(LOCAL_KDF_INFO), portable: await derive(PORTABLE_KDF_INFO) };
+  await run(WRAPPING_KEYS, 'readwrite', (s) => s.put(keys, accountId(chainId, account)));
+  return keys;
+}
+
+export async function saveGroup(scope: VaultScope, wrappingKey: CryptoKey, id: number, record: GroupRecord) {
+  const serialized: SerializedRecord = {
+    keys: record.keys.map((key) => key.toString(16)),
+    messages: record.messages.map(({ index, sender, cipherText, timestamp, epoch, attachment, edited, deleted }) => ({
+      index,
+      sender,
+      cipherText,
+      timestamp,
+      epoch,
+      attachment,
+      edited,
+      deleted,
+    })),
+    lastIndex: record.lastIndex,
+    lastRead: record.lastRead,
+  };
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    wrappingKey,
+    new TextEncoder().encode(JSON.stringify(serialized))
+  );
+  await run(GROUPS, 'readwrite', (s) => s.put({ nonce, sealed } satisfies StoredRecord, recordId(scope, id)));
+}
+
+/** Read a group record back; records sealed under another wrapping key are treated as missing. */
+export async function loadGroup(scope: VaultScope, wrappingKey: CryptoKey, id: number): Promise<GroupRecord | null> {
+  const stored = await run<StoredRecord | undefined>(GROUPS, 'readonly', (s) => s.get(recordId(scope, id)));
+  if (!stored) return null;
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.nonce }, wrappingKey, stored.sealed);
+    const record = JSON.parse(new TextDecoder().decode(plain)) as SerializedRecord;
+    // Records written before read positions were tracked have none.
+    return { ...record, keys: record.keys.map((key) => BigInt(`0x${key}`)), lastRead: record.lastRead ?? -1 };
+  } catch (error) {
+    console.warn('Discarding unreadable cache entry', error);
+    return null;
+  }
+}
+
+/**
+ * Seal a JSON value under the portable key for storage off this device, as the nonce followed by the ciphertext.
+ * The portable key comes from a signature over a fixed message, so the same wallet can open it on any device.
+ */
+export async function sealPortable(wrappingKey: CryptoKey, value: unknown): Promise<Uint8Array> {
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    wrappingKey,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  const bytes = new Uint8Array(NONCE_LENGTH + sealed.byteLength);
+  bytes.set(nonce);
+  bytes.set(new Uint8Array(sealed), NONCE_LENGTH);
+  return bytes;
+}
+
+/** Open a value sealed by `sealPortable`; throws when it was sealed under another key or tampered with. */
+export async function openPortable<T>(wrappingKey: CryptoKey, bytes: Uint8Array): Promise<T> {
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, NONCE_LENGTH) },
+    wrappingKey,
+    bytes.slice(NONCE_LENGTH)
+  );
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+}
+
+/** Remove everything this device holds for the account: its vault keys and every cached group. */
+export async function forgetAccount(chainId: number, account: string) {
+  const prefix = accountId(chainId, account);
+  await deleteWhere(WRAPPING_KEYS, (key) => key === prefix);
+  await deleteWhere(GROUPS, (key) => key.startsWith(`${prefix}:`));
+}
+
+/** Remove every entry that does not belong to `account`, so switching wallets leaves nothing of the previous one. */
+export async function retainAccount(account: string) {
+  const owned = (key: string) => key.split(':')[1] === account.toLowerCase();
+  await deleteWhere(WRAPPING_KEYS, (key) => !owned(key));
+  await deleteWhere(GROUPS, (key) => !owned(key));
+}
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The message codec lives in ../shared so the Hardhat tasks and tests use the exact same code.
+  server: { fs: { allow: ['..'] } },
+  // ../sdk imports ethers too; bundle the app's copy only.
+  resolve: { dedupe: ['ethers'] },
 })
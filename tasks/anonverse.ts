@@ -1,85 +1,683 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { hexlify } from "ethers";
+import {
+  createAnonVerseClient,
+  createAnonymousPostsClient,
+  createPollsClient,
+  decryptPayload,
+  decryptPoll,
+  decryptProfile,
+  derivePseudonym,
+  describeGate,
+  encryptPayload,
+  encryptPoll,
+  encryptProfile,
+  GateKind,
+  handleOf,
+  pseudonymSeed,
+  signAsPseudonym,
+  tokenGate,
+  verifyPseudonym,
+  type AddressDecryptor,
+  type AnonVerseClient,
+  type Gate,
+  type Group,
+  type KeyDecryptor,
+  type Message,
+  type MessagePayload,
+  type Privacy,
+  type Role,
+} from "../sdk";
+import { createRelayerClient, NO_ATTACHMENT, postDomain, signPost } from "../shared/metaTx";
 
 const CONTRACT_NAME = "AnonVerse";
+const POLLS_CONTRACT_NAME = "AnonVersePolls";
+const ANONYMOUS_POSTS_CONTRACT_NAME = "AnonVerseAnonymousPosts";
+// Indexed like the contract's Privacy enum.
+const PRIVACY_MODES = ["open", "approval", "invite"];
+// Indexed like the contract's Role enum; "none" and "owner" cannot be assigned with task:set-role.
+const ROLES = ["none", "read-only", "member", "moderator", "admin", "owner"];
+const ASSIGNABLE_ROLES = ROLES.slice(1, -1);
+const READ_PAGE_SIZE = 50;
+// How long a post signed for the relayer stays valid, in seconds.
+const RELAYED_POST_TTL = 10 * 60;
 
-task("task:list-groups", "List all groups").setAction(async function (_taskArguments: TaskArguments, hre) {
-  const { deployments, ethers } = hre;
+/** A client of the deployed contract acting as the first Hardhat account, and decrypting for it. */
+async function connect(hre: HardhatRuntimeEnvironment) {
+  const { deployments, ethers, fhevm } = hre;
   const deployment = await deployments.get(CONTRACT_NAME);
-  const contract = await ethers.getContractAt(CONTRACT_NAME, deployment.address);
+  const signer = (await ethers.getSigners())[0];
+  const decryptKeys: KeyDecryptor = async (handles) => {
+    await fhevm.initializeCLIApi();
+    const clear: Record<string, bigint> = {};
+    // One at a time: the mock cannot run user decryptions concurrently.
+    for (const handle of handles) {
+      clear[handle] = await fhevm.userDecryptEuint(FhevmType.euint256, handle, deployment.address, signer);
+    }
+    return clear;
+  };
+  const decryptAddresses: AddressDecryptor = async (handles) => {
+    await fhevm.initializeCLIApi();
+    const clear: Record<string, string> = {};
+    for (const handle of handles) {
+      clear[handle] = await fhevm.userDecryptEaddress(handle, deployment.address, signer);
+    }
+    return clear;
+  };
+  const client = createAnonVerseClient({
+    address: deployment.address,
+    abi: deployment.abi,
+    runner: signer,
+    decryptKeys,
+    decryptAddresses,
+  });
+  return { client, signer };
+}
 
-  const count = await contract.getGroupCount();
-  console.log(`Found ${count} groups in ${deployment.address}`);
+/** A client of the deployed polls contract acting as the first Hardhat account. */
+async function connectPolls(hre: HardhatRuntimeEnvironment) {
+  const { deployments, ethers, fhevm } = hre;
+  const deployment = await deployments.get(POLLS_CONTRACT_NAME);
+  return createPollsClient({
+    address: deployment.address,
+    abi: deployment.abi,
+    runner: (await ethers.getSigners())[0],
+    async encryptOption(contractAddress, account, option) {
+      await fhevm.initializeCLIApi();
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(contractAddress, account)
+        .add32(option)
+        .encrypt();
+      return { handle: handles[0], inputProof };
+    },
+    async publicDecrypt(handles) {
+      await fhevm.initializeCLIApi();
+      return fhevm.publicDecrypt(handles);
+    },
+  });
+}
 
-  for (let i = 0; i < count; i++) {
-    const [name, creator, createdAt, memberCount, messageCount] = await contract.getGroup(i);
-    console.log(
-      `#${i} ${name} | creator=${creator} | created=${new Date(Number(createdAt) * 1000).toISOString()} | members=${memberCount} | messages=${messageCount}`,
-    );
+/** A client of the anonymous posts contract of `client`'s deployment, acting as the first Hardhat account. */
+async function connectAnonymousPosts(hre: HardhatRuntimeEnvironment, client: AnonVerseClient) {
+  const { artifacts, ethers, fhevm } = hre;
+  // AnonVerse deploys the contract itself, so it has no deployment record of its own.
+  const { abi } = await artifacts.readArtifact(ANONYMOUS_POSTS_CONTRACT_NAME);
+  return createAnonymousPostsClient({
+    address: await client.anonymousPostsAddress(),
+    abi,
+    runner: (await ethers.getSigners())[0],
+    async encryptPass(contractAddress, account, pass) {
+      await fhevm.initializeCLIApi();
+      const { handles, inputProof } = await fhevm.createEncryptedInput(contractAddress, account).add256(pass).encrypt();
+      return { handle: handles[0], inputProof };
+    },
+    async publicDecrypt(handles) {
+      await fhevm.initializeCLIApi();
+      return fhevm.publicDecrypt(handles);
+    },
+  });
+}
+
+/** The join gate asked for with the --erc20, --erc721 or --member-of options of task:create-group, if any. */
+async function gateOf(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment): Promise<Gate | undefined> {
+  const { erc20, erc721, memberOf, min } = taskArguments;
+  if ([erc20, erc721, memberOf].filter((option) => option !== undefined).length > 1) {
+    throw new Error("Use only one of --erc20, --erc721 and --member-of");
   }
-});
+  if (memberOf !== undefined) {
+    return { kind: GateKind.Group, token: hre.ethers.ZeroAddress, threshold: BigInt(memberOf) };
+  }
+  if (erc721 !== undefined) return tokenGate(GateKind.ERC721, erc721, min, hre.ethers.provider);
+  if (erc20 !== undefined) return tokenGate(GateKind.ERC20, erc20, min, hre.ethers.provider);
+  return undefined;
+}
 
-task("task:create-group", "Create a new group with a random encrypted key")
-  .addParam("name", "Readable group name")
+/** Keys of a group by epoch, unlocked once per task run and again only after the group moved to a new epoch. */
+function groupKeyring(client: AnonVerseClient, groupId: number) {
+  let keys: bigint[] = [];
+  return async (epoch: number) => {
+    if (keys[epoch] === undefined) {
+      keys = (await client.unlockKeys([groupId]))[groupId];
+    }
+    return keys[epoch];
+  };
+}
+
+task("task:list-groups", "List all groups, or only those an address is a member of")
+  .addOptionalParam("account", "Only list the groups of this address (use 'me' for the first Hardhat account)")
+  .addFlag("unlock", "Decrypt the private names of the groups you are a member of")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { deployments, ethers } = hre;
-    const deployment = await deployments.get(CONTRACT_NAME);
-    const contract = await ethers.getContractAt(CONTRACT_NAME, deployment.address);
-    const signer = (await ethers.getSigners())[0];
+    const { client, signer } = await connect(hre);
+    const nameOf = async (group: Group) => {
+      const profile = await client.getProfile(group.id);
+      if (!profile) return group.name;
+      if (taskArguments.unlock && (await client.isMember(group.id, signer.address))) {
+        const key = await groupKeyring(client, group.id)(profile.epoch);
+        const shown = group.name ? `shown as "${group.name}"` : "no public name";
+        return `${(await decryptProfile(profile.cipherText, key)).name} (private, ${shown})`;
+      }
+      return `${group.name || "(unnamed)"} (private name)`;
+    };
 
-    const tx = await contract.connect(signer).createGroup(taskArguments.name);
-    console.log(`Creating group "${taskArguments.name}" on ${deployment.address}... tx=${tx.hash}`);
-    await tx.wait();
+    const account = taskArguments.account === "me" ? signer.address : taskArguments.account;
+    let groups = account ? await client.listGroupsOf(account) : await client.listGroups();
+    // Hidden-membership groups are not indexed; your own membership in them is checked one by one.
+    if (account?.toLowerCase() === signer.address.toLowerCase()) {
+      for (const group of await client.listGroups()) {
+        if (group.hiddenMembers && (await client.isMember(group.id, signer.address))) groups.push(group);
+      }
+      groups = groups.sort((a, b) => a.id - b.id);
+    }
+    console.log(`Found ${groups.length} groups${account ? ` of ${account}` : ""} in ${client.address}`);
 
-    const count = await contract.getGroupCount();
-    const groupId = Number(count) - 1;
+    for (const group of groups) {
+      const kind = group.direct
+        ? "direct"
+        : `${PRIVACY_MODES[group.privacy]}${group.hiddenMembers ? ", hidden members" : ""}${group.anonymousPosts ? ", anonymous" : ""}`;
+      const gate = group.gate ? ` | requires ${await describeGate(group.gate, signer)}` : "";
+      console.log(
+        `#${group.id} ${await nameOf(group)} | ${kind}${gate} | owner=${group.owner} | created=${new Date(group.createdAt * 1000).toISOString()} | members=${group.memberCount} | messages=${group.messageCount}`,
+      );
+    }
+  });
+
+task("task:create-group", "Create a new group with a random encrypted key")
+  .addParam("name", "Readable group name, public unless --private-name is set")
+  .addOptionalParam("privacy", `Who can join: ${PRIVACY_MODES.join(" | ")}`, "open")
+  .addFlag("hidden", "Keep the member list encrypted so only members can read it; members then post anonymously only")
+  .addFlag("privateName", "Seal the name with the group key so only members can read it")
+  .addOptionalParam("hint", "Public name shown to outsiders instead of a private name", "")
+  .addOptionalParam("description", "Description sealed with a private name", "")
+  .addOptionalParam("erc20", "Only admit holders of at least --min of this ERC-20 token")
+  .addOptionalParam("erc721", "Only admit holders of at least --min NFTs of this ERC-721 collection")
+  .addOptionalParam("memberOf", "Only admit members of this AnonVerse group")
+  .addOptionalParam("min", "Balance a token gate asks for, in whole tokens or NFTs", "1")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const privacy = PRIVACY_MODES.indexOf(taskArguments.privacy);
+    if (privacy < 0) {
+      throw new Error(`Argument --privacy must be one of ${PRIVACY_MODES.join(", ")}`);
+    }
+    const { name, hint, description } = taskArguments;
+    if (!taskArguments.privateName && (hint || description)) {
+      throw new Error("Arguments --hint and --description need --private-name");
+    }
+    const { client, signer } = await connect(hre);
+    const gate = await gateOf(taskArguments, hre);
+
+    const tx = await client.createGroup(taskArguments.privateName ? hint : name, privacy as Privacy, {
+      hiddenMembers: taskArguments.hidden,
+      gate,
+    });
+    const kind = `${taskArguments.privacy}${taskArguments.hidden ? " hidden-membership" : ""}`;
+    console.log(`Creating ${kind} group "${name}" on ${client.address}... tx=${tx.hash}`);
+    const groupId = client.createdGroupId((await tx.wait())!);
     console.log(`Group created with id=${groupId}`);
+    if (gate) console.log(`Joining asks for ${await describeGate(gate, signer)}`);
+    if (!taskArguments.privateName) return;
+
+    // The key is drawn when the group is created, so the name can only be sealed afterwards.
+    const [key] = (await client.unlockKeys([groupId]))[groupId];
+    const sealTx = await client.setProfile(
+      groupId,
+      await encryptProfile({ name, ...(description && { description }) }, key),
+    );
+    console.log(`Sealing the name with the group key... tx=${sealTx.hash}`);
+    await sealTx.wait();
+    console.log(hint ? `Outsiders see the group as "${hint}"` : "Outsiders see the group without a name");
   });
 
 task("task:join-group", "Join an existing group")
   .addParam("group", "Group id")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { deployments, ethers } = hre;
     const groupId = parseInt(taskArguments.group);
-    const deployment = await deployments.get(CONTRACT_NAME);
-    const contract = await ethers.getContractAt(CONTRACT_NAME, deployment.address);
-    const signer = (await ethers.getSigners())[0];
+    const { client, signer } = await connect(hre);
 
-    const tx = await contract.connect(signer).joinGroup(groupId);
+    const { gate } = await client.getGroup(groupId);
+    if (gate && !(await client.meetsGate(groupId, signer.address))) {
+      throw new Error(`Group #${groupId} only admits accounts with ${await describeGate(gate, signer)}`);
+    }
+    const tx = await client.joinGroup(groupId);
     console.log(`Joining group #${groupId}... tx=${tx.hash}`);
     await tx.wait();
-    console.log("Joined successfully");
+
+    const joined = await client.isMember(groupId, signer.address);
+    console.log(joined ? "Joined successfully" : "Join request sent, waiting for the creator to approve");
   });
 
 task("task:decrypt-key", "Decrypt the shared key for a group")
   .addParam("group", "Group id")
+  .addOptionalParam("epoch", "Key epoch (defaults to the current one)")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { deployments, ethers, fhevm } = hre;
     const groupId = parseInt(taskArguments.group);
-    await fhevm.initializeCLIApi();
-
-    const deployment = await deployments.get(CONTRACT_NAME);
-    const contract = await ethers.getContractAt(CONTRACT_NAME, deployment.address);
-    const signer = (await ethers.getSigners())[0];
+    const { client } = await connect(hre);
 
-    const encryptedKey = await contract.getGroupSecret(groupId);
-    const clearKey = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedKey, deployment.address, signer);
-    console.log(`Group #${groupId} key: ${clearKey}`);
+    const epoch =
+      taskArguments.epoch !== undefined ? parseInt(taskArguments.epoch) : (await client.getGroup(groupId)).keyEpoch;
+    const clearKey = await groupKeyring(client, groupId)(epoch);
+    if (clearKey === undefined) {
+      throw new Error(`Group #${groupId} has no key epoch ${epoch}`);
+    }
+    console.log(`Group #${groupId} key (epoch ${epoch}): 0x${clearKey.toString(16).padStart(64, "0")}`);
   });
 
 task("task:post-message", "Post an already encrypted message to a group")
   .addParam("group", "Group id")
   .addParam("cipher", "Ciphertext produced with the group's shared key")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { deployments, ethers } = hre;
     const groupId = parseInt(taskArguments.group);
-    const deployment = await deployments.get(CONTRACT_NAME);
-    const contract = await ethers.getContractAt(CONTRACT_NAME, deployment.address);
-    const signer = (await ethers.getSigners())[0];
+    const { client } = await connect(hre);
 
-    const tx = await contract.connect(signer).postMessage(groupId, taskArguments.cipher);
+    const tx = await client.postMessage(groupId, taskArguments.cipher);
     console.log(`Posting message to group #${groupId}... tx=${tx.hash}`);
     await tx.wait();
     console.log("Message stored");
   });
+
+task("task:send", "Encrypt a message with the current group key and post it")
+  .addParam("group", "Group id")
+  .addParam("text", "Plain text message")
+  .addOptionalParam("replyTo", "Index of the message to reply to")
+  .addOptionalParam("relayer", "URL of a relayer to post through without paying gas")
+  .addFlag("anonymous", "Post under your pseudonym in the group instead of your address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client, signer } = await connect(hre);
+    const { chainId } = await hre.ethers.provider.getNetwork();
+
+    const { keyEpoch: epoch } = await client.getGroup(groupId);
+    let payload: MessagePayload =
+      taskArguments.replyTo !== undefined
+        ? { type: "reply", body: taskArguments.text, replyTo: parseInt(taskArguments.replyTo) }
+        : { type: "text", body: taskArguments.text };
+    const pseudonym = taskArguments.anonymous
+      ? derivePseudonym(await pseudonymSeed(signer, Number(chainId), client.address), groupId)
+      : undefined;
+    if (pseudonym) payload = await signAsPseudonym(payload, groupId, pseudonym);
+    const cipherText = await encryptPayload(payload, await groupKeyring(client, groupId)(epoch));
+
+    if (pseudonym) {
+      const as = `as ${handleOf(pseudonym.address)}`;
+      // The contract only takes anonymous posts proving their sender may post, with the group's posting pass
+      // encrypted for whoever submits the transaction.
+      const posts = await connectAnonymousPosts(hre, client);
+      const pass = await client.unlockPostingPass(groupId);
+      if (taskArguments.relayer) {
+        const relayer = createRelayerClient(taskArguments.relayer);
+        const { handle, inputProof } = await posts.encryptPass(pass, await relayer.account());
+        console.log(`Sending anonymous message to group #${groupId} ${as} through ${taskArguments.relayer}...`);
+        const txHash = await relayer.submitAnonymous({
+          groupId,
+          cipherText,
+          pass: hexlify(handle),
+          inputProof: hexlify(inputProof),
+        });
+        console.log(`Message sent in tx=${txHash}`);
+        return;
+      }
+      console.warn("Without --relayer the transaction is sent from your address, which anyone can see on chain");
+      const tx = await posts.postAnonymous(groupId, cipherText, await posts.encryptPass(pass, signer.address));
+      console.log(`Sending anonymous message to group #${groupId} ${as}... tx=${tx.hash}`);
+      const submitted = await tx.wait();
+      const published = await (await posts.publishAnonymous(posts.submittedPostId(submitted!), cipherText)).wait();
+      console.log(
+        posts.wasRejected(published!)
+          ? "The posting pass did not match, or anonymous posting was turned off, so the message was dropped"
+          : "Message sent",
+      );
+      return;
+    }
+
+    if (taskArguments.relayer) {
+      const relayer = createRelayerClient(taskArguments.relayer);
+      const post = await signPost(signer, postDomain(Number(chainId), client.address), {
+        sender: signer.address,
+        groupId,
+        cipherText,
+        ...NO_ATTACHMENT,
+        nonce: await relayer.nextNonce(signer.address),
+        deadline: Math.floor(Date.now() / 1000) + RELAYED_POST_TTL,
+      });
+      console.log(`Sending message to group #${groupId} (epoch ${epoch}) through ${taskArguments.relayer}...`);
+      console.log(`Message sent in tx=${await relayer.submit(post)}`);
+      return;
+    }
+
+    const tx = await client.postMessage(groupId, cipherText);
+    console.log(`Sending message to group #${groupId} (epoch ${epoch})... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Message sent");
+  });
+
+task("task:broadcast", "Encrypt one message for several groups and post it to all of them in one transaction")
+  .addParam("groups", "Comma separated group ids, e.g. 1,2,3")
+  .addParam("text", "Plain text message")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupIds = String(taskArguments.groups)
+      .split(",")
+      .map((id) => parseInt(id.trim()));
+    if (!groupIds.length || groupIds.some((id) => Number.isNaN(id))) {
+      throw new Error("Argument --groups must list group ids like 1,2,3");
+    }
+    const { client } = await connect(hre);
+
+    // Every group has its own key, so the same text is sealed once per group.
+    const keys = await client.unlockKeys(groupIds);
+    const cipherTexts: string[] = [];
+    for (const groupId of groupIds) {
+      const { keyEpoch } = await client.getGroup(groupId);
+      cipherTexts.push(await encryptPayload({ type: "text", body: taskArguments.text }, keys[groupId][keyEpoch]));
+    }
+
+    const tx = await client.postMessages(groupIds, cipherTexts);
+    console.log(`Broadcasting to groups ${groupIds.map((id) => `#${id}`).join(", ")}... tx=${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Message sent to ${groupIds.length} groups using ${receipt?.gasUsed} gas`);
+  });
+
+task("task:read", "Print the decrypted history of a group")
+  .addParam("group", "Group id")
+  .addFlag("follow", "Keep running and print new messages as they are posted")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client } = await connect(hre);
+    const keyFor = groupKeyring(client, groupId);
+
+    const print = async (message: Message) => {
+      const time = new Date(message.timestamp * 1000).toISOString();
+      let text = "<deleted>";
+      let author = message.anonymous ? "<anonymous>" : message.sender;
+      if (!message.deleted) {
+        const payload = await keyFor(message.epoch)
+          .then((key) => decryptPayload(message.cipherText, key))
+          .catch(() => null);
+        const pseudonym = message.anonymous && payload && verifyPseudonym(payload, groupId);
+        // Anonymous messages name nobody but their pseudonym, so those without a valid proof are left out.
+        if (message.anonymous && !pseudonym) return;
+        if (pseudonym) author = handleOf(pseudonym);
+        text = !payload
+          ? "<unable to decrypt>"
+          : payload.type === "reply"
+            ? `(reply to #${payload.replyTo}) ${payload.body}`
+            : payload.type === "poll"
+              ? `(poll #${payload.poll}) ${payload.body}`
+              : payload.body;
+      }
+      const attachment = message.attachment
+        ? ` [attachment ${message.attachment.hash}, ${message.attachment.size} bytes]`
+        : "";
+      const edited = message.edited ? " (edited)" : "";
+      console.log(`[${message.index}] ${time} ${author}: ${text}${attachment}${edited}`);
+    };
+
+    const count = await client.messageCount(groupId);
+    for (let from = 0; from < count; from += READ_PAGE_SIZE) {
+      for (const message of await client.getMessages(groupId, from, READ_PAGE_SIZE)) {
+        await print(message);
+      }
+    }
+    if (!taskArguments.follow) return;
+
+    console.log(`Following group #${groupId}, press Ctrl+C to stop`);
+    client.watchMessages(groupId, count, print, (error) => console.error("Failed to read new messages", error));
+    await new Promise(() => {});
+  });
+
+task("task:create-poll", "Open an encrypted poll in a group and announce it in the group's timeline")
+  .addParam("group", "Group id")
+  .addParam("question", "What the poll asks")
+  .addParam("options", 'Comma separated options, e.g. "Yes,No,Later"')
+  .addOptionalParam("duration", "How long voting stays open, in seconds", "86400")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const options = String(taskArguments.options)
+      .split(",")
+      .map((option) => option.trim())
+      .filter(Boolean);
+    const { client } = await connect(hre);
+    const polls = await connectPolls(hre);
+
+    const { keyEpoch } = await client.getGroup(groupId);
+    const key = await groupKeyring(client, groupId)(keyEpoch);
+    const content = { question: taskArguments.question, options };
+    // Deadlines are compared with block time, which a local node may have moved away from the clock.
+    const deadline = (await hre.ethers.provider.getBlock("latest"))!.timestamp + parseInt(taskArguments.duration);
+    const tx = await polls.createPoll(groupId, await encryptPoll(content, key), options.length, deadline);
+    console.log(`Opening a poll with ${options.length} options in group #${groupId}... tx=${tx.hash}`);
+    const pollId = polls.createdPollId((await tx.wait())!);
+    console.log(`Poll created with id=${pollId}, open until ${new Date(deadline * 1000).toISOString()}`);
+
+    const announcement = await encryptPayload({ type: "poll", body: taskArguments.question, poll: pollId }, key);
+    await (await client.postMessage(groupId, announcement)).wait();
+    console.log(`Announced poll #${pollId} in group #${groupId}`);
+  });
+
+task("task:vote", "Cast your encrypted vote in a poll")
+  .addParam("poll", "Poll id")
+  .addParam("option", "Index of the option to vote for, starting at 0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const pollId = parseInt(taskArguments.poll);
+    const option = parseInt(taskArguments.option);
+    const polls = await connectPolls(hre);
+    const signer = (await hre.ethers.getSigners())[0];
+
+    const { optionCount } = await polls.getPoll(pollId);
+    if (!(option >= 0 && option < optionCount)) {
+      throw new Error(`Poll #${pollId} has options 0 to ${optionCount - 1}`);
+    }
+    if (await polls.hasVoted(pollId, signer.address)) throw new Error(`You already voted in poll #${pollId}`);
+
+    const tx = await polls.vote(pollId, option);
+    console.log(`Sending your encrypted vote in poll #${pollId}... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Vote counted");
+  });
+
+task("task:poll-result", "Print a poll, revealing its result once the deadline has passed")
+  .addParam("poll", "Poll id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const pollId = parseInt(taskArguments.poll);
+    const { client } = await connect(hre);
+    const polls = await connectPolls(hre);
+
+    let poll = await polls.getPoll(pollId);
+    const votes = () => `${poll.voterCount} ${poll.voterCount === 1 ? "vote" : "votes"}`;
+    const content = await groupKeyring(
+      client,
+      poll.groupId,
+    )(poll.epoch)
+      .then((key) => decryptPoll(poll.cipherText, key))
+      .catch(() => null);
+    console.log(`Poll #${pollId} in group #${poll.groupId}: ${content?.question ?? "<unable to decrypt>"}`);
+
+    const now = (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+    if (!poll.revealed && now < poll.deadline) {
+      console.log(`Open until ${new Date(poll.deadline * 1000).toISOString()}, ${votes()} so far`);
+      return;
+    }
+    if (!poll.closed) {
+      console.log("Closing the poll...");
+      await (await polls.closePoll(pollId)).wait();
+    }
+    if (!poll.revealed) {
+      console.log("Decrypting the tallies and publishing them...");
+      await (await polls.publishResult(pollId)).wait();
+      poll = await polls.getPoll(pollId);
+    }
+
+    console.log(`${votes()}:`);
+    poll.results!.forEach((votes, option) => {
+      console.log(`[${option}] ${content?.options[option] ?? `option ${option}`}: ${votes}`);
+    });
+  });
+
+task("task:rotate-key", "Rotate the shared key of a group you administer")
+  .addParam("group", "Group id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client } = await connect(hre);
+
+    const tx = await client.rotateKey(groupId);
+    console.log(`Rotating key of group #${groupId}... tx=${tx.hash}`);
+    await tx.wait();
+
+    const { keyEpoch } = await client.getGroup(groupId);
+    console.log(`Key rotated, current epoch=${keyEpoch}`);
+  });
+
+task("task:remove-member", "Remove a member from a group you administer and rotate its key")
+  .addParam("group", "Group id")
+  .addParam("member", "Address of the member to remove")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client } = await connect(hre);
+
+    const tx = await client.removeMember(groupId, taskArguments.member);
+    console.log(`Removing ${taskArguments.member} from group #${groupId}... tx=${tx.hash}`);
+    await tx.wait();
+
+    const { memberCount, keyEpoch } = await client.getGroup(groupId);
+    console.log(`Member removed, members=${memberCount}, current epoch=${keyEpoch}`);
+  });
+
+task("task:invite", "Invite an address to a group you administer")
+  .addParam("group", "Group id")
+  .addParam("account", "Address to invite")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client } = await connect(hre);
+
+    const tx = await client.invite(groupId, taskArguments.account);
+    console.log(`Inviting ${taskArguments.account} to group #${groupId}... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Invitation stored");
+  });
+
+task("task:approve", "Approve a pending join request for a group you administer")
+  .addParam("group", "Group id")
+  .addParam("account", "Address of the requester")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client } = await connect(hre);
+
+    const tx = await client.approveRequest(groupId, taskArguments.account);
+    console.log(`Approving ${taskArguments.account} for group #${groupId}... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Request approved");
+  });
+
+task("task:set-role", "Give a member of a group you administer another role")
+  .addParam("group", "Group id")
+  .addParam("account", "Address of the member")
+  .addParam("role", `New role: ${ASSIGNABLE_ROLES.join(" | ")}`)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    if (!ASSIGNABLE_ROLES.includes(taskArguments.role)) {
+      throw new Error(`Argument --role must be one of ${ASSIGNABLE_ROLES.join(", ")}`);
+    }
+    const role = ROLES.indexOf(taskArguments.role) as Role;
+    const { client } = await connect(hre);
+
+    const tx = await client.setRole(groupId, taskArguments.account, role);
+    console.log(`Making ${taskArguments.account} ${taskArguments.role} of group #${groupId}... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Role updated");
+  });
+
+task("task:transfer-ownership", "Hand a group you own over to another member")
+  .addParam("group", "Group id")
+  .addParam("account", "Address of the new owner")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client } = await connect(hre);
+
+    const tx = await client.transferOwnership(groupId, taskArguments.account);
+    console.log(`Transferring group #${groupId} to ${taskArguments.account}... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Ownership transferred, you stay on as admin");
+  });
+
+task("task:anonymous-posting", "Allow or forbid anonymous posts in a group you administer")
+  .addParam("group", "Group id")
+  .addParam("enabled", "Whether members may post anonymously: on | off")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    if (!["on", "off"].includes(taskArguments.enabled)) {
+      throw new Error("Argument --enabled must be on or off");
+    }
+    const enabled = taskArguments.enabled === "on";
+    const { client } = await connect(hre);
+
+    const tx = await client.setAnonymousPosting(groupId, enabled);
+    console.log(`Turning anonymous posts ${taskArguments.enabled} in group #${groupId}... tx=${tx.hash}`);
+    await tx.wait();
+    console.log(enabled ? "Members can now post anonymously" : "Anonymous posts are no longer accepted");
+  });
+
+task("task:list-members", "List the members of a group, decrypting them for hidden-membership groups")
+  .addParam("group", "Group id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client, signer } = await connect(hre);
+
+    const group = await client.getGroup(groupId);
+    let members: string[];
+    if (!group.hiddenMembers) {
+      members = await client.listMembers(groupId);
+    } else if (await client.isMember(groupId, signer.address)) {
+      members = await client.revealMembers(groupId);
+    } else {
+      console.log(`Group #${groupId} has ${group.memberCount} members, hidden from non-members`);
+      return;
+    }
+    console.log(`Group #${groupId} has ${members.length} members`);
+    for (const member of members) {
+      console.log(`- ${member}`);
+    }
+  });
+
+task("task:claim-access", "Receive the keys of a hidden-membership group drawn since you joined")
+  .addParam("group", "Group id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client } = await connect(hre);
+
+    const tx = await client.claimAccess(groupId);
+    console.log(`Claiming access to group #${groupId}... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Every key epoch can now be decrypted");
+  });
+
+task("task:list-requests", "List pending join requests of a group")
+  .addParam("group", "Group id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const { client } = await connect(hre);
+
+    const requests = await client.listJoinRequests(groupId);
+    console.log(`Group #${groupId} has ${requests.length} pending requests`);
+    for (const account of requests) {
+      console.log(`- ${account}`);
+    }
+  });
+
+task("task:read-messages", "Print a page of encrypted messages from a group")
+  .addParam("group", "Group id")
+  .addOptionalParam("from", "Index of the first message (defaults to the latest page)")
+  .addOptionalParam("limit", "Maximum number of messages to print", "20")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const groupId = parseInt(taskArguments.group);
+    const limit = parseInt(taskArguments.limit);
+    const { client } = await connect(hre);
+
+    const count = await client.messageCount(groupId);
+    const from = taskArguments.from !== undefined ? parseInt(taskArguments.from) : Math.max(count - limit, 0);
+    const page = await client.getMessages(groupId, from, limit);
+    console.log(`Group #${groupId} messages ${from}-${from + page.length - 1} of ${count}`);
+
+    for (const message of page) {
+      const time = new Date(message.timestamp * 1000).toISOString();
+      console.log(`[${message.index}] ${time} ${message.sender} (epoch ${message.epoch}) ${message.cipherText}`);
+    }
+  });
@@ -0,0 +1,60 @@
+import { createServer, type IncomingMessage } from "http";
+import path from "path";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { contentHash } from "../shared/crypto";
+import { createFsBlobStore } from "../shared/fsBlobStore";
+
+// Keep in step with the attachment limit enforced by the frontend composer.
+const MAX_BLOB_BYTES = 10 * 1024 * 1024;
+
+async function readBody(request: IncomingMessage): Promise<Uint8Array | null> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of request) {
+    total += chunk.length;
+    if (total > MAX_BLOB_BYTES) return null;
+    chunks.push(chunk);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+task("task:blob-server", "Serve encrypted attachments from a local directory for development")
+  .addOptionalParam("dir", "Directory the blobs are written to", ".blobs")
+  .addOptionalParam("port", "Port to listen on", "8787")
+  .setAction(async function (taskArguments: TaskArguments) {
+    const dir = path.resolve(taskArguments.dir);
+    const store = createFsBlobStore(dir);
+
+    const server = createServer(async (request, response) => {
+      response.setHeader("Access-Control-Allow-Origin", "*");
+      response.setHeader("Access-Control-Allow-Methods", "GET, PUT, OPTIONS");
+      const hash = (request.url ?? "").replace(/^\/+/, "").toLowerCase();
+      try {
+        if (request.method === "OPTIONS") {
+          response.writeHead(204).end();
+        } else if (request.method === "GET") {
+          const blob = await store.get(hash);
+          if (!blob) return response.writeHead(404).end();
+          response.writeHead(200, { "Content-Type": "application/octet-stream" }).end(blob);
+        } else if (request.method === "PUT") {
+          const body = await readBody(request);
+          if (!body) return response.writeHead(413).end();
+          // Blobs are content addressed, so an upload is only accepted under its own hash.
+          if ((await contentHash(body)) !== hash) return response.writeHead(400).end("Content hash mismatch");
+          await store.put(body);
+          response.writeHead(201).end();
+        } else {
+          response.writeHead(405).end();
+        }
+      } catch (error) {
+        console.error(`${request.method} ${request.url} failed`, error);
+        response.writeHead(400).end();
+      }
+    });
+
+    server.listen(parseInt(taskArguments.port), () => {
+      console.log(`Blob server listening on http://localhost:${taskArguments.port}, storing blobs in ${dir}`);
+    });
+    await new Promise(() => {});
+  });
@@ -0,0 +1,121 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+
+const CONTRACT_NAME = "AnonVerse";
+const POLLS_CONTRACT_NAME = "AnonVersePolls";
+// Deployed by AnonVerse itself, so only its ABI is exported; the address is read from the AnonVerse contract.
+const ANONYMOUS_POSTS_CONTRACT_NAME = "AnonVerseAnonymousPosts";
+const ABI_FILE = "src/src/config/contracts.ts";
+const REGISTRY_FILE = "src/src/config/deployments.ts";
+const REGISTRY_PREFIX = "export const DEPLOYMENTS = ";
+const REGISTRY_SUFFIX = " as const;";
+// Read by the Vite dev server only, and ignored by git.
+const LOCAL_ENV_FILE = "src/.env.development.local";
+const LOCAL_DEPLOYMENT_VARIABLE = "VITE_LOCAL_DEPLOYMENT";
+// Chain id of `npx hardhat node`. Its addresses only exist on the machine running the node, so they are never
+// written to the committed registry.
+const LOCAL_CHAIN_ID = "31337";
+
+// `polls` is the AnonVersePolls deployment of the network, when there is one. `block` is the block AnonVerse was
+// deployed in, where the frontend starts reading its logs.
+type Deployment = { network: string; address: string; block: number; polls?: string };
+type Registry = Record<string, Deployment>;
+
+function readRegistry(file: string): Registry {
+  if (!fs.existsSync(file)) return {};
+  const source = fs.readFileSync(file, "utf8");
+  const start = source.indexOf(REGISTRY_PREFIX);
+  const end = source.lastIndexOf(REGISTRY_SUFFIX);
+  if (start < 0 || end < start) throw new Error(`${file} is not a deployment registry`);
+  return JSON.parse(source.slice(start + REGISTRY_PREFIX.length, end));
+}
+
+// Replace the local deployment line of the dev server's env file, keeping any other variable set there.
+function writeLocalDeployment(file: string, deployment: Deployment) {
+  const lines = fs.existsSync(file) ? fs.readFileSync(file, "utf8").split("\n") : [];
+  const kept = lines.filter((line) => line && !line.startsWith(`${LOCAL_DEPLOYMENT_VARIABLE}=`));
+  fs.writeFileSync(file, [...kept, `${LOCAL_DEPLOYMENT_VARIABLE}=${JSON.stringify(deployment)}`, ""].join("\n"));
+}
+
+function abiSource(abi: unknown[], pollsAbi: unknown[], anonymousPostsAbi: unknown[]): string {
+  return [
+    "// Generated by `npx hardhat task:export-frontend` from the compiled AnonVerse contracts. Do not edit by hand.",
+    "// The ABIs are shared by every network; deployed addresses are in deployments.ts.",
+    "",
+    `export const CONTRACT_ABI = ${JSON.stringify(abi, null, 2)} as const;`,
+    "",
+    `export const POLLS_ABI = ${JSON.stringify(pollsAbi, null, 2)} as const;`,
+    "",
+    `export const ANONYMOUS_POSTS_ABI = ${JSON.stringify(anonymousPostsAbi, null, 2)} as const;`,
+    "",
+  ].join("\n");
+}
+
+task("task:export-deployments", "Record the AnonVerse addresses of every deployed network in the frontend registry")
+  .addOptionalParam("out", "Registry file to update", REGISTRY_FILE)
+  .setAction(async function (taskArguments, hre) {
+    const file = path.resolve(hre.config.paths.root, taskArguments.out);
+    const root = hre.config.paths.deployments;
+    // Networks without a local deployments folder, such as a testnet deployed from another machine, keep their entry.
+    const registry = readRegistry(file);
+    delete registry[LOCAL_CHAIN_ID];
+
+    const networks = fs.existsSync(root) ? fs.readdirSync(root) : [];
+    for (const network of networks) {
+      const chainIdFile = path.join(root, network, ".chainId");
+      const deploymentFile = path.join(root, network, `${CONTRACT_NAME}.json`);
+      if (!fs.existsSync(chainIdFile) || !fs.existsSync(deploymentFile)) continue;
+
+      const chainId = fs.readFileSync(chainIdFile, "utf8").trim();
+      const { address, receipt } = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+      const pollsFile = path.join(root, network, `${POLLS_CONTRACT_NAME}.json`);
+      const polls = fs.existsSync(pollsFile) ? JSON.parse(fs.readFileSync(pollsFile, "utf8")).address : undefined;
+      const deployment = { network, address, block: receipt?.blockNumber ?? 0, ...(polls && { polls }) };
+      console.log(`${network} (${chainId}): ${address}${polls ? `, polls ${polls}` : ""}`);
+      if (chainId === LOCAL_CHAIN_ID) {
+        writeLocalDeployment(path.resolve(hre.config.paths.root, LOCAL_ENV_FILE), deployment);
+        console.log(`Wrote the local node's deployment to ${LOCAL_ENV_FILE}`);
+      } else {
+        registry[chainId] = deployment;
+      }
+    }
+
+    const sorted = Object.fromEntries(Object.entries(registry).sort(([a], [b]) => Number(a) - Number(b)));
+    fs.writeFileSync(
+      file,
+      [
+        "// Generated by `npx hardhat task:export-deployments` from hardhat-deploy output. Do not edit by hand.",
+        `${REGISTRY_PREFIX}${JSON.stringify(sorted, null, 2)}${REGISTRY_SUFFIX}`,
+        "",
+      ].join("\n"),
+    );
+    console.log(`Wrote ${Object.keys(sorted).length} deployments to ${path.relative(hre.config.paths.root, file)}`);
+  });
+
+task("task:export-frontend", "Write the compiled AnonVerse ABIs and the deployed addresses into the frontend")
+  .addFlag("check", "Fail instead of writing when the frontend ABIs differ from the compiled contracts")
+  .setAction(async function (taskArguments, hre) {
+    await hre.run("compile", { quiet: true });
+    const { abi } = await hre.artifacts.readArtifact(CONTRACT_NAME);
+    const { abi: pollsAbi } = await hre.artifacts.readArtifact(POLLS_CONTRACT_NAME);
+    const { abi: anonymousPostsAbi } = await hre.artifacts.readArtifact(ANONYMOUS_POSTS_CONTRACT_NAME);
+    const file = path.resolve(hre.config.paths.root, ABI_FILE);
+    const source = abiSource(abi, pollsAbi, anonymousPostsAbi);
+
+    // Only the ABI is checked: addresses depend on the deployments present on each machine.
+    if (taskArguments.check) {
+      const current = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+      if (current !== source) {
+        throw new Error(`${ABI_FILE} is stale. Run \`npx hardhat task:export-frontend\` and commit the result.`);
+      }
+      console.log(`${ABI_FILE} matches the compiled contracts`);
+      return;
+    }
+
+    fs.writeFileSync(file, source);
+    console.log(
+      `Wrote the ${CONTRACT_NAME}, ${POLLS_CONTRACT_NAME} and ${ANONYMOUS_POSTS_CONTRACT_NAME} ABIs to ${ABI_FILE}`,
+    );
+    await hre.run("task:export-deployments");
+  });
@@ -0,0 +1,42 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { createRelayer } from "../relayer/relayer";
+import { createRelayerServer } from "../relayer/server";
+import { createAnonymousPostsClient } from "../sdk";
+import { postDomain } from "../shared/metaTx";
+
+const ANONYMOUS_POSTS_CONTRACT_NAME = "AnonVerseAnonymousPosts";
+
+task("task:relayer", "Submit signed posts on behalf of their senders, batched into shared transactions")
+  .addOptionalParam("port", "Port to listen on", "8788")
+  .addOptionalParam("batchSize", "Maximum posts per transaction", "20")
+  .addOptionalParam("interval", "Milliseconds a post waits for others to share its transaction", "2000")
+  .addOptionalParam("anonymousLimit", "Anonymous posts one client address may send per minute", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments, ethers, fhevm } = hre;
+    const deployment = await deployments.get("AnonVerse");
+    const signer = (await ethers.getSigners())[0];
+    const contract = await ethers.getContractAt("AnonVerse", deployment.address, signer);
+    const { chainId } = await ethers.provider.getNetwork();
+
+    const relayer = createRelayer(contract, postDomain(Number(chainId), deployment.address), {
+      maxBatchSize: parseInt(taskArguments.batchSize),
+      flushInterval: parseInt(taskArguments.interval),
+      anonymousPosts: createAnonymousPostsClient({
+        address: await contract.ANONYMOUS_POSTS(),
+        abi: (await hre.artifacts.readArtifact(ANONYMOUS_POSTS_CONTRACT_NAME)).abi,
+        runner: signer,
+        async publicDecrypt(handles) {
+          await fhevm.initializeCLIApi();
+          return fhevm.publicDecrypt(handles);
+        },
+      }),
+    });
+    createRelayerServer(relayer, { anonymousLimit: parseInt(taskArguments.anonymousLimit) }).listen(
+      parseInt(taskArguments.port),
+      () => {
+        console.log(`Relayer listening on http://localhost:${taskArguments.port}, paying gas from ${signer.address}`);
+      },
+    );
+    await new Promise(() => {});
+  });
@@ -1,31 +1,27 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
 import { ethers, fhevm } from "hardhat";
 import { FhevmType } from "@fhevm/hardhat-plugin";
-import { AnonVerse, AnonVerse__factory } from "../types";
+import { AnonVerse, AnonVerse__factory, MockERC20__factory, MockERC721__factory } from "../types";
+import { downloadAttachment, uploadAttachment } from "../shared/attachments";
+import { createMemoryBlobStore } from "../shared/blobStore";
+import { decodeMessage, encodeMessage } from "../shared/crypto";
+import { NO_ATTACHMENT, postDomain, signPost } from "../shared/metaTx";
+import { decodePayload, encodePayload } from "../shared/payload";
 
 type Signers = {
   deployer: HardhatEthersSigner;
   alice: HardhatEthersSigner;
   bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
 };
 
-function xorEncrypt(message: string, key: number): string {
-  const encoder = new TextEncoder();
-  const bytes = encoder.encode(message);
-  const keyBytes = new Uint8Array(4);
-  new DataView(keyBytes.buffer).setUint32(0, key);
-  const encrypted = bytes.map((byte, idx) => byte ^ keyBytes[idx % keyBytes.length]);
-  return Buffer.from(encrypted).toString("hex");
-}
-
-function xorDecrypt(cipherText: string, key: number): string {
-  const cipherBytes = Buffer.from(cipherText, "hex");
-  const keyBytes = new Uint8Array(4);
-  new DataView(keyBytes.buffer).setUint32(0, key);
-  const plain = cipherBytes.map((byte, idx) => byte ^ keyBytes[idx % keyBytes.length]);
-  return new TextDecoder().decode(plain);
-}
+const Privacy = { Open: 0, Approval: 1, InviteOnly: 2 } as const;
+const Role = { None: 0, ReadOnly: 1, Member: 2, Moderator: 3, Admin: 4, Owner: 5 } as const;
+const GateKind = { None: 0, ERC20: 1, ERC721: 2, Group: 3 } as const;
 
 async function deployFixture() {
   const factory = (await ethers.getContractFactory("AnonVerse")) as AnonVerse__factory;
@@ -41,7 +37,13 @@ describe("AnonVerse", function () {
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
-    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      dave: ethSigners[4],
+    };
   });
 
   beforeEach(async function () {
@@ -52,7 +54,7 @@ describe("AnonVerse", function () {
   });
 
   it("creates groups with encrypted keys and tracks the creator as first member", async function () {
-    const tx = await anonVerse.connect(signers.alice).createGroup("Alpha");
+    const tx = await anonVerse.connect(signers.alice).createGroup("Alpha", Privacy.Open);
     await tx.wait();
 
     const count = await anonVerse.getGroupCount();
@@ -63,19 +65,19 @@ describe("AnonVerse", function () {
     expect(group[1]).to.eq(signers.alice.address);
     expect(group[3]).to.eq(1n);
 
-    const clearKey = await fhevm.userDecryptEuint(FhevmType.euint32, group[5], contractAddress, signers.alice);
-    expect(clearKey).to.be.greaterThanOrEqual(0);
-    expect(clearKey).to.be.lessThan(1_000_000);
+    const clearKey = await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.alice);
+    expect(clearKey).to.be.a("bigint");
+    expect(clearKey).to.be.lessThan(2n ** 256n);
   });
 
   it("shares the key with joined members and stores encrypted messages", async function () {
-    await anonVerse.connect(signers.alice).createGroup("Beta");
+    await anonVerse.connect(signers.alice).createGroup("Beta", Privacy.Open);
     await anonVerse.connect(signers.bob).joinGroup(0);
 
     const encryptedKey = await anonVerse.getGroupSecret(0);
-    const bobKey = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedKey, contractAddress, signers.bob);
+    const bobKey = await fhevm.userDecryptEuint(FhevmType.euint256, encryptedKey, contractAddress, signers.bob);
 
-    const cipher = xorEncrypt("hello anonverse", Number(bobKey));
+    const cipher = await encodeMessage("hello anonverse", bobKey);
     const tx = await anonVerse.connect(signers.bob).postMessage(0, cipher);
     await tx.wait();
 
@@ -85,15 +87,905 @@ describe("AnonVerse", function () {
     const stored = await anonVerse.getMessage(0, 0);
     expect(stored.sender).to.eq(signers.bob.address);
     expect(stored.cipherText).to.eq(cipher);
-    expect(xorDecrypt(stored.cipherText, Number(bobKey))).to.eq("hello anonverse");
+    expect(await decodeMessage(stored.cipherText, bobKey)).to.eq("hello anonverse");
   });
 
   it("prevents non-members from posting messages", async function () {
-    await anonVerse.connect(signers.alice).createGroup("Gamma");
+    await anonVerse.connect(signers.alice).createGroup("Gamma", Privacy.Open);
     const encryptedKey = await anonVerse.getGroupSecret(0);
-    const creatorKey = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedKey, contractAddress, signers.alice);
-    const cipher = xorEncrypt("only members can post", Number(creatorKey));
+    const creatorKey = await fhevm.userDecryptEuint(FhevmType.euint256, encryptedKey, contractAddress, signers.alice);
+    const cipher = await encodeMessage("only members can post", creatorKey);
+
+    await expect(anonVerse.connect(signers.bob).postMessage(0, cipher)).to.be.revertedWithCustomError(
+      anonVerse,
+      "JoinFirst",
+    );
+  });
+
+  it("rotates the key for current members and tags messages with their epoch", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Delta", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    const firstKey = await fhevm.userDecryptEuint(
+      FhevmType.euint256,
+      await anonVerse.getGroupSecret(0),
+      contractAddress,
+      signers.bob,
+    );
+    await anonVerse.connect(signers.bob).postMessage(0, await encodeMessage("before rotation", firstKey));
+
+    await expect(anonVerse.connect(signers.alice).rotateKey(0)).to.emit(anonVerse, "KeyRotated");
+
+    const group = await anonVerse.getGroup(0);
+    expect(group[6]).to.eq(1n);
+    const secondKey = await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.bob);
+    await anonVerse.connect(signers.bob).postMessage(0, await encodeMessage("after rotation", secondKey));
+
+    const secrets = await anonVerse.getGroupSecrets(0);
+    expect(secrets.length).to.eq(2);
+    expect(await anonVerse.getGroupSecretAt(0, 1)).to.eq(group[5]);
+
+    const [first, second] = [await anonVerse.getMessage(0, 0), await anonVerse.getMessage(0, 1)];
+    expect(first.epoch).to.eq(0n);
+    expect(second.epoch).to.eq(1n);
+    const oldKey = await fhevm.userDecryptEuint(FhevmType.euint256, secrets[0], contractAddress, signers.alice);
+    expect(await decodeMessage(first.cipherText, oldKey)).to.eq("before rotation");
+    expect(await decodeMessage(second.cipherText, secondKey)).to.eq("after rotation");
+    await expect(decodeMessage(second.cipherText, oldKey)).to.be.rejectedWith("Message authentication failed");
+  });
+
+  it("only reads legacy XOR messages under legacy keys and rejects everything else", async function () {
+    const key = 2n ** 255n + 12345n;
+    const cipher = await encodeMessage("sealed", key);
+    // A tampered version byte no longer makes the envelope fall back to XOR decoding.
+    await expect(decodeMessage(`02${cipher.slice(2)}`, key)).to.be.rejectedWith("Unsupported message envelope");
+    await expect(decodeMessage(`41${cipher.slice(2)}`, key)).to.be.rejectedWith("Unsupported message envelope");
+    await expect(decodeMessage(cipher.slice(0, 40), key)).to.be.rejectedWith("Unsupported message envelope");
+    await expect(decodeMessage(`${cipher}0`, key)).to.be.rejectedWith("Invalid hex ciphertext");
+    await expect(decodeMessage(`zz${cipher.slice(2)}`, key)).to.be.rejectedWith("Invalid hex ciphertext");
+
+    // "hi" XOR-ed with the big-endian bytes of the six-digit key 123456 (0x0001e240).
+    expect(await decodeMessage("6868", 123456n)).to.eq("hi");
+    await expect(decodeMessage("68ff80", 123456n)).to.be.rejectedWith("Message authentication failed");
+  });
+
+  it("removes members, revokes posting and keeps them out of the rotated key", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Epsilon", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+
+    await expect(anonVerse.connect(signers.alice).removeMember(0, signers.bob.address))
+      .to.emit(anonVerse, "MemberRemoved")
+      .withArgs(0, signers.bob.address);
+
+    expect(await anonVerse.isMember(0, signers.bob.address)).to.eq(false);
+    expect(await anonVerse.listMembers(0)).to.deep.eq([signers.alice.address, signers.carol.address]);
+    const group = await anonVerse.getGroup(0);
+    expect(group[3]).to.eq(2n);
+    expect(group[6]).to.eq(1n);
+
+    await expect(anonVerse.connect(signers.bob).postMessage(0, "deadbeef")).to.be.revertedWithCustomError(
+      anonVerse,
+      "JoinFirst",
+    );
+    await expect(fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.bob)).to.be.rejected;
+
+    const carolKey = await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.carol);
+    expect(carolKey).to.be.a("bigint");
+  });
+
+  it("restricts removal and rotation to admins", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Zeta", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+
+    await expect(anonVerse.connect(signers.bob).rotateKey(0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InsufficientRole",
+    );
+    await expect(anonVerse.connect(signers.bob).removeMember(0, signers.alice.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InsufficientRole",
+    );
+    await expect(anonVerse.connect(signers.alice).removeMember(0, signers.alice.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "OwnerCannotBeRemoved",
+    );
+    await expect(anonVerse.connect(signers.alice).leaveGroup(0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "OwnerCannotLeave",
+    );
+  });
+
+  it("assigns roles below the caller's own and transfers ownership", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Omicron", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+    expect(await anonVerse.getRole(0, signers.alice.address)).to.eq(Role.Owner);
+    expect(await anonVerse.getRole(0, signers.bob.address)).to.eq(Role.Member);
+    expect(await anonVerse.getRole(0, signers.dave.address)).to.eq(Role.None);
+
+    await expect(
+      anonVerse.connect(signers.bob).setRole(0, signers.carol.address, Role.Moderator),
+    ).to.be.revertedWithCustomError(anonVerse, "InsufficientRole");
+    await expect(anonVerse.connect(signers.alice).setRole(0, signers.bob.address, Role.Admin))
+      .to.emit(anonVerse, "RoleChanged")
+      .withArgs(0, signers.bob.address, Role.Admin);
+    await expect(
+      anonVerse.connect(signers.bob).setRole(0, signers.carol.address, Role.Admin),
+    ).to.be.revertedWithCustomError(anonVerse, "InsufficientRole");
+    await expect(
+      anonVerse.connect(signers.bob).setRole(0, signers.alice.address, Role.Member),
+    ).to.be.revertedWithCustomError(anonVerse, "InsufficientRole");
+    await expect(
+      anonVerse.connect(signers.alice).setRole(0, signers.carol.address, Role.Owner),
+    ).to.be.revertedWithCustomError(anonVerse, "InvalidRole");
+    await anonVerse.connect(signers.bob).setRole(0, signers.carol.address, Role.Moderator);
+    await expect(anonVerse.connect(signers.bob).rotateKey(0)).to.emit(anonVerse, "KeyRotated");
+    await expect(anonVerse.connect(signers.bob).removeMember(0, signers.alice.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "OwnerCannotBeRemoved",
+    );
+
+    await expect(
+      anonVerse.connect(signers.bob).transferOwnership(0, signers.carol.address),
+    ).to.be.revertedWithCustomError(anonVerse, "InsufficientRole");
+    await expect(anonVerse.connect(signers.alice).transferOwnership(0, signers.carol.address))
+      .to.emit(anonVerse, "OwnershipTransferred")
+      .withArgs(0, signers.alice.address, signers.carol.address);
+    expect(await anonVerse.getRole(0, signers.carol.address)).to.eq(Role.Owner);
+    expect(await anonVerse.getRole(0, signers.alice.address)).to.eq(Role.Admin);
+    const group = await anonVerse.getGroup(0);
+    expect(group[1]).to.eq(signers.alice.address);
+    expect(group[9]).to.eq(signers.carol.address);
+
+    await expect(anonVerse.connect(signers.carol).leaveGroup(0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "OwnerCannotLeave",
+    );
+    await anonVerse.connect(signers.alice).leaveGroup(0);
+    expect(await anonVerse.getRole(0, signers.alice.address)).to.eq(Role.None);
+  });
+
+  it("keeps muted and read-only members from posting", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Pi", Privacy.Open);
+    for (const member of [signers.bob, signers.carol, signers.dave]) {
+      await anonVerse.connect(member).joinGroup(0);
+    }
+    await anonVerse.connect(signers.alice).setRole(0, signers.bob.address, Role.Moderator);
+    await anonVerse.connect(signers.alice).setRole(0, signers.dave.address, Role.ReadOnly);
+
+    await expect(anonVerse.connect(signers.dave).postMessage(0, "cafe")).to.be.revertedWithCustomError(
+      anonVerse,
+      "ReadOnlyMember",
+    );
+    await expect(
+      anonVerse.connect(signers.carol).muteMember(0, signers.dave.address, 60),
+    ).to.be.revertedWithCustomError(anonVerse, "InsufficientRole");
+    await expect(anonVerse.connect(signers.bob).muteMember(0, signers.alice.address, 60)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InsufficientRole",
+    );
+    await expect(anonVerse.connect(signers.bob).muteMember(0, signers.carol.address, 60))
+      .to.emit(anonVerse, "MemberMuted")
+      .withArgs(0, signers.carol.address, anyValue);
+    await expect(anonVerse.connect(signers.carol).postMessage(0, "cafe")).to.be.revertedWithCustomError(
+      anonVerse,
+      "Muted",
+    );
+
+    // Leaving and rejoining does not lift the mute; it runs out on its own.
+    await anonVerse.connect(signers.carol).leaveGroup(0);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+    await expect(anonVerse.connect(signers.carol).postMessage(0, "cafe")).to.be.revertedWithCustomError(
+      anonVerse,
+      "Muted",
+    );
+    await ethers.provider.send("evm_increaseTime", [61]);
+    await ethers.provider.send("evm_mine", []);
+    await expect(anonVerse.connect(signers.carol).postMessage(0, "cafe")).to.emit(anonVerse, "MessagePosted");
+
+    await anonVerse.connect(signers.bob).muteMember(0, signers.carol.address, 3600);
+    await expect(anonVerse.connect(signers.bob).unmuteMember(0, signers.carol.address))
+      .to.emit(anonVerse, "MemberUnmuted")
+      .withArgs(0, signers.carol.address);
+    await expect(anonVerse.connect(signers.carol).postMessage(0, "beef")).to.emit(anonVerse, "MessagePosted");
+  });
+
+  it("shares earlier epoch keys with members who join after a rotation", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Eta", Privacy.Open);
+    await anonVerse.connect(signers.alice).rotateKey(0);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+
+    const secrets = await anonVerse.getGroupSecrets(0);
+    for (const secret of secrets) {
+      const clearKey = await fhevm.userDecryptEuint(FhevmType.euint256, secret, contractAddress, signers.bob);
+      expect(clearKey).to.be.a("bigint");
+    }
+
+    await expect(anonVerse.connect(signers.bob).leaveGroup(0))
+      .to.emit(anonVerse, "MemberLeft")
+      .withArgs(0, signers.bob.address);
+    expect(await anonVerse.isMember(0, signers.bob.address)).to.eq(false);
+  });
+
+  it("queues join requests in approval groups until the creator decides", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Theta", Privacy.Approval);
+    expect((await anonVerse.getGroup(0))[7]).to.eq(BigInt(Privacy.Approval));
+
+    await expect(anonVerse.connect(signers.bob).joinGroup(0))
+      .to.emit(anonVerse, "JoinRequested")
+      .withArgs(0, signers.bob.address);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+    await expect(anonVerse.connect(signers.bob).joinGroup(0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "RequestPending",
+    );
+
+    expect(await anonVerse.isMember(0, signers.bob.address)).to.eq(false);
+    expect(await anonVerse.listJoinRequests(0)).to.deep.eq([signers.bob.address, signers.carol.address]);
+    await expect(anonVerse.connect(signers.bob).approveRequest(0, signers.bob.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InsufficientRole",
+    );
+
+    await expect(anonVerse.connect(signers.alice).approveRequest(0, signers.bob.address))
+      .to.emit(anonVerse, "MemberJoined")
+      .withArgs(0, signers.bob.address);
+    await anonVerse.connect(signers.alice).rejectRequest(0, signers.carol.address);
+
+    expect(await anonVerse.isMember(0, signers.bob.address)).to.eq(true);
+    expect(await anonVerse.isMember(0, signers.carol.address)).to.eq(false);
+    expect(await anonVerse.listJoinRequests(0)).to.deep.eq([]);
+    expect(await anonVerse.hasPendingRequest(0, signers.carol.address)).to.eq(false);
+
+    const bobKey = await fhevm.userDecryptEuint(
+      FhevmType.euint256,
+      await anonVerse.getGroupSecret(0),
+      contractAddress,
+      signers.bob,
+    );
+    expect(bobKey).to.be.a("bigint");
+  });
+
+  it("admits only invited addresses to invite-only groups", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Iota", Privacy.InviteOnly);
+
+    await expect(anonVerse.connect(signers.bob).joinGroup(0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InvitationRequired",
+    );
+    await expect(anonVerse.connect(signers.bob).invite(0, signers.bob.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InsufficientRole",
+    );
+
+    await expect(anonVerse.connect(signers.alice).invite(0, signers.bob.address))
+      .to.emit(anonVerse, "MemberInvited")
+      .withArgs(0, signers.bob.address);
+    expect(await anonVerse.isInvited(0, signers.bob.address)).to.eq(true);
+
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    expect(await anonVerse.isMember(0, signers.bob.address)).to.eq(true);
+    expect(await anonVerse.isInvited(0, signers.bob.address)).to.eq(false);
+    await expect(anonVerse.connect(signers.carol).joinGroup(0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InvitationRequired",
+    );
+  });
+
+  it("settles a pending request when its requester joins through an invitation", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Kappa", Privacy.Approval);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+    await anonVerse.connect(signers.alice).invite(0, signers.bob.address);
+
+    await expect(anonVerse.connect(signers.bob).joinGroup(0))
+      .to.emit(anonVerse, "MemberJoined")
+      .withArgs(0, signers.bob.address);
+    expect(await anonVerse.hasPendingRequest(0, signers.bob.address)).to.eq(false);
+    expect(await anonVerse.listJoinRequests(0)).to.deep.eq([signers.carol.address]);
+    await expect(anonVerse.connect(signers.alice).approveRequest(0, signers.bob.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "NoPendingRequest",
+    );
+
+    // Approving a request also uses up an invitation sent in the meantime.
+    await anonVerse.connect(signers.alice).invite(0, signers.carol.address);
+    await anonVerse.connect(signers.alice).approveRequest(0, signers.carol.address);
+    expect(await anonVerse.isInvited(0, signers.carol.address)).to.eq(false);
+
+    expect(await anonVerse.listMembers(0)).to.deep.eq([
+      signers.alice.address,
+      signers.bob.address,
+      signers.carol.address,
+    ]);
+    expect((await anonVerse.getGroup(0))[3]).to.eq(3n);
+    expect(await anonVerse.listGroupsOf(signers.bob.address)).to.deep.eq([0n]);
+  });
+
+  it("admits only accounts holding enough of the gating token or NFT", async function () {
+    const token = await ((await ethers.getContractFactory("MockERC20")) as MockERC20__factory).deploy("Pass", "PASS");
+    const nft = await ((await ethers.getContractFactory("MockERC721")) as MockERC721__factory).deploy("Keys", "KEY");
+    const tokenGate = { kind: GateKind.ERC20, token: await token.getAddress(), threshold: ethers.parseEther("100") };
+    const nftGate = { kind: GateKind.ERC721, token: await nft.getAddress(), threshold: 1 };
+
+    await expect(anonVerse.connect(signers.alice).createGatedGroup("Lambda", Privacy.Open, tokenGate, false))
+      .to.emit(anonVerse, "GroupGated")
+      .withArgs(0, GateKind.ERC20, tokenGate.token, tokenGate.threshold);
+    expect(await anonVerse.getGate(0)).to.deep.eq([BigInt(GateKind.ERC20), tokenGate.token, tokenGate.threshold]);
+
+    await token.mint(signers.bob.address, ethers.parseEther("99"));
+    expect(await anonVerse.meetsGate(0, signers.bob.address)).to.eq(false);
+    await expect(anonVerse.connect(signers.bob).joinGroup(0)).to.be.revertedWithCustomError(anonVerse, "GateNotMet");
+    await token.mint(signers.bob.address, ethers.parseEther("1"));
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    expect(await anonVerse.isMember(0, signers.bob.address)).to.eq(true);
+
+    // Join requests are gated too, so admins only review accounts that qualify.
+    await anonVerse.connect(signers.alice).createGatedGroup("Mu", Privacy.Approval, nftGate, false);
+    await expect(anonVerse.connect(signers.carol).joinGroup(1)).to.be.revertedWithCustomError(anonVerse, "GateNotMet");
+    await nft.mint(signers.carol.address);
+    await expect(anonVerse.connect(signers.carol).joinGroup(1))
+      .to.emit(anonVerse, "JoinRequested")
+      .withArgs(1, signers.carol.address);
+
+    // Ungated groups admit everyone their privacy mode allows.
+    await anonVerse.connect(signers.alice).createGroup("Nu", Privacy.Open);
+    expect(await anonVerse.meetsGate(2, signers.dave.address)).to.eq(true);
+    expect((await anonVerse.getGate(2)).kind).to.eq(BigInt(GateKind.None));
+  });
+
+  it("admits only members of the gating group and rejects malformed gates", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Xi", Privacy.Open);
+    await anonVerse
+      .connect(signers.alice)
+      .createGatedGroup(
+        "Omicron",
+        Privacy.Open,
+        { kind: GateKind.Group, token: ethers.ZeroAddress, threshold: 0 },
+        true,
+      );
+    expect(await anonVerse.hasHiddenMembers(1)).to.eq(true);
+
+    await expect(anonVerse.connect(signers.bob).joinGroup(1)).to.be.revertedWithCustomError(anonVerse, "GateNotMet");
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.bob).joinGroup(1);
+    expect(await anonVerse.connect(signers.bob).isMember(1, signers.bob.address)).to.eq(true);
+
+    const invalid = [
+      { kind: GateKind.None, token: ethers.ZeroAddress, threshold: 0 },
+      { kind: GateKind.Group, token: ethers.ZeroAddress, threshold: 5 },
+      { kind: GateKind.Group, token: contractAddress, threshold: 0 },
+      // Accounts without code cannot be asked for a balance.
+      { kind: GateKind.ERC20, token: signers.dave.address, threshold: 1 },
+      { kind: GateKind.ERC721, token: contractAddress, threshold: 0 },
+    ];
+    for (const gate of invalid) {
+      await expect(
+        anonVerse.connect(signers.alice).createGatedGroup("Pi", Privacy.Open, gate, false),
+      ).to.be.revertedWithCustomError(anonVerse, "InvalidGate");
+    }
+  });
+
+  it("pages through messages oldest first and newest first", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Kappa", Privacy.Open);
+    for (let i = 0; i < 5; i++) {
+      await anonVerse.connect(signers.alice).postMessage(0, `cafe0${i}`);
+    }
+
+    const oldest = await anonVerse.getMessages(0, 1, 2);
+    expect(oldest.map((message) => message.cipherText)).to.deep.eq(["cafe01", "cafe02"]);
+
+    const newest = await anonVerse.getLatestMessages(0, 0, 2);
+    expect(newest.map((message) => message.cipherText)).to.deep.eq(["cafe04", "cafe03"]);
+
+    const tail = await anonVerse.getMessages(0, 3, 10);
+    expect(tail.map((message) => message.cipherText)).to.deep.eq(["cafe03", "cafe04"]);
+    const head = await anonVerse.getLatestMessages(0, 4, 10);
+    expect(head.map((message) => message.cipherText)).to.deep.eq(["cafe00"]);
+
+    expect(await anonVerse.getMessages(0, 5, 10)).to.deep.eq([]);
+    expect(await anonVerse.getLatestMessages(0, 7, 10)).to.deep.eq([]);
+  });
+
+  it("opens one direct conversation per pair and shares its key with the two participants only", async function () {
+    await anonVerse.connect(signers.carol).createGroup("Lambda", Privacy.Open);
+
+    await expect(anonVerse.connect(signers.alice).startDirectMessage(signers.bob.address))
+      .to.emit(anonVerse, "DirectMessageStarted")
+      .withArgs(1, signers.alice.address, signers.bob.address);
+    expect(await anonVerse.connect(signers.bob).startDirectMessage.staticCall(signers.alice.address)).to.eq(1n);
+    await anonVerse.connect(signers.bob).startDirectMessage(signers.alice.address);
+    expect(await anonVerse.getGroupCount()).to.eq(2n);
 
-    await expect(anonVerse.connect(signers.bob).postMessage(0, cipher)).to.be.revertedWith("Join first");
+    const [exists, groupId] = await anonVerse.getDirectMessageId(signers.bob.address, signers.alice.address);
+    expect(exists).to.eq(true);
+    expect(groupId).to.eq(1n);
+    expect(await anonVerse.listDirectMessages(signers.alice.address)).to.deep.eq([1n]);
+    expect(await anonVerse.listDirectMessages(signers.bob.address)).to.deep.eq([1n]);
+    expect(await anonVerse.listDirectMessages(signers.carol.address)).to.deep.eq([]);
+
+    const group = await anonVerse.getGroup(1);
+    expect(group[3]).to.eq(2n);
+    expect(group[8]).to.eq(true);
+
+    const aliceKey = await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.alice);
+    const bobKey = await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.bob);
+    expect(bobKey).to.eq(aliceKey);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.carol)).to.be.rejected;
+
+    await anonVerse.connect(signers.bob).postMessage(1, await encodeMessage("just us", bobKey));
+    await expect(anonVerse.connect(signers.carol).joinGroup(1)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InvitationRequired",
+    );
+    await expect(anonVerse.connect(signers.alice).invite(1, signers.carol.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "DirectConversation",
+    );
+    await expect(anonVerse.connect(signers.bob).leaveGroup(1)).to.be.revertedWithCustomError(
+      anonVerse,
+      "DirectConversation",
+    );
+    // The initiator owns the conversation but cannot moderate the other participant.
+    await expect(
+      anonVerse.connect(signers.alice).muteMember(1, signers.bob.address, 3600),
+    ).to.be.revertedWithCustomError(anonVerse, "DirectConversation");
+    await expect(anonVerse.connect(signers.alice).unmuteMember(1, signers.bob.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "DirectConversation",
+    );
+    await expect(
+      anonVerse.connect(signers.alice).setRole(1, signers.bob.address, Role.ReadOnly),
+    ).to.be.revertedWithCustomError(anonVerse, "DirectConversation");
+    await expect(anonVerse.connect(signers.alice).removeMember(1, signers.bob.address)).to.be.revertedWithCustomError(
+      anonVerse,
+      "DirectConversation",
+    );
+    expect(await anonVerse.getMutedUntil(1, signers.bob.address)).to.eq(0n);
+    await expect(
+      anonVerse.connect(signers.alice).startDirectMessage(signers.alice.address),
+    ).to.be.revertedWithCustomError(anonVerse, "CannotMessageYourself");
+  });
+
+  it("indexes the groups of every address as members join, leave and are removed", async function () {
+    const groupsOf = async (account: HardhatEthersSigner) =>
+      (await anonVerse.listGroupsOf(account.address)).map(Number).sort((a, b) => a - b);
+
+    await anonVerse.connect(signers.alice).createGroup("Mu", Privacy.Open);
+    await anonVerse.connect(signers.bob).createGroup("Nu", Privacy.Open);
+    await anonVerse.connect(signers.alice).createGroup("Xi", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.bob).joinGroup(2);
+    await anonVerse.connect(signers.carol).startDirectMessage(signers.bob.address);
+
+    expect(await groupsOf(signers.alice)).to.deep.eq([0, 2]);
+    expect(await groupsOf(signers.bob)).to.deep.eq([0, 1, 2, 3]);
+    expect(await groupsOf(signers.carol)).to.deep.eq([3]);
+
+    await anonVerse.connect(signers.bob).leaveGroup(0);
+    await anonVerse.connect(signers.alice).removeMember(2, signers.bob.address);
+    expect(await groupsOf(signers.bob)).to.deep.eq([1, 3]);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    expect(await groupsOf(signers.bob)).to.deep.eq([0, 1, 3]);
+    expect(await groupsOf(signers.dave)).to.deep.eq([]);
+  });
+
+  it("keeps the members of hidden groups in encrypted slots that only members can read", async function () {
+    const slotOwners = async (signer: HardhatEthersSigner) => {
+      const owners: string[] = [];
+      for (const slot of await anonVerse.getMemberSlots(0)) {
+        owners.push(await fhevm.userDecryptEaddress(slot, contractAddress, signer));
+      }
+      return owners;
+    };
+
+    await expect(anonVerse.connect(signers.alice).createHiddenGroup("Pi", Privacy.Open))
+      .to.emit(anonVerse, "MembershipHidden")
+      .withArgs(0);
+    expect(await anonVerse.hasHiddenMembers(0)).to.eq(true);
+    expect(await anonVerse.allowsAnonymousPosts(0)).to.eq(true);
+    await expect(anonVerse.connect(signers.bob).joinGroup(0))
+      .to.emit(anonVerse, "MemberJoined")
+      .withArgs(0, ethers.ZeroAddress);
+
+    expect((await anonVerse.getGroup(0))[3]).to.eq(2n);
+    await expect(anonVerse.listMembers(0)).to.be.revertedWithCustomError(anonVerse, "HiddenMembership");
+    expect(await anonVerse.listGroupsOf(signers.bob.address)).to.deep.eq([]);
+
+    // Slots are claimed a page at a time, and only by members.
+    await expect(slotOwners(signers.bob)).to.be.rejected;
+    await anonVerse.connect(signers.bob).claimMemberSlots(0, 0, 10);
+    expect(await slotOwners(signers.bob)).to.deep.eq([signers.alice.address, signers.bob.address]);
+    await expect(slotOwners(signers.alice)).to.be.rejected;
+    await expect(anonVerse.connect(signers.carol).claimMemberSlots(0, 0, 10)).to.be.revertedWithCustomError(
+      anonVerse,
+      "NotAMember",
+    );
+    await anonVerse.connect(signers.alice).claimMemberSlots(0, 0, 1);
+    await expect(slotOwners(signers.alice)).to.be.rejected;
+    await anonVerse.connect(signers.alice).claimMemberSlots(0, 1, 1);
+    expect(await slotOwners(signers.alice)).to.deep.eq([signers.alice.address, signers.bob.address]);
+
+    await expect(anonVerse.connect(signers.alice).removeMember(0, signers.bob.address))
+      .to.emit(anonVerse, "MemberRemoved")
+      .withArgs(0, ethers.ZeroAddress);
+    expect((await anonVerse.getGroup(0))[3]).to.eq(1n);
+    await expect(anonVerse.connect(signers.bob).claimAccess(0)).to.be.revertedWithCustomError(anonVerse, "NotAMember");
+
+    // The admin who rotated the key holds it straight away; the emptied slot is claimed like any other.
+    const group = await anonVerse.getGroup(0);
+    await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.alice);
+    await anonVerse.connect(signers.alice).claimMemberSlots(0, 1, 10);
+    expect(await slotOwners(signers.alice)).to.deep.eq([signers.alice.address, ethers.ZeroAddress]);
+  });
+
+  it("reuses the slots of members who left, so rejoining costs the same every time", async function () {
+    const rejoin = async () => {
+      await anonVerse.connect(signers.bob).leaveGroup(0);
+      return (await (await anonVerse.connect(signers.bob).joinGroup(0)).wait())!.gasUsed;
+    };
+
+    await anonVerse.connect(signers.alice).createHiddenGroup("Sigma", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    const gasUsed = await rejoin();
+    for (let i = 0; i < 20; ++i) {
+      await rejoin();
+    }
+    expect(await rejoin()).to.eq(gasUsed);
+    expect(await anonVerse.getMemberSlots(0)).to.have.length(2);
+
+    // A slot freed while nobody rejoins goes to the next newcomer.
+    await anonVerse.connect(signers.bob).leaveGroup(0);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    const slots = await anonVerse.getMemberSlots(0);
+    expect(slots).to.have.length(3);
+    await anonVerse.connect(signers.alice).claimMemberSlots(0, 0, 10);
+    const owners: string[] = [];
+    for (const slot of slots) {
+      owners.push(await fhevm.userDecryptEaddress(slot, contractAddress, signers.alice));
+    }
+    expect(owners).to.deep.eq([signers.alice.address, signers.carol.address, signers.bob.address]);
+  });
+
+  it("names no member of a hidden group in its events or lists", async function () {
+    await expect(
+      anonVerse.connect(signers.alice).createHiddenGroup("Rho", Privacy.Approval),
+    ).to.be.revertedWithCustomError(anonVerse, "HiddenMembership");
+    await anonVerse.connect(signers.alice).createHiddenGroup("Rho", Privacy.InviteOnly);
+
+    await expect(anonVerse.connect(signers.alice).invite(0, signers.bob.address))
+      .to.emit(anonVerse, "MemberInvited")
+      .withArgs(0, ethers.ZeroAddress);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.alice).invite(0, signers.carol.address);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+    await expect(anonVerse.connect(signers.alice).setRole(0, signers.bob.address, Role.Admin))
+      .to.emit(anonVerse, "RoleChanged")
+      .withArgs(0, ethers.ZeroAddress, Role.Admin);
+    await expect(anonVerse.connect(signers.bob).muteMember(0, signers.carol.address, 60))
+      .to.emit(anonVerse, "MemberMuted")
+      .withArgs(0, ethers.ZeroAddress, anyValue);
+    await expect(anonVerse.connect(signers.bob).unmuteMember(0, signers.carol.address))
+      .to.emit(anonVerse, "MemberUnmuted")
+      .withArgs(0, ethers.ZeroAddress);
+    await expect(anonVerse.connect(signers.alice).transferOwnership(0, signers.bob.address))
+      .to.emit(anonVerse, "OwnershipTransferred")
+      .withArgs(0, ethers.ZeroAddress, ethers.ZeroAddress);
+    await anonVerse.connect(signers.carol).leaveGroup(0);
+
+    // Anything that would name a member in the group's data is refused.
+    await expect(anonVerse.connect(signers.bob).postMessage(0, "cafe")).to.be.revertedWithCustomError(
+      anonVerse,
+      "HiddenMembership",
+    );
+    await expect(anonVerse.connect(signers.bob).react(0, 0, 0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "HiddenMembership",
+    );
+    await expect(anonVerse.connect(signers.bob).setAnonymousPosting(0, false)).to.be.revertedWithCustomError(
+      anonVerse,
+      "HiddenMembership",
+    );
+    await expect(
+      anonVerse
+        .connect(signers.dave)
+        .createGatedGroup(
+          "Sigma",
+          Privacy.Open,
+          { kind: GateKind.Group, token: ethers.ZeroAddress, threshold: 0 },
+          false,
+        ),
+    ).to.be.revertedWithCustomError(anonVerse, "InvalidGate");
+
+    // An outsider reading the logs and lists finds the creator, who sent the creation, and nobody else.
+    await expect(anonVerse.listMembers(0)).to.be.revertedWithCustomError(anonVerse, "HiddenMembership");
+    expect(await anonVerse.listJoinRequests(0)).to.deep.eq([]);
+    expect(await anonVerse.listGroupsOf(signers.bob.address)).to.deep.eq([]);
+    const logs = await ethers.provider.getLogs({ address: contractAddress, fromBlock: 0 });
+    for (const member of [signers.bob, signers.carol]) {
+      const word = member.address.slice(2).toLowerCase();
+      expect(logs.some((log) => [...log.topics, log.data].some((field) => field.toLowerCase().includes(word)))).to.eq(
+        false,
+      );
+    }
+  });
+
+  it("keeps each account's sealed read markers for its other devices", async function () {
+    expect(await anonVerse.getReadMarkers(signers.alice.address)).to.eq("0x");
+
+    await anonVerse.connect(signers.alice).setReadMarkers("0x0102");
+    await anonVerse.connect(signers.bob).setReadMarkers("0xff");
+    await anonVerse.connect(signers.alice).setReadMarkers("0x010203");
+
+    expect(await anonVerse.getReadMarkers(signers.alice.address)).to.eq("0x010203");
+    expect(await anonVerse.getReadMarkers(signers.bob.address)).to.eq("0xff");
+  });
+
+  it("references encrypted attachments by content hash and size", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Mu", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    const group = await anonVerse.getGroup(0);
+    const aliceKey = await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.alice);
+    const bobKey = await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.bob);
+
+    const store = createMemoryBlobStore();
+    const file = { name: "notes.txt", type: "text/plain", data: new TextEncoder().encode("off chain payload") };
+    const ref = await uploadAttachment(store, file, aliceKey);
+    const caption = await encodeMessage("see attached", aliceKey);
+
+    await expect(anonVerse.connect(signers.alice).postMessageWithAttachment(0, caption, ref.hash, ref.size))
+      .to.emit(anonVerse, "MessagePosted")
+      .withArgs(0, signers.alice.address, caption, anyValue, 0, ref.hash, ref.size);
+    await expect(
+      anonVerse.connect(signers.alice).postMessageWithAttachment(0, caption, ethers.ZeroHash, ref.size),
+    ).to.be.revertedWithCustomError(anonVerse, "AttachmentHashRequired");
+    await expect(
+      anonVerse.connect(signers.carol).postMessageWithAttachment(0, caption, ref.hash, ref.size),
+    ).to.be.revertedWithCustomError(anonVerse, "JoinFirst");
+
+    const stored = await anonVerse.getMessage(0, 0);
+    const received = await downloadAttachment(
+      store,
+      { hash: stored.attachmentHash, size: Number(stored.attachmentSize) },
+      bobKey,
+    );
+    expect(received.name).to.eq("notes.txt");
+    expect(new TextDecoder().decode(received.data)).to.eq("off chain payload");
+
+    const tampered = createMemoryBlobStore();
+    const forged = await tampered.put(new Uint8Array(ref.size));
+    await expect(downloadAttachment(tampered, { hash: ref.hash, size: ref.size }, bobKey)).to.be.rejectedWith(
+      "Attachment not found",
+    );
+    await expect(downloadAttachment(tampered, { hash: forged, size: ref.size }, bobKey)).to.be.rejectedWith(
+      "Not an attachment envelope",
+    );
+  });
+
+  it("lets only the original sender edit or delete a message", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Nu", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    const group = await anonVerse.getGroup(0);
+    const bobKey = await fhevm.userDecryptEuint(FhevmType.euint256, group[5], contractAddress, signers.bob);
+
+    await anonVerse.connect(signers.alice).postMessage(0, await encodeMessage("first draft", bobKey));
+    const reply = encodePayload({ type: "reply", body: "agreed", replyTo: 0 });
+    await anonVerse.connect(signers.bob).postMessage(0, await encodeMessage(reply, bobKey));
+
+    const edit = await encodeMessage(encodePayload({ type: "text", body: "final wording" }), bobKey);
+    await expect(anonVerse.connect(signers.bob).editMessage(0, 0, edit)).to.be.revertedWithCustomError(
+      anonVerse,
+      "OnlySender",
+    );
+    await expect(anonVerse.connect(signers.alice).editMessage(0, 0, edit))
+      .to.emit(anonVerse, "MessageEdited")
+      .withArgs(0, 0, edit, 0);
+
+    const edited = await anonVerse.getMessage(0, 0);
+    expect(edited.edited).to.eq(true);
+    expect(decodePayload(await decodeMessage(edited.cipherText, bobKey))).to.deep.eq({
+      type: "text",
+      body: "final wording",
+    });
+    const stored = await anonVerse.getMessage(0, 1);
+    expect(decodePayload(await decodeMessage(stored.cipherText, bobKey))).to.deep.eq({
+      type: "reply",
+      body: "agreed",
+      replyTo: 0,
+    });
+
+    await expect(anonVerse.connect(signers.alice).deleteMessage(0, 1)).to.be.revertedWithCustomError(
+      anonVerse,
+      "OnlySender",
+    );
+    await expect(anonVerse.connect(signers.bob).deleteMessage(0, 1))
+      .to.emit(anonVerse, "MessageDeleted")
+      .withArgs(0, 1);
+    const deleted = await anonVerse.getMessage(0, 1);
+    expect(deleted.deleted).to.eq(true);
+    expect(deleted.cipherText).to.eq("");
+    await expect(anonVerse.connect(signers.bob).editMessage(0, 1, edit)).to.be.revertedWithCustomError(
+      anonVerse,
+      "MessageWasDeleted",
+    );
+    await expect(anonVerse.connect(signers.bob).deleteMessage(0, 1)).to.be.revertedWithCustomError(
+      anonVerse,
+      "MessageWasDeleted",
+    );
+  });
+
+  it("toggles one reaction per member and kind", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Xi", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.alice).postMessage(0, "cafe");
+
+    await expect(anonVerse.connect(signers.bob).react(0, 0, 1))
+      .to.emit(anonVerse, "ReactionChanged")
+      .withArgs(0, 0, signers.bob.address, 1, true);
+    await anonVerse.connect(signers.alice).react(0, 0, 1);
+    expect((await anonVerse.getReactions(0, 0))[1]).to.eq(2n);
+    expect(await anonVerse.hasReacted(0, 0, signers.bob.address, 1)).to.eq(true);
+
+    await expect(anonVerse.connect(signers.bob).react(0, 0, 1))
+      .to.emit(anonVerse, "ReactionChanged")
+      .withArgs(0, 0, signers.bob.address, 1, false);
+    expect((await anonVerse.getReactions(0, 0))[1]).to.eq(1n);
+
+    await expect(anonVerse.connect(signers.carol).react(0, 0, 1)).to.be.revertedWithCustomError(anonVerse, "JoinFirst");
+    await expect(anonVerse.connect(signers.bob).react(0, 0, 6)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InvalidReaction",
+    );
+    await anonVerse.connect(signers.alice).deleteMessage(0, 0);
+    await expect(anonVerse.connect(signers.bob).react(0, 0, 0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "MessageWasDeleted",
+    );
+  });
+
+  it("lets admins allow anonymous posts, which only the anonymous posts contract can store", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Omicron", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    expect(await anonVerse.getPostingPass(0)).to.eq(ethers.ZeroHash);
+
+    await expect(anonVerse.connect(signers.bob).setAnonymousPosting(0, true)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InsufficientRole",
+    );
+    await expect(anonVerse.connect(signers.alice).setAnonymousPosting(0, true))
+      .to.emit(anonVerse, "AnonymousPostingChanged")
+      .withArgs(0, true);
+    expect(await anonVerse.allowsAnonymousPosts(0)).to.eq(true);
+    await expect(anonVerse.connect(signers.alice).setAnonymousPosting(0, true)).to.be.revertedWithCustomError(
+      anonVerse,
+      "Unchanged",
+    );
+
+    // Enabling draws the posting pass. The admin holds it; members allowed to post claim it.
+    const pass = await anonVerse.getPostingPass(0);
+    await anonVerse.connect(signers.bob).claimAccess(0);
+    const alicePass = await fhevm.userDecryptEuint(FhevmType.euint256, pass, contractAddress, signers.alice);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint256, pass, contractAddress, signers.bob)).to.eq(alicePass);
+
+    // Anonymous messages are only stored once the anonymous posts contract has checked their pass.
+    await expect(anonVerse.connect(signers.bob).storeAnonymous(0, "cafe", 0)).to.be.revertedWithCustomError(
+      anonVerse,
+      "OnlyAnonymousPosts",
+    );
+    expect(await anonVerse.ANONYMOUS_POSTS()).to.not.eq(ethers.ZeroAddress);
+
+    await anonVerse.connect(signers.alice).setAnonymousPosting(0, false);
+    expect(await anonVerse.allowsAnonymousPosts(0)).to.eq(false);
+
+    await anonVerse.connect(signers.alice).startDirectMessage(signers.carol.address);
+    await expect(anonVerse.connect(signers.alice).setAnonymousPosting(1, true)).to.be.revertedWithCustomError(
+      anonVerse,
+      "DirectConversation",
+    );
+  });
+
+  it("keeps a sealed profile per group that only admins can replace", async function () {
+    // The public name is only a hint, so it can be left empty.
+    await anonVerse.connect(signers.alice).createGroup("", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    expect((await anonVerse.getGroup(0))[0]).to.eq("");
+    expect(await anonVerse.getProfile(0)).to.deep.eq(["", 0n]);
+
+    await expect(anonVerse.connect(signers.bob).setProfile(0, "cafe")).to.be.revertedWithCustomError(
+      anonVerse,
+      "InsufficientRole",
+    );
+    await anonVerse.connect(signers.alice).rotateKey(0);
+    await expect(anonVerse.connect(signers.alice).setProfile(0, "cafe"))
+      .to.emit(anonVerse, "ProfileChanged")
+      .withArgs(0, "cafe", 1);
+    expect(await anonVerse.getProfile(0)).to.deep.eq(["cafe", 1n]);
+
+    await anonVerse.connect(signers.alice).setProfile(0, "");
+    expect(await anonVerse.getProfile(0)).to.deep.eq(["", 1n]);
+
+    await anonVerse.connect(signers.alice).startDirectMessage(signers.carol.address);
+    await expect(anonVerse.connect(signers.alice).setProfile(1, "cafe")).to.be.revertedWithCustomError(
+      anonVerse,
+      "DirectConversation",
+    );
+  });
+
+  it("posts messages signed by their sender and submitted by anyone", async function () {
+    await anonVerse.connect(signers.alice).createGroup("Rho", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    const domain = postDomain(Number((await ethers.provider.getNetwork()).chainId), contractAddress);
+    const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 600;
+    const draft = { sender: signers.bob.address, groupId: 0, cipherText: "cafe", ...NO_ATTACHMENT, nonce: 0, deadline };
+
+    const post = await signPost(signers.bob, domain, draft);
+    await expect(anonVerse.connect(signers.carol).postMessageBySig(post))
+      .to.emit(anonVerse, "MessagePosted")
+      .withArgs(0, signers.bob.address, "cafe", anyValue, 0, NO_ATTACHMENT.attachmentHash, 0);
+    expect(await anonVerse.nonces(signers.bob.address)).to.eq(1n);
+    expect((await anonVerse.getMessage(0, 0)).sender).to.eq(signers.bob.address);
+    await expect(anonVerse.connect(signers.carol).postMessageBySig(post)).to.be.revertedWithCustomError(
+      anonVerse,
+      "InvalidNonce",
+    );
+
+    const next = { ...draft, nonce: 1 };
+    const forged = await signPost(signers.carol, domain, next);
+    await expect(anonVerse.postMessageBySig(forged)).to.be.revertedWithCustomError(anonVerse, "InvalidSignature");
+    const tampered = { ...(await signPost(signers.bob, domain, next)), cipherText: "beef" };
+    await expect(anonVerse.postMessageBySig(tampered)).to.be.revertedWithCustomError(anonVerse, "InvalidSignature");
+    const expired = await signPost(signers.bob, domain, { ...next, deadline: deadline - 3600 });
+    await expect(anonVerse.postMessageBySig(expired)).to.be.revertedWithCustomError(anonVerse, "SignatureExpired");
+    const outsider = await signPost(signers.carol, domain, { ...draft, sender: signers.carol.address });
+    await expect(anonVerse.postMessageBySig(outsider)).to.be.revertedWithCustomError(anonVerse, "JoinFirst");
+
+    // A batch is all or nothing.
+    const valid = await signPost(signers.bob, domain, next);
+    await expect(anonVerse.postMessagesBySig([valid, outsider])).to.be.revertedWithCustomError(anonVerse, "JoinFirst");
+    await anonVerse.postMessagesBySig([valid]);
+    expect(await anonVerse.getMessageCount(0)).to.eq(2n);
+  });
+
+  it("fans messages out to several groups in one transaction for less gas than single posts", async function () {
+    const groupIds = [0, 1, 2];
+    for (const name of ["Tau", "Upsilon", "Phi"]) {
+      await anonVerse.connect(signers.alice).createGroup(name, Privacy.Open);
+    }
+    await anonVerse.connect(signers.bob).joinGroup(1);
+    const keys: bigint[] = [];
+    for (const groupId of groupIds) {
+      const handle = await anonVerse.getGroupSecret(groupId);
+      keys.push(await fhevm.userDecryptEuint(FhevmType.euint256, handle, contractAddress, signers.alice));
+    }
+    const cipherTexts = await Promise.all(keys.map((key) => encodeMessage("Maintenance at noon", key)));
+
+    await expect(
+      anonVerse.connect(signers.alice).postMessages(groupIds, cipherTexts.slice(1)),
+    ).to.be.revertedWithCustomError(anonVerse, "LengthMismatch");
+    await expect(
+      anonVerse.connect(signers.bob).postMessages([1, 2], cipherTexts.slice(1)),
+    ).to.be.revertedWithCustomError(anonVerse, "JoinFirst");
+
+    // Measure both ways from the same state so neither pays for first writes the other skips.
+    const snapshot = await takeSnapshot();
+    let single = 0n;
+    for (const [i, groupId] of groupIds.entries()) {
+      single += (await (await anonVerse.connect(signers.alice).postMessage(groupId, cipherTexts[i])).wait())!.gasUsed;
+    }
+    await snapshot.restore();
+    const batch = await (await anonVerse.connect(signers.alice).postMessages(groupIds, cipherTexts)).wait();
+    expect(batch!.gasUsed).to.be.lessThan(single);
+
+    for (const groupId of groupIds) {
+      expect(await anonVerse.getMessageCount(groupId)).to.eq(1n);
+    }
+    const bobKey = await fhevm.userDecryptEuint(
+      FhevmType.euint256,
+      await anonVerse.getGroupSecret(1),
+      contractAddress,
+      signers.bob,
+    );
+    expect(await decodeMessage((await anonVerse.getMessage(1, 0)).cipherText, bobKey)).to.eq("Maintenance at noon");
   });
 });
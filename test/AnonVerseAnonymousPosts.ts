@@ -0,0 +1,187 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AnonVerse, AnonVerse__factory, AnonVerseAnonymousPosts, AnonVerseAnonymousPosts__factory } from "../types";
+
+type Signers = {
+  forwarder: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+};
+
+const Privacy = { Open: 0, Approval: 1, InviteOnly: 2 } as const;
+const Role = { None: 0, ReadOnly: 1, Member: 2, Moderator: 3, Admin: 4, Owner: 5 } as const;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("AnonVerse")) as AnonVerse__factory;
+  const anonVerse = (await factory.deploy()) as AnonVerse;
+  const postsAddress = await anonVerse.ANONYMOUS_POSTS();
+  const posts = AnonVerseAnonymousPosts__factory.connect(postsAddress, ethers.provider) as AnonVerseAnonymousPosts;
+  return { anonVerse, anonVerseAddress: await anonVerse.getAddress(), posts, postsAddress };
+}
+
+describe("AnonVerseAnonymousPosts", function () {
+  let signers: Signers;
+  let anonVerse: AnonVerse;
+  let anonVerseAddress: string;
+  let posts: AnonVerseAnonymousPosts;
+  let postsAddress: string;
+
+  before(async function () {
+    const [forwarder, alice, bob, carol, dave] = await ethers.getSigners();
+    signers = { forwarder, alice, bob, carol, dave };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    ({ anonVerse, anonVerseAddress, posts, postsAddress } = await deployFixture());
+  });
+
+  const passOf = (groupId: number, holder: HardhatEthersSigner) =>
+    anonVerse
+      .getPostingPass(groupId)
+      .then((handle) => fhevm.userDecryptEuint(FhevmType.euint256, handle, anonVerseAddress, holder));
+
+  // The poster encrypts the pass for the forwarder, which submits the post from its own account.
+  const submit = async (groupId: number, cipherText: string, pass: bigint) => {
+    const input = await fhevm.createEncryptedInput(postsAddress, signers.forwarder.address).add256(pass).encrypt();
+    return posts.connect(signers.forwarder).postAnonymous(groupId, cipherText, input.handles[0], input.inputProof);
+  };
+
+  const publish = async (postId: number, cipherText: string) => {
+    const { valid } = await posts.getPendingPost(postId);
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([valid]);
+    return posts.connect(signers.dave).publishAnonymous(postId, cipherText, abiEncodedClearValues, decryptionProof);
+  };
+
+  describe("in a group with a public member list", function () {
+    beforeEach(async function () {
+      // Alice owns group 0 with anonymous posts allowed, Bob is a member and Carol a read-only member.
+      await anonVerse.connect(signers.alice).createGroup("Sigma", Privacy.Open);
+      await anonVerse.connect(signers.bob).joinGroup(0);
+      await anonVerse.connect(signers.carol).joinGroup(0);
+      await anonVerse.connect(signers.alice).setRole(0, signers.carol.address, Role.ReadOnly);
+      await anonVerse.connect(signers.alice).setAnonymousPosting(0, true);
+      // Only the admin who drew the pass holds it straight away; members claim it.
+      await anonVerse.connect(signers.bob).claimAccess(0);
+    });
+
+    it("stores posts carrying the posting pass without naming their sender", async function () {
+      const pass = await passOf(0, signers.bob);
+      await expect(submit(0, "cafe", pass))
+        .to.emit(posts, "AnonymousPostSubmitted")
+        .withArgs(0, 0, "cafe", anyValue);
+      // Nothing reaches the timeline before the check is decrypted.
+      expect(await anonVerse.getMessageCount(0)).to.eq(0n);
+
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([
+        (await posts.getPendingPost(0)).valid,
+      ]);
+      const publishAs = (cipherText: string) =>
+        posts.connect(signers.dave).publishAnonymous(0, cipherText, abiEncodedClearValues, decryptionProof);
+      await expect(publishAs("beef")).to.be.revertedWithCustomError(posts, "InvalidPost");
+      await expect(publishAs("cafe"))
+        .to.emit(anonVerse, "MessagePosted")
+        .withArgs(0, ethers.ZeroAddress, "cafe", anyValue, 0, ethers.ZeroHash, 0);
+      expect((await anonVerse.getMessage(0, 0)).sender).to.eq(ethers.ZeroAddress);
+      expect((await posts.getPendingPost(0)).contentHash).to.eq(ethers.ZeroHash);
+      await expect(publishAs("cafe")).to.be.revertedWithCustomError(posts, "InvalidPost");
+
+      // Nobody holds the zero address, so anonymous messages stay as posted.
+      await expect(anonVerse.connect(signers.bob).deleteMessage(0, 0)).to.be.revertedWithCustomError(
+        anonVerse,
+        "OnlySender",
+      );
+      await expect(submit(0, "", pass)).to.be.revertedWithCustomError(posts, "MessageRequired");
+    });
+
+    it("refuses to take the same encrypted pass twice", async function () {
+      const input = await fhevm
+        .createEncryptedInput(postsAddress, signers.forwarder.address)
+        .add256(await passOf(0, signers.bob))
+        .encrypt();
+      await posts.connect(signers.forwarder).postAnonymous(0, "cafe", input.handles[0], input.inputProof);
+      await expect(
+        posts.connect(signers.forwarder).postAnonymous(0, "beef", input.handles[0], input.inputProof),
+      ).to.be.revertedWithCustomError(posts, "PassAlreadyUsed");
+    });
+
+    it("drops posts whose pass does not match", async function () {
+      await submit(0, "cafe", 123n);
+      await expect(publish(0, "cafe")).to.emit(posts, "AnonymousPostRejected").withArgs(0);
+      expect(await anonVerse.getMessageCount(0)).to.eq(0n);
+    });
+
+    it("keeps the pass from read-only members, outsiders and members who are muted or leave", async function () {
+      await expect(passOf(0, signers.carol)).to.be.rejected;
+      await expect(passOf(0, signers.dave)).to.be.rejected;
+
+      const before = await passOf(0, signers.bob);
+      await anonVerse.connect(signers.alice).muteMember(0, signers.bob.address, 60);
+      // Muting draws a new pass, so the one Bob knew no longer posts.
+      await expect(passOf(0, signers.bob)).to.be.rejected;
+      await submit(0, "cafe", before);
+      await expect(publish(0, "cafe")).to.emit(posts, "AnonymousPostRejected").withArgs(0);
+
+      await anonVerse.connect(signers.alice).unmuteMember(0, signers.bob.address);
+      expect(await passOf(0, signers.bob)).to.eq(await passOf(0, signers.alice));
+
+      // Carol gets the pass once she is allowed to post.
+      await anonVerse.connect(signers.alice).setRole(0, signers.carol.address, Role.Member);
+      expect(await passOf(0, signers.carol)).to.eq(await passOf(0, signers.alice));
+
+      const kept = await passOf(0, signers.bob);
+      await anonVerse.connect(signers.bob).leaveGroup(0);
+      await anonVerse.connect(signers.alice).claimAccess(0);
+      expect(await passOf(0, signers.alice)).to.not.eq(kept);
+      await submit(0, "beef", kept);
+      await expect(publish(1, "beef")).to.emit(posts, "AnonymousPostRejected").withArgs(1);
+    });
+
+    it("keeps the key epoch a post was submitted at", async function () {
+      await submit(0, "cafe", await passOf(0, signers.bob));
+      await anonVerse.connect(signers.alice).rotateKey(0);
+      await publish(0, "cafe");
+      expect((await anonVerse.getMessage(0, 0)).epoch).to.eq(0n);
+    });
+
+    it("takes no posts once an admin turns anonymous posting off", async function () {
+      const pass = await passOf(0, signers.bob);
+      await anonVerse.connect(signers.alice).setAnonymousPosting(0, false);
+      await expect(submit(0, "cafe", pass)).to.be.revertedWithCustomError(posts, "AnonymousPostsDisabled");
+    });
+
+    it("drops posts still pending when an admin turns anonymous posting off", async function () {
+      await submit(0, "cafe", await passOf(0, signers.bob));
+      await anonVerse.connect(signers.alice).setAnonymousPosting(0, false);
+      await expect(publish(0, "cafe")).to.emit(posts, "AnonymousPostRejected").withArgs(0);
+      expect(await anonVerse.getMessageCount(0)).to.eq(0n);
+      expect((await posts.getPendingPost(0)).contentHash).to.eq(ethers.ZeroHash);
+    });
+  });
+
+  it("lets members of hidden groups claim the pass drawn after they joined", async function () {
+    await anonVerse.connect(signers.alice).createHiddenGroup("Tau", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+    expect(await passOf(0, signers.bob)).to.eq(await passOf(0, signers.alice));
+
+    // Only the moderator who drew the new pass gets it straight away; members claim it.
+    await anonVerse.connect(signers.alice).muteMember(0, signers.carol.address, 60);
+    await expect(passOf(0, signers.bob)).to.be.rejected;
+    await anonVerse.connect(signers.bob).claimAccess(0);
+    await anonVerse.connect(signers.carol).claimAccess(0);
+    const pass = await passOf(0, signers.bob);
+    await expect(passOf(0, signers.carol)).to.be.rejected;
+
+    await submit(0, "cafe", pass);
+    await publish(0, "cafe");
+    expect(await anonVerse.getMessageCount(0)).to.eq(1n);
+  });
+});
@@ -0,0 +1,402 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  AnonVerse__factory,
+  AnonVerseAnonymousPosts__factory,
+  AnonVersePolls__factory,
+  MockERC721__factory,
+} from "../types";
+import {
+  createAnonVerseClient,
+  createAnonymousPostsClient,
+  createPollsClient,
+  decryptPayload,
+  decryptPoll,
+  decryptProfile,
+  derivePseudonym,
+  describeGate,
+  encryptPayload,
+  encryptPoll,
+  encryptProfile,
+  GateKind,
+  handleOf,
+  Privacy,
+  pseudonymSeed,
+  Role,
+  type AddressDecryptor,
+  type AnonVerseClient,
+  type KeyDecryptor,
+  type Message,
+  type OptionEncryptor,
+  type PassEncryptor,
+  signAsPseudonym,
+  verifyPseudonym,
+} from "../sdk";
+
+describe("AnonVerseClient", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let aliceClient: AnonVerseClient;
+  let bobClient: AnonVerseClient;
+
+  // The mock cannot run user decryptions concurrently, so handles are decrypted one at a time.
+  const decryptorFor =
+    (signer: HardhatEthersSigner, address: string): KeyDecryptor =>
+    async (handles) => {
+      const clear: Record<string, bigint> = {};
+      for (const handle of handles) {
+        clear[handle] = await fhevm.userDecryptEuint(FhevmType.euint256, handle, address, signer);
+      }
+      return clear;
+    };
+
+  before(async function () {
+    [, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  const addressDecryptorFor =
+    (signer: HardhatEthersSigner, address: string): AddressDecryptor =>
+    async (handles) => {
+      const clear: Record<string, string> = {};
+      for (const handle of handles) {
+        clear[handle] = await fhevm.userDecryptEaddress(handle, address, signer);
+      }
+      return clear;
+    };
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const factory = (await ethers.getContractFactory("AnonVerse")) as AnonVerse__factory;
+    const address = await (await factory.deploy()).getAddress();
+    const options = { address, abi: AnonVerse__factory.abi };
+    aliceClient = createAnonVerseClient({
+      ...options,
+      runner: alice,
+      decryptKeys: decryptorFor(alice, address),
+      decryptAddresses: addressDecryptorFor(alice, address),
+    });
+    bobClient = createAnonVerseClient({
+      ...options,
+      runner: bob,
+      decryptKeys: decryptorFor(bob, address),
+      decryptAddresses: addressDecryptorFor(bob, address),
+    });
+  });
+
+  it("returns typed groups and membership", async function () {
+    await (await aliceClient.createGroup("Alpha", Privacy.Approval)).wait();
+    await (await bobClient.joinGroup(0)).wait();
+
+    const group = await bobClient.getGroup(0);
+    expect(group).to.include({
+      id: 0,
+      name: "Alpha",
+      creator: alice.address,
+      owner: alice.address,
+      privacy: Privacy.Approval,
+      memberCount: 1,
+      messageCount: 0,
+      keyEpoch: 0,
+      direct: false,
+    });
+    expect(group.createdAt).to.be.a("number");
+    expect(await bobClient.membership(0, bob.address)).to.deep.eq({
+      member: false,
+      pending: true,
+      invited: false,
+      role: Role.None,
+      mutedUntil: 0,
+    });
+    expect(await aliceClient.listJoinRequests(0)).to.deep.eq([bob.address]);
+
+    await (await aliceClient.approveRequest(0, bob.address)).wait();
+    expect((await bobClient.membership(0, bob.address)).role).to.eq(Role.Member);
+    expect(await aliceClient.listMembers(0)).to.deep.eq([alice.address, bob.address]);
+
+    await (await aliceClient.startDirectMessage(carol.address)).wait();
+    expect(await aliceClient.directConversation(carol.address, alice.address)).to.eq(1);
+    expect(await aliceClient.directConversation(alice.address, bob.address)).to.eq(null);
+    expect((await aliceClient.listGroups()).map(({ id, direct }) => [id, direct])).to.deep.eq([
+      [0, false],
+      [1, true],
+    ]);
+    expect((await aliceClient.listGroupsOf(bob.address)).map(({ id, name }) => [id, name])).to.deep.eq([[0, "Alpha"]]);
+  });
+
+  it("describes join gates and who meets them", async function () {
+    const nft = await ((await ethers.getContractFactory("MockERC721")) as MockERC721__factory).deploy("Keys", "KEY");
+    const gate = { kind: GateKind.ERC721, token: await nft.getAddress(), threshold: 1n };
+    await (await aliceClient.createGroup("Kappa", Privacy.Open)).wait();
+    await (await aliceClient.createGroup("Lambda", Privacy.Open, { gate })).wait();
+
+    expect((await bobClient.getGroup(0)).gate).to.eq(null);
+    expect((await bobClient.getGroup(1)).gate).to.deep.eq(gate);
+    expect(await describeGate(gate, bob)).to.eq("1 KEY NFT");
+    expect(await describeGate({ kind: GateKind.Group, token: ethers.ZeroAddress, threshold: 0n }, bob)).to.eq(
+      "membership in group #0",
+    );
+    expect(await bobClient.meetsGate(1, bob.address)).to.eq(false);
+    await expect(bobClient.joinGroup(1)).to.be.rejectedWith("GateNotMet");
+
+    await (await nft.mint(bob.address)).wait();
+    expect(await bobClient.meetsGate(1, bob.address)).to.eq(true);
+    await (await bobClient.joinGroup(1)).wait();
+    expect(await bobClient.isMember(1, bob.address)).to.eq(true);
+  });
+
+  it("reveals the members of hidden groups to members only", async function () {
+    await (await aliceClient.createGroup("Eta", Privacy.Open, { hiddenMembers: true })).wait();
+    await (await bobClient.joinGroup(0)).wait();
+
+    expect(await aliceClient.getGroup(0)).to.include({ hiddenMembers: true, anonymousPosts: true, memberCount: 2 });
+    expect((await bobClient.membership(0, bob.address)).member).to.eq(true);
+    await expect(aliceClient.listMembers(0)).to.be.rejectedWith("HiddenMembership");
+    expect(await bobClient.revealMembers(0)).to.deep.eq([alice.address, bob.address]);
+
+    // Alice joined before Bob, so his slot is claimed for her on the way.
+    expect(await aliceClient.revealMembers(0)).to.deep.eq([alice.address, bob.address]);
+
+    // Keys drawn after Bob joined are claimed for him the same way.
+    await (await aliceClient.rotateKey(0)).wait();
+    expect((await bobClient.unlockKeys([0]))[0]).to.deep.eq((await aliceClient.unlockKeys([0]))[0]);
+
+    await (await aliceClient.removeMember(0, bob.address)).wait();
+    expect(await aliceClient.revealMembers(0)).to.deep.eq([alice.address]);
+    await expect(bobClient.revealMembers(0)).to.be.rejected;
+  });
+
+  it("only claims access when the ACL denies a member, and rethrows any other failure", async function () {
+    await (await aliceClient.createGroup("Theta", Privacy.Open, { hiddenMembers: true })).wait();
+    await (await bobClient.joinGroup(0)).wait();
+    await (await aliceClient.rotateKey(0)).wait();
+
+    const unreachable = createAnonVerseClient({
+      address: bobClient.address,
+      abi: AnonVerse__factory.abi,
+      runner: bob,
+      decryptKeys: async () => {
+        throw new Error("Relayer unreachable");
+      },
+    });
+    const nonce = await bob.getNonce();
+    await expect(unreachable.unlockKeys([0])).to.be.rejectedWith("Relayer unreachable");
+    expect(await bob.getNonce()).to.eq(nonce);
+
+    // Claiming would revert for an outsider, so the denial is rethrown as it was.
+    const outsider = createAnonVerseClient({
+      address: bobClient.address,
+      abi: AnonVerse__factory.abi,
+      runner: carol,
+      decryptKeys: decryptorFor(carol, bobClient.address),
+    });
+    const outsiderNonce = await carol.getNonce();
+    await expect(outsider.unlockKeys([0])).to.be.rejectedWith("is not authorized to user decrypt");
+    expect(await carol.getNonce()).to.eq(outsiderNonce);
+  });
+
+  it("unlocks every key epoch and round-trips message payloads", async function () {
+    await (await aliceClient.createGroup("Beta", Privacy.Open)).wait();
+    await (await bobClient.joinGroup(0)).wait();
+    const [before] = Object.values(await bobClient.unlockKeys([0]));
+    await (await aliceClient.rotateKey(0)).wait();
+
+    const keys = (await bobClient.unlockKeys([0]))[0];
+    expect(keys).to.have.length(2);
+    expect(keys[0]).to.eq(before[0]);
+
+    const attachment = { hash: ethers.keccak256("0x01"), size: 1 };
+    await (await bobClient.postMessage(0, await encryptPayload({ type: "text", body: "hi" }, keys[1]))).wait();
+    await (
+      await aliceClient.postMessage(
+        0,
+        await encryptPayload({ type: "reply", body: "hello", replyTo: 0 }, keys[1]),
+        attachment,
+      )
+    ).wait();
+    await (await bobClient.deleteMessage(0, 0)).wait();
+
+    const [first, second] = await aliceClient.getMessages(0, 0, 10);
+    expect(first).to.include({ index: 0, sender: bob.address, epoch: 1, deleted: true, attachment: undefined });
+    expect(second).to.include({ index: 1, sender: alice.address, epoch: 1, deleted: false });
+    expect(second.attachment).to.deep.eq(attachment);
+    expect(await decryptPayload(second.cipherText, keys[second.epoch])).to.deep.eq({
+      type: "reply",
+      body: "hello",
+      replyTo: 0,
+    });
+    await expect(decryptPayload(second.cipherText, keys[0])).to.be.rejected;
+  });
+
+  it("seals group profiles with the group key", async function () {
+    await (await aliceClient.createGroup("Theta", Privacy.Open)).wait();
+    const receipt = await (await aliceClient.createGroup("", Privacy.Open)).wait();
+    const groupId = aliceClient.createdGroupId(receipt!);
+    expect(groupId).to.eq(1);
+    expect(await aliceClient.getProfile(groupId)).to.eq(null);
+
+    const [key] = (await aliceClient.unlockKeys([groupId]))[groupId];
+    const avatar = { hash: ethers.keccak256("0x01"), size: 1 };
+    const profile = { name: "Iota", description: "Where the plans are made", avatar };
+    await (await aliceClient.setProfile(groupId, await encryptProfile(profile, key))).wait();
+
+    await (await bobClient.joinGroup(groupId)).wait();
+    const sealed = await bobClient.getProfile(groupId);
+    expect(sealed?.epoch).to.eq(0);
+    const [bobKey] = (await bobClient.unlockKeys([groupId]))[groupId];
+    expect(await decryptProfile(sealed!.cipherText, bobKey)).to.deep.eq(profile);
+
+    // Profiles are sealed under their own derived key, so they cannot be read as messages or with another key.
+    await expect(decryptPayload(sealed!.cipherText, bobKey)).to.be.rejected;
+    const [otherKey] = (await aliceClient.unlockKeys([0]))[0];
+    await expect(decryptProfile(sealed!.cipherText, otherKey)).to.be.rejected;
+  });
+
+  it("opens sealed polls, votes privately and reveals the result after the deadline", async function () {
+    const polls = await ((await ethers.getContractFactory("AnonVersePolls")) as AnonVersePolls__factory).deploy(
+      aliceClient.address,
+    );
+    const encryptOption: OptionEncryptor = async (contractAddress, account, option) => {
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(contractAddress, account)
+        .add32(option)
+        .encrypt();
+      return { handle: handles[0], inputProof };
+    };
+    const options = {
+      address: await polls.getAddress(),
+      abi: AnonVersePolls__factory.abi,
+      encryptOption,
+      publicDecrypt: (handles: string[]) => fhevm.publicDecrypt(handles),
+    };
+    const alicePolls = createPollsClient({ ...options, runner: alice });
+    const bobPolls = createPollsClient({ ...options, runner: bob });
+
+    await (await aliceClient.createGroup("Mu", Privacy.Open)).wait();
+    await (await bobClient.joinGroup(0)).wait();
+    const [key] = (await aliceClient.unlockKeys([0]))[0];
+    const content = { question: "Where next?", options: ["Lisbon", "Oslo", "Riga"] };
+    const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 60;
+    const receipt = await (await alicePolls.createPoll(0, await encryptPoll(content, key), 3, deadline)).wait();
+    const pollId = alicePolls.createdPollId(receipt!);
+
+    const [poll] = await bobPolls.listPolls(0);
+    expect(poll).to.deep.include({ id: pollId, groupId: 0, creator: alice.address, optionCount: 3, deadline });
+    expect(poll).to.deep.include({ voterCount: 0, closed: false, revealed: false, results: null });
+    const [bobKey] = (await bobClient.unlockKeys([0]))[0];
+    expect(await decryptPoll(poll.cipherText, bobKey)).to.deep.eq(content);
+    await expect(decryptPayload(poll.cipherText, bobKey)).to.be.rejected;
+
+    await (await bobPolls.vote(pollId, 2)).wait();
+    await (await alicePolls.vote(pollId, 2)).wait();
+    expect(await bobPolls.hasVoted(pollId, bob.address)).to.eq(true);
+
+    await ethers.provider.send("evm_increaseTime", [60]);
+    await ethers.provider.send("evm_mine", []);
+    await (await bobPolls.closePoll(pollId)).wait();
+    await (await bobPolls.publishResult(pollId)).wait();
+    expect(await alicePolls.getPoll(pollId)).to.deep.include({ voterCount: 2, revealed: true, results: [0, 0, 2] });
+  });
+
+  it("posts anonymously under a stable per-group pseudonym", async function () {
+    await (await aliceClient.createGroup("Epsilon", Privacy.Open)).wait();
+    await (await aliceClient.createGroup("Zeta", Privacy.Open)).wait();
+    await (await bobClient.joinGroup(0)).wait();
+    await (await aliceClient.setAnonymousPosting(0, true)).wait();
+    expect((await bobClient.getGroup(0)).anonymousPosts).to.eq(true);
+
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const seed = await pseudonymSeed(bob, chainId, bobClient.address);
+    expect(await pseudonymSeed(bob, chainId, bobClient.address)).to.eq(seed);
+    const pseudonym = derivePseudonym(seed, 0);
+    expect(derivePseudonym(seed, 1).address).to.not.eq(pseudonym.address);
+    expect(derivePseudonym(await pseudonymSeed(alice, chainId, bobClient.address), 0).address).to.not.eq(
+      pseudonym.address,
+    );
+
+    const encryptPass: PassEncryptor = async (contractAddress, account, pass) => {
+      const { handles, inputProof } = await fhevm.createEncryptedInput(contractAddress, account).add256(pass).encrypt();
+      return { handle: handles[0], inputProof };
+    };
+    const posts = createAnonymousPostsClient({
+      address: await bobClient.anonymousPostsAddress(),
+      abi: AnonVerseAnonymousPosts__factory.abi,
+      runner: bob,
+      encryptPass,
+      publicDecrypt: (handles: string[]) => fhevm.publicDecrypt(handles),
+    });
+
+    const [key] = (await bobClient.unlockKeys([0]))[0];
+    const payload = await signAsPseudonym({ type: "text", body: "who am I" }, 0, pseudonym);
+    const cipherText = await encryptPayload(payload, key);
+    // Sent from Bob's own account here; a relayer would submit it with the pass encrypted for its account instead.
+    const pass = await posts.encryptPass(await bobClient.unlockPostingPass(0), bob.address);
+    const submitted = await (await posts.postAnonymous(0, cipherText, pass)).wait();
+    const published = await (await posts.publishAnonymous(posts.submittedPostId(submitted!), cipherText)).wait();
+    expect(posts.wasRejected(published!)).to.eq(false);
+
+    const [message] = await aliceClient.getMessages(0, 0, 1);
+    expect(message).to.include({ sender: ethers.ZeroAddress, anonymous: true });
+    const read = await decryptPayload(message.cipherText, key);
+    expect(verifyPseudonym(read, 0)).to.eq(pseudonym.address);
+    expect(handleOf(verifyPseudonym(read, 0)!)).to.eq(handleOf(pseudonym.address));
+    expect(handleOf(pseudonym.address)).to.match(/^\w+ \w+ #[0-9a-f]{4}$/);
+
+    // Fields are hashed in a fixed order, so a payload read back with its keys reordered still verifies.
+    const { author, ...content } = read;
+    const reordered = Object.fromEntries(Object.entries(content).reverse());
+    expect(verifyPseudonym({ author, ...reordered } as typeof read, 0)).to.eq(pseudonym.address);
+
+    // The proof is bound to the content and the group it was written for.
+    expect(verifyPseudonym({ ...read, body: "someone else" }, 0)).to.eq(null);
+    expect(verifyPseudonym(read, 1)).to.eq(null);
+    expect(verifyPseudonym({ type: "text", body: "who am I" }, 0)).to.eq(null);
+
+    // A pass drawn while Bob was muted is claimed once the mute has run out.
+    await (await aliceClient.muteMember(0, bob.address, 30)).wait();
+    await expect(bobClient.unlockPostingPass(0)).to.be.rejected;
+    await ethers.provider.send("evm_increaseTime", [30]);
+    await ethers.provider.send("evm_mine", []);
+    expect(await bobClient.unlockPostingPass(0)).to.eq(await aliceClient.unlockPostingPass(0));
+  });
+
+  it("refuses to unlock keys without a decryptor", async function () {
+    const readOnly = createAnonVerseClient({
+      address: aliceClient.address,
+      abi: AnonVerse__factory.abi,
+      runner: alice,
+    });
+    await (await readOnly.createGroup("Gamma", Privacy.Open)).wait();
+    await expect(readOnly.unlockKeys([0])).to.be.rejectedWith("No key decryptor configured");
+  });
+
+  it("watches a timeline from a given index, then follows new messages", async function () {
+    await (await aliceClient.createGroup("Delta", Privacy.Open)).wait();
+    for (const cipherText of ["00", "01", "02"]) {
+      await (await aliceClient.postMessage(0, cipherText)).wait();
+    }
+
+    const seen: Message[] = [];
+    const stop = aliceClient.watchMessages(0, 1, (message) => {
+      seen.push(message);
+    });
+    try {
+      await (await aliceClient.postMessages([0, 0], ["03", "04"])).wait();
+      while (seen.length < 4) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    } finally {
+      stop();
+    }
+    expect(seen.map(({ index, cipherText }) => [index, cipherText])).to.deep.eq([
+      [1, "01"],
+      [2, "02"],
+      [3, "03"],
+      [4, "04"],
+    ]);
+  });
+});
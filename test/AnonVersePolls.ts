@@ -0,0 +1,172 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AnonVerse, AnonVerse__factory, AnonVersePolls, AnonVersePolls__factory } from "../types";
+
+type Signers = {
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  dave: HardhatEthersSigner;
+};
+
+const Privacy = { Open: 0, Approval: 1, InviteOnly: 2 } as const;
+const Role = { None: 0, ReadOnly: 1, Member: 2, Moderator: 3, Admin: 4, Owner: 5 } as const;
+// Kept short: the chain clock only moves forward, and later suites compare it with the wall clock.
+const VOTING_TIME = 60;
+
+async function deployFixture() {
+  const anonVerseFactory = (await ethers.getContractFactory("AnonVerse")) as AnonVerse__factory;
+  const anonVerse = (await anonVerseFactory.deploy()) as AnonVerse;
+  const pollsFactory = (await ethers.getContractFactory("AnonVersePolls")) as AnonVersePolls__factory;
+  const polls = (await pollsFactory.deploy(await anonVerse.getAddress())) as AnonVersePolls;
+  return { anonVerse, polls, pollsAddress: await polls.getAddress() };
+}
+
+const now = async () => (await ethers.provider.getBlock("latest"))!.timestamp;
+
+describe("AnonVersePolls", function () {
+  let signers: Signers;
+  let anonVerse: AnonVerse;
+  let polls: AnonVersePolls;
+  let pollsAddress: string;
+
+  before(async function () {
+    const [, alice, bob, carol, dave] = await ethers.getSigners();
+    signers = { alice, bob, carol, dave };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    ({ anonVerse, polls, pollsAddress } = await deployFixture());
+    // Alice owns group 0, Bob is a member and Carol a read-only member; Dave stays outside.
+    await anonVerse.connect(signers.alice).createGroup("Polls", Privacy.Open);
+    await anonVerse.connect(signers.bob).joinGroup(0);
+    await anonVerse.connect(signers.carol).joinGroup(0);
+    await anonVerse.connect(signers.alice).setRole(0, signers.carol.address, Role.ReadOnly);
+  });
+
+  const vote = async (voter: HardhatEthersSigner, pollId: number, option: number) => {
+    const input = await fhevm.createEncryptedInput(pollsAddress, voter.address).add32(option).encrypt();
+    return polls.connect(voter).vote(pollId, input.handles[0], input.inputProof);
+  };
+
+  it("tallies encrypted votes, one per member, and reveals them only after the deadline", async function () {
+    const deadline = (await now()) + VOTING_TIME;
+    await expect(polls.connect(signers.alice).createPoll(0, "cafe", 3, deadline))
+      .to.emit(polls, "PollCreated")
+      .withArgs(0, 0, signers.alice.address, 3, deadline);
+
+    await expect(vote(signers.bob, 0, 1))
+      .to.emit(polls, "Voted")
+      .withArgs(0);
+    await vote(signers.alice, 0, 1);
+    // Read-only members cannot post, but they still vote.
+    await vote(signers.carol, 0, 0);
+    await expect(vote(signers.bob, 0, 2)).to.be.revertedWithCustomError(polls, "AlreadyVoted");
+    await expect(vote(signers.dave, 0, 2)).to.be.revertedWithCustomError(polls, "NotAMember");
+
+    expect(await polls.hasVoted(0, signers.bob.address)).to.eq(true);
+    expect(await polls.hasVoted(0, signers.dave.address)).to.eq(false);
+    expect((await polls.getPoll(0)).voterCount).to.eq(3n);
+
+    // Until the deadline no one, not even the creator, can read a tally.
+    const [first] = await polls.getTallies(0);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, first, pollsAddress, signers.alice)).to.be.rejected;
+    await expect(polls.closePoll(0)).to.be.revertedWithCustomError(polls, "PollStillOpen");
+
+    await ethers.provider.send("evm_increaseTime", [VOTING_TIME]);
+    await ethers.provider.send("evm_mine", []);
+    await expect(vote(signers.dave, 0, 0)).to.be.revertedWithCustomError(polls, "PollEnded");
+    await expect(polls.publishResult(0, "0x", "0x")).to.be.revertedWithCustomError(polls, "PollNotClosed");
+
+    // Anyone may close and reveal an ended poll.
+    await expect(polls.connect(signers.dave).closePoll(0)).to.emit(polls, "PollClosed");
+    await expect(polls.closePoll(0)).to.be.revertedWithCustomError(polls, "AlreadyClosed");
+
+    const tallies = await polls.getTallies(0);
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([...tallies]);
+    const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32", "uint32"], [0, 3, 0]);
+    await expect(polls.publishResult(0, forged, decryptionProof)).to.be.reverted;
+
+    await expect(polls.connect(signers.dave).publishResult(0, abiEncodedClearValues, decryptionProof))
+      .to.emit(polls, "PollRevealed")
+      .withArgs(0, [1, 2, 0]);
+    expect(await polls.getResults(0)).to.deep.eq([1n, 2n, 0n]);
+    expect((await polls.getPoll(0)).revealed).to.eq(true);
+    await expect(polls.publishResult(0, abiEncodedClearValues, decryptionProof)).to.be.revertedWithCustomError(
+      polls,
+      "AlreadyRevealed",
+    );
+  });
+
+  it("counts an option index outside the poll as a blank vote", async function () {
+    await polls.connect(signers.bob).createPoll(0, "cafe", 2, (await now()) + VOTING_TIME);
+    await vote(signers.alice, 0, 7);
+    await vote(signers.bob, 0, 0);
+
+    await ethers.provider.send("evm_increaseTime", [VOTING_TIME]);
+    await ethers.provider.send("evm_mine", []);
+    await polls.closePoll(0);
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([...(await polls.getTallies(0))]);
+    await polls.publishResult(0, abiEncodedClearValues, decryptionProof);
+
+    expect(await polls.getResults(0)).to.deep.eq([1n, 0n]);
+    expect((await polls.getPoll(0)).voterCount).to.eq(2n);
+  });
+
+  it("lets members who may post open polls and checks their options and deadline", async function () {
+    const deadline = (await now()) + VOTING_TIME;
+    await expect(polls.connect(signers.carol).createPoll(0, "cafe", 2, deadline)).to.be.revertedWithCustomError(
+      polls,
+      "InsufficientRole",
+    );
+    await expect(polls.connect(signers.dave).createPoll(0, "cafe", 2, deadline)).to.be.revertedWithCustomError(
+      polls,
+      "InsufficientRole",
+    );
+    await expect(polls.connect(signers.bob).createPoll(0, "", 2, deadline)).to.be.revertedWithCustomError(
+      polls,
+      "QuestionRequired",
+    );
+    await expect(polls.connect(signers.bob).createPoll(0, "cafe", 1, deadline)).to.be.revertedWithCustomError(
+      polls,
+      "InvalidOptionCount",
+    );
+    await expect(polls.connect(signers.bob).createPoll(0, "cafe", 9, deadline)).to.be.revertedWithCustomError(
+      polls,
+      "InvalidOptionCount",
+    );
+    await expect(polls.connect(signers.bob).createPoll(0, "cafe", 2, await now())).to.be.revertedWithCustomError(
+      polls,
+      "DeadlinePassed",
+    );
+
+    await anonVerse.connect(signers.alice).startDirectMessage(signers.bob.address);
+    await expect(polls.connect(signers.alice).createPoll(1, "cafe", 2, deadline)).to.be.revertedWithCustomError(
+      polls,
+      "DirectConversation",
+    );
+    await anonVerse.connect(signers.alice).createHiddenGroup("Hidden", Privacy.Open);
+    await expect(polls.connect(signers.alice).createPoll(2, "cafe", 2, deadline)).to.be.revertedWithCustomError(
+      polls,
+      "HiddenMembership",
+    );
+
+    // Polls are sealed under the key epoch that is current when they open.
+    await anonVerse.connect(signers.alice).rotateKey(0);
+    await polls.connect(signers.bob).createPoll(0, "cafe", 2, deadline);
+    await polls.connect(signers.alice).createPoll(0, "beef", 8, deadline);
+    expect(await polls.listPolls(0)).to.deep.eq([0n, 1n]);
+    expect(await polls.getPollCount()).to.eq(2n);
+    const poll = await polls.getPoll(0);
+    expect(poll.creator).to.eq(signers.bob.address);
+    expect(poll.cipherText).to.eq("cafe");
+    expect(poll.epoch).to.eq(1n);
+    expect(poll.optionCount).to.eq(2n);
+    await expect(polls.getPoll(2)).to.be.revertedWithCustomError(polls, "InvalidPoll");
+  });
+});
@@ -0,0 +1,202 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AnonVerse, AnonVerse__factory, AnonVerseAnonymousPosts__factory } from "../types";
+import { createRelayer, type Relayer } from "../relayer/relayer";
+import { createRelayerServer } from "../relayer/server";
+import { createAnonymousPostsClient } from "../sdk";
+import {
+  createRelayerClient,
+  NO_ATTACHMENT,
+  postDomain,
+  signPost,
+  type PostDomain,
+  type RelayerClient,
+} from "../shared/metaTx";
+
+const BATCH_SIZE = 3;
+
+describe("Relayer", function () {
+  let deployer: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let dave: HardhatEthersSigner;
+  let anonVerse: AnonVerse;
+  let postsAddress: string;
+  let domain: PostDomain;
+  let relayer: Relayer;
+  let server: Server;
+  let client: RelayerClient;
+
+  const sign = async (signer: HardhatEthersSigner, nonce: number, cipherText: string, ttl = 600) => {
+    const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + ttl;
+    return signPost(signer, domain, {
+      sender: signer.address,
+      groupId: 0,
+      cipherText,
+      ...NO_ATTACHMENT,
+      nonce,
+      deadline,
+    });
+  };
+
+  // Wait until the relayer has queued `count` posts of `account`; requests reach it asynchronously.
+  const queued = async (account: HardhatEthersSigner, count: number) => {
+    while ((await client.nextNonce(account.address)) < count) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  before(async function () {
+    [deployer, , bob, carol, dave] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const factory = (await ethers.getContractFactory("AnonVerse")) as AnonVerse__factory;
+    anonVerse = (await factory.deploy()) as AnonVerse;
+    const address = await anonVerse.getAddress();
+    domain = postDomain(Number((await ethers.provider.getNetwork()).chainId), address);
+
+    await anonVerse.connect(bob).createGroup("Sigma", 0);
+    await anonVerse.connect(carol).joinGroup(0);
+
+    postsAddress = await anonVerse.ANONYMOUS_POSTS();
+    const anonymousPosts = createAnonymousPostsClient({
+      address: postsAddress,
+      abi: AnonVerseAnonymousPosts__factory.abi,
+      runner: deployer,
+      publicDecrypt: (handles) => fhevm.publicDecrypt(handles),
+    });
+    // A long interval so that only a full batch or an explicit flush sends anything.
+    relayer = createRelayer(anonVerse.connect(deployer), domain, {
+      maxBatchSize: BATCH_SIZE,
+      flushInterval: 60_000,
+      anonymousPosts,
+    });
+    server = createRelayerServer(relayer, { anonymousLimit: 3 });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    client = createRelayerClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterEach(async function () {
+    relayer?.stop();
+    await new Promise((resolve) => server?.close(resolve));
+  });
+
+  it("batches queued posts into one transaction paid by the relayer", async function () {
+    const bobBalance = await ethers.provider.getBalance(bob.address);
+
+    const first = client.submit(await sign(bob, await client.nextNonce(bob.address), "01"));
+    await queued(bob, 1);
+    const second = client.submit(await sign(bob, 1, "02"));
+    const third = client.submit(await sign(carol, await client.nextNonce(carol.address), "03"));
+
+    const hashes = await Promise.all([first, second, third]);
+    expect(new Set(hashes).size).to.eq(1);
+    const receipt = await ethers.provider.getTransactionReceipt(hashes[0]);
+    expect(receipt!.from).to.eq(deployer.address);
+
+    const messages = await anonVerse.getMessages(0, 0, 10);
+    expect(messages.map((message) => [message.sender, message.cipherText])).to.deep.eq([
+      [bob.address, "01"],
+      [bob.address, "02"],
+      [carol.address, "03"],
+    ]);
+    expect(await ethers.provider.getBalance(bob.address)).to.eq(bobBalance);
+    expect(await client.nextNonce(bob.address)).to.eq(2);
+  });
+
+  it("rejects bad posts without holding back the rest of the batch", async function () {
+    await expect(client.submit(await sign(bob, 0, "01", -3600))).to.be.rejectedWith("Signature expired");
+    await expect(client.submit({ ...(await sign(bob, 0, "01")), cipherText: "02" })).to.be.rejectedWith(
+      "Invalid signature",
+    );
+
+    // Dave signs correctly but is not a member, which only the contract can tell.
+    const outsider = expect(client.submit(await sign(dave, 0, "03"))).to.be.rejectedWith("JoinFirst");
+    const member = client.submit(await sign(carol, 0, "04"));
+    await queued(dave, 1);
+    await queued(carol, 1);
+    await relayer.flush();
+
+    await outsider;
+    expect(await member).to.match(/^0x[0-9a-f]{64}$/);
+    expect(await anonVerse.getMessageCount(0)).to.eq(1n);
+  });
+
+  it("turns away the later posts of a sender whose post failed and resyncs its nonce", async function () {
+    const failing = expect(client.submit(await sign(carol, 0, ""))).to.be.rejectedWith("MessageRequired");
+    await queued(carol, 1);
+    const following = expect(client.submit(await sign(carol, 1, "02"))).to.be.rejectedWith(
+      "An earlier post of this sender failed",
+    );
+    await queued(carol, 2);
+    const other = client.submit(await sign(bob, 0, "03"));
+    await Promise.all([failing, following]);
+    await other;
+
+    expect(await client.nextNonce(carol.address)).to.eq(0);
+    const retried = client.submit(await sign(carol, 0, "02"));
+    await queued(carol, 1);
+    await relayer.flush();
+    await retried;
+
+    const messages = await anonVerse.getMessages(0, 0, 10);
+    expect(messages.map((message) => [message.sender, message.cipherText])).to.deep.eq([
+      [bob.address, "03"],
+      [carol.address, "02"],
+    ]);
+  });
+
+  it("posts anonymous messages from its own account once their posting pass checks out", async function () {
+    // Members encrypt the pass for the relayer's account, which submits the post.
+    const account = await client.account();
+    expect(account).to.eq(deployer.address);
+    const anonymousPost = async (cipherText: string, pass: bigint) => {
+      const input = await fhevm.createEncryptedInput(postsAddress, account).add256(pass).encrypt();
+      return {
+        groupId: 0,
+        cipherText,
+        pass: ethers.hexlify(input.handles[0]),
+        inputProof: ethers.hexlify(input.inputProof),
+      };
+    };
+
+    await expect(client.submitAnonymous(await anonymousPost("01", 0n))).to.be.rejectedWith("AnonymousPostsDisabled");
+    await anonVerse.connect(bob).setAnonymousPosting(0, true);
+    await anonVerse.connect(carol).claimAccess(0);
+    const pass = await fhevm.userDecryptEuint(
+      FhevmType.euint256,
+      await anonVerse.getPostingPass(0),
+      await anonVerse.getAddress(),
+      carol,
+    );
+    await expect(client.submitAnonymous(await anonymousPost("02", pass + 1n))).to.be.rejectedWith("PassMismatch");
+
+    const signed = client.submit(await sign(carol, 0, "03"));
+    await queued(carol, 1);
+    const anonymous = client.submitAnonymous(await anonymousPost("04", pass));
+    await relayer.flush();
+    await signed;
+
+    const receipt = await ethers.provider.getTransactionReceipt(await anonymous);
+    expect(receipt!.from).to.eq(deployer.address);
+    const messages = await anonVerse.getMessages(0, 0, 10);
+    expect(messages.map((message) => [message.sender, message.cipherText])).to.deep.eq([
+      [carol.address, "03"],
+      [ethers.ZeroAddress, "04"],
+    ]);
+
+    // Unsigned posts are paid for by the relayer, so each client address only gets a few of them.
+    await expect(client.submitAnonymous(await anonymousPost("05", pass))).to.be.rejectedWith(
+      "Too many anonymous posts",
+    );
+    expect(await anonVerse.getMessageCount(0)).to.eq(2n);
+  });
+});